@@ -7,11 +7,18 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
-import { dirname, join, extname } from 'path';
+import { dirname, join, extname, parse } from 'path';
+import { tmpdir } from 'os';
 import multer from 'multer';
+import sharp from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
 import fs from 'fs';
 import { z } from 'zod';
 import { nanoid } from 'nanoid';
+import { createHmac } from 'crypto';
+import { createStorage, isValidStorageKey } from './storage.js';
+import { createLinkPreviews, extractFirstUrl } from './unfurl.js';
+import { ROLES, ADMIN_ROLES, createPolicy, withPermissions, getPermissions, canManageMember, canAssignRole, roleRank, normalizeRole } from './policy.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -60,6 +67,27 @@ const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
+// Runs `work` on one client inside a transaction, rolling back if it throws.
+const withTransaction = async (work) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+};
+
+const policy = createPolicy(pool);
+const linkPreviews = createLinkPreviews(pool, {
+  allowPrivateNetworks: process.env.LINK_PREVIEW_ALLOW_PRIVATE_NETWORKS === 'true',
+});
+
 app.disable('x-powered-by');
 app.set('trust proxy', 1);
 
@@ -67,9 +95,19 @@ const corsOrigins = process.env.CORS_ORIGIN
   ? process.env.CORS_ORIGIN.split(',').map((origin) => origin.trim()).filter(Boolean)
   : null;
 
+const parseUrlList = (value) => (value || '').split(',').map((url) => url.trim()).filter(Boolean);
+
+// ICE servers handed to call clients. TURN credentials follow the TURN REST API scheme, so the
+// relay (e.g. coturn with `use-auth-secret`) only has to share TURN_SECRET with this server.
+const iceConfig = {
+  stunUrls: parseUrlList(process.env.STUN_URLS || 'stun:stun.l.google.com:19302'),
+  turnUrls: parseUrlList(process.env.TURN_URLS),
+  turnSecret: process.env.TURN_SECRET || null,
+  turnTtlSeconds: Number(process.env.TURN_TTL_SECONDS) || 3600,
+};
+
 app.use(cors({ origin: corsOrigins && corsOrigins.length > 0 ? corsOrigins : true, credentials: true }));
 app.use(express.json());
-app.use('/uploads', express.static(join(__dirname, 'uploads')));
 
 // Zod Schemas
 const RegisterSchema = z.object({
@@ -90,15 +128,51 @@ const CreateChatSchema = z.object({
   memberIds: z.array(z.string().uuid()).optional(),
   avatar: z.string().url().optional().or(z.literal('')),
   description: z.string().max(500).optional(),
+  isPublic: z.boolean().optional(),
+});
+
+const UpdateChatSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  avatar: z.string().url().nullable().optional().or(z.literal('')),
+  description: z.string().max(500).nullable().optional(),
+  isPublic: z.boolean().optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: 'Nothing to update',
+});
+
+// Dimensions, duration and preview of a photo, video or voice message, as returned
+// by the upload or measured by the client.
+const MediaMetadataSchema = z.object({
+  width: z.number().int().positive().max(100000).optional(),
+  height: z.number().int().positive().max(100000).optional(),
+  duration: z.number().nonnegative().max(86400).optional(),
+  thumbnailUrl: z.string().url().optional(),
+  blurhash: z.string().min(6).max(100).optional(),
+});
+
+const AttachmentSchema = MediaMetadataSchema.extend({
+  mediaType: z.enum(['image', 'video', 'file']),
+  fileUrl: z.string().url(),
+  fileName: z.string().optional(),
+  fileSize: z.number().int().nonnegative().optional(),
 });
 
-const MessageSchema = z.object({
+const MessageSchema = MediaMetadataSchema.extend({
   content: z.string().max(5000).optional(),
-  messageType: z.enum(['text', 'image', 'video', 'audio', 'file', 'system']).default('text'),
+  messageType: z.enum(['text', 'image', 'video', 'audio', 'file', 'album']).default('text'),
   fileUrl: z.string().url().optional(),
   fileName: z.string().optional(),
   fileSize: z.number().int().nonnegative().optional(),
   replyTo: z.string().uuid().optional(),
+  threadId: z.string().uuid().optional(),
+  clientMessageId: z.string().uuid().optional(),
+  // Peak levels (0-100) the recorder measured, drawn as the voice message waveform.
+  waveform: z.array(z.number().int().min(0).max(100)).max(128).optional(),
+  // Files sent together as one album message; the caption goes in `content`.
+  attachments: z.array(AttachmentSchema).min(2).max(10).optional(),
+}).refine((data) => (data.messageType === 'album') === !!data.attachments, {
+  message: 'Album messages need between 2 and 10 attachments',
+  path: ['attachments'],
 });
 
 const EditMessageSchema = z.object({
@@ -113,36 +187,145 @@ const MuteSchema = z.object({
   muted: z.boolean(),
 });
 
+const AddMembersSchema = z.object({
+  userIds: z.array(z.string().uuid()).min(1).max(50),
+});
+
+const MemberRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+const InviteSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  ttlHours: z.number().int().positive().max(24 * 365).nullable().default(24 * 7),
+  maxUses: z.number().int().positive().max(100000).nullable().default(null),
+  requiresApproval: z.boolean().default(false),
+});
+
 const CallSchema = z.object({
   chatId: z.string().uuid(),
   isVideo: z.boolean().default(false),
 });
 
+// Thread pages go back from a reply id, or from a timestamp. Like the timeline, a
+// missing or unusable limit falls back to 50 and the rest is clamped to 1-100.
+const ThreadPageSchema = z.object({
+  before: z.union([z.string().uuid(), z.coerce.date()]).optional(),
+  limit: z.coerce.number().int().catch(50).transform((limit) => Math.min(Math.max(limit, 1), 100)),
+});
+
+const CallHistorySchema = z.object({
+  before: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const SearchSchema = z.object({
+  q: z.string().trim().max(200).default(''),
+  chatId: z.string().uuid().optional(),
+  senderId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.enum(['image', 'file', 'audio', 'link']).optional(),
+  hasReactions: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).max(10000).default(0),
+});
+
+const EventReplaySchema = z.object({
+  epoch: z.string().min(1).max(64),
+  since: z.coerce.number().int().min(0),
+});
+
+// Where uploads are kept is up to the storage driver; the API hands out stable
+// `/uploads/<key>` URLs that redirect to a short-lived signed one.
+const uploadStorage = createStorage(process.env, {
+  uploadsDir: join(__dirname, 'uploads'),
+  signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET,
+});
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024; // 50MB limit
+const UPLOAD_CHUNK_SIZE = Math.max(1024 * 1024, uploadStorage.minPartSize);
+const ALLOWED_UPLOAD_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'video/mp4', 'video/webm', 'video/quicktime',
+  'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/webm', 'audio/mp4',
+  'application/pdf', 'application/zip', 'text/plain'
+];
+
+const UploadInitSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.enum(ALLOWED_UPLOAD_TYPES),
+  size: z.number().int().min(1).max(MAX_UPLOAD_SIZE),
+});
+
+const uploadFileName = (originalName) => {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  return uniqueSuffix + extname(originalName);
+};
+
+// `/uploads/<key>` URLs point at files stored by this API; anything else is an external link.
+const uploadKeyOf = (url) => {
+  if (typeof url !== 'string') return null;
+  try {
+    const match = new URL(url).pathname.match(/^\/uploads\/([^/]+)$/);
+    return match && isValidStorageKey(match[1]) ? match[1] : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const uploadKeysOf = (urls) => [...new Set(urls.map(uploadKeyOf).filter(Boolean))];
+
+// Avatars are shown to anyone, so an upload used as one becomes readable by all users.
+const publishAvatar = async (url, ownerId) => {
+  const key = uploadKeyOf(url);
+  if (!key) return true;
+  const result = await pool.query(
+    'UPDATE uploads SET is_public = true WHERE key = (SELECT COALESCE(parent_key, key) FROM uploads WHERE key = $1) AND owner_id = $2 RETURNING key',
+    [key, ownerId]
+  );
+  return result.rows.length > 0;
+};
+
+// Multer only spools the request to a temp file; it is then handed to the storage driver.
 const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    const uploadDir = join(__dirname, 'uploads');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
+  destination: tmpdir(),
   filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, uniqueSuffix + extname(file.originalname));
+    cb(null, uploadFileName(file.originalname));
   }
 });
 
+// Uploaded images get a small webp thumbnail next to them and a blurhash for the
+// placeholder shown while it loads.
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const THUMBNAIL_SIZE = 640;
+const BLURHASH_SAMPLE_SIZE = 32;
+
+// `source` is a file path or a buffer with the image.
+const processImageUpload = async (source) => {
+  // rotate() applies the EXIF orientation, and orientations 5-8 swap the sides, so
+  // the dimensions match what is displayed.
+  const { width, height, orientation } = await sharp(source).metadata();
+  const isTurned = (orientation || 1) >= 5;
+  const thumbnail = await sharp(source)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer();
+  const sample = await sharp(source)
+    .rotate()
+    .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encodeBlurhash(new Uint8ClampedArray(sample.data), sample.info.width, sample.info.height, 4, 3);
+  return { width: isTurned ? height : width, height: isTurned ? width : height, thumbnail, blurhash };
+};
+
 const upload = multer({
   storage: storage,
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit
+  limits: { fileSize: MAX_UPLOAD_SIZE },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'video/mp4', 'video/webm', 'video/quicktime',
-      'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/webm',
-      'application/pdf', 'application/zip', 'text/plain'
-    ];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (ALLOWED_UPLOAD_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error('Invalid file type'));
@@ -210,27 +393,144 @@ const getChatMemberIds = async (chatId) => {
   return result.rows.map((r) => r.user_id);
 };
 
-const isChatMember = async (chatId, userId) => {
-  const result = await pool.query('SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2', [chatId, userId]);
-  return result.rows.length > 0;
+// Each user's events carry a sequence number so a reconnecting client can fetch what it
+// missed from GET /api/events. Logs live in memory and only for users connected recently;
+// an epoch identifies a log, so a restart or an expired log tells the client to refresh.
+const EPHEMERAL_EVENTS = new Set([
+  'typing', 'stop_typing', 'user_status',
+  'call_started', 'call_ended', 'call_declined', 'call_participant_joined', 'call_participant_left',
+  'call_offer', 'call_answer', 'call_ice_candidate', 'call_media_state',
+]);
+// Watermark events only matter in their latest form, so each one replaces the previous
+// entry for the same chat and member instead of filling the log.
+const WATERMARK_EVENTS = new Set(['read_receipt', 'messages_delivered']);
+const EVENT_LOG_LIMIT = 500;
+const EVENT_LOG_TTL_MS = 10 * 60 * 1000;
+const eventLogs = new Map();
+
+const openEventLog = (userId) => {
+  let log = eventLogs.get(userId);
+  if (!log) {
+    log = { epoch: nanoid(), seq: 0, trimmedSeq: 0, events: [], disconnectedAt: null };
+    eventLogs.set(userId, log);
+  }
+  log.disconnectedAt = null;
+  return log;
+};
+
+const recordEvent = (userId, message) => {
+  const log = eventLogs.get(userId);
+  if (!log || EPHEMERAL_EVENTS.has(message.type)) return message;
+  log.seq += 1;
+  const event = { ...message, seq: log.seq };
+  if (WATERMARK_EVENTS.has(message.type)) {
+    const { chatId, userId: memberId } = message.payload;
+    log.events = log.events.filter((e) => (
+      e.type !== message.type || e.payload.chatId !== chatId || e.payload.userId !== memberId
+    ));
+  }
+  log.events.push(event);
+  if (log.events.length > EVENT_LOG_LIMIT) log.trimmedSeq = log.events.shift().seq;
+  return event;
+};
+
+const sendToSockets = (userId, message) => {
+  const clientSet = clients.get(userId);
+  if (!(clientSet instanceof Set)) return;
+  const data = JSON.stringify(message);
+  clientSet.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data);
+    }
+  });
 };
 
 const broadcastToChat = async (chatId, message, excludeUserId = null) => {
   const memberIds = await getChatMemberIds(chatId);
   memberIds.forEach((user_id) => {
-    if (user_id !== excludeUserId && clients.has(user_id)) {
-      const clientSet = clients.get(user_id);
-      if (clientSet instanceof Set) {
-        clientSet.forEach((client) => {
-          if (client.readyState === WebSocket.OPEN) {
-            client.send(JSON.stringify(message));
-          }
-        });
-      }
+    if (user_id !== excludeUserId) {
+      sendToSockets(user_id, recordEvent(user_id, message));
     }
   });
 };
 
+const sendToUser = (userId, message) => {
+  sendToSockets(userId, recordEvent(userId, message));
+};
+
+// Album items in order, for any query selecting messages as `m`.
+const MESSAGE_ATTACHMENTS = `COALESCE(
+      (SELECT json_agg(json_build_object(
+          'id', a.id, 'media_type', a.media_type, 'file_url', a.file_url, 'file_name', a.file_name, 'file_size', a.file_size,
+          'width', a.width, 'height', a.height, 'duration', a.duration, 'thumbnail_url', a.thumbnail_url, 'blurhash', a.blurhash
+        ) ORDER BY a.position)
+         FROM message_attachments a
+         WHERE a.message_id = m.id),
+      '[]'
+    ) as attachments`;
+
+// The unfurled first link of a text message, for any query selecting messages as `m`.
+const MESSAGE_LINK_PREVIEW = `(SELECT json_build_object('url', lp.url, 'title', lp.title, 'description', lp.description, 'image_url', lp.image_url, 'site_name', lp.site_name)
+       FROM link_previews lp
+       WHERE lp.url = m.preview_url AND lp.ok) as link_preview`;
+
+// Link previews are fetched after the message is sent, so a slow or dead site never
+// holds it up. `content` is the text the link was taken from; if the message has been
+// edited since, the newer edit takes care of its own preview.
+const refreshLinkPreview = async (messageId, chatId, content) => {
+  try {
+    const url = extractFirstUrl(content);
+    const preview = url ? await linkPreviews.getPreview(url) : null;
+    const result = await pool.query(
+      `UPDATE messages SET preview_url = $1
+       WHERE id = $2 AND content = $3 AND deleted_at IS NULL AND preview_url IS DISTINCT FROM $1
+       RETURNING id`,
+      [preview?.url ?? null, messageId, content]
+    );
+    if (result.rows.length === 0) return;
+    broadcastToChat(chatId, {
+      type: 'message_preview_ready',
+      payload: {
+        messageId,
+        chatId,
+        preview: preview && {
+          url: preview.url, title: preview.title, description: preview.description, image_url: preview.image_url, site_name: preview.site_name,
+        },
+      },
+    });
+  } catch (e) {
+    console.error('Failed to unfurl link:', e);
+  }
+};
+
+// `@name` mentions of chat members, as entities with offsets into the content. Names
+// may contain spaces, so the longest member name following an `@` wins.
+const extractMentions = (content, members) => {
+  const entities = [];
+  const byLength = [...members].sort((a, b) => b.username.length - a.username.length);
+  for (let at = content.indexOf('@'); at !== -1; at = content.indexOf('@', at + 1)) {
+    // Skips e-mail addresses.
+    if (at > 0 && /[\p{L}\p{N}_.]/u.test(content[at - 1])) continue;
+    const member = byLength.find(({ username }) => (
+      content.slice(at + 1, at + 1 + username.length).toLowerCase() === username.toLowerCase()
+      && !/[\p{L}\p{N}_]/u.test(content[at + 1 + username.length] || '')
+    ));
+    if (!member) continue;
+    entities.push({ type: 'mention', offset: at, length: member.username.length + 1, user_id: member.id });
+    at += member.username.length;
+  }
+  return entities;
+};
+
+const getMessageEntities = async (chatId, messageType, content) => {
+  if (!['text', 'album'].includes(messageType) || !content?.includes('@')) return [];
+  const members = await pool.query(
+    'SELECT u.id, u.username FROM chat_members cm JOIN users u ON u.id = cm.user_id WHERE cm.chat_id = $1',
+    [chatId]
+  );
+  return extractMentions(content, members.rows);
+};
+
 const getMessageWithMeta = async (messageId, userId) => {
   const result = await pool.query(
     `SELECT m.*,
@@ -250,6 +550,10 @@ const getMessageWithMeta = async (messageId, userId) => {
            WHERE r.message_id = m.id),
       '[]'
     ) as reactions,
+      (SELECT COUNT(*)::int FROM messages tm WHERE tm.thread_root_id = m.id AND tm.deleted_at IS NULL) as reply_count,
+      (SELECT COUNT(*)::int FROM message_views mv WHERE mv.message_id = m.id) as view_count,
+      ${MESSAGE_ATTACHMENTS},
+      ${MESSAGE_LINK_PREVIEW},
       EXISTS(SELECT 1 FROM saved_messages sm WHERE sm.message_id = m.id AND sm.user_id = $1) as is_saved
     FROM messages m
     LEFT JOIN users u ON m.sender_id = u.id
@@ -266,6 +570,234 @@ const getMessageWithMeta = async (messageId, userId) => {
   return result.rows[0];
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A timeline cursor is a message id or a timestamp. Thread replies aren't in the
+// timeline, so a reply id resolves to the position of its root.
+const resolveTimelineCursor = async (chatId, value) => {
+  if (UUID_PATTERN.test(value)) {
+    const result = await pool.query(
+      `SELECT COALESCE(root.id, m.id) as id, m.thread_root_id
+       FROM messages m
+       LEFT JOIN messages root ON root.id = m.thread_root_id
+       WHERE m.id = $1 AND m.chat_id = $2`,
+      [value, chatId]
+    );
+    if (result.rows.length === 0) return null;
+    return { messageId: result.rows[0].id, threadId: result.rows[0].thread_root_id };
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return { timestamp: date };
+};
+
+// One page of the main timeline on one side of a cursor. Message cursors compare on
+// (created_at, id) so messages sharing a timestamp are neither skipped nor repeated.
+const queryTimeline = async (userId, chatId, { cursor, op, direction, limit }) => {
+  const params = [userId, chatId];
+  let condition = '';
+  if (cursor?.messageId) {
+    params.push(cursor.messageId);
+    condition = `AND (m.created_at, m.id) ${op} ((SELECT created_at FROM messages WHERE id = $3), $3::uuid)`;
+  } else if (cursor?.timestamp) {
+    params.push(cursor.timestamp);
+    condition = `AND m.created_at ${op} $3`;
+  }
+  params.push(limit);
+
+  const result = await pool.query(
+    `SELECT m.*,
+      json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender,
+      CASE
+        WHEN rm.id IS NULL THEN NULL
+        ELSE json_build_object('id', rm.id, 'content', rm.content, 'sender_id', rm.sender_id, 'sender_username', ru.username)
+      END as reply,
+      CASE
+        WHEN m.forwarded_from_message_id IS NULL THEN NULL
+        ELSE json_build_object('message_id', m.forwarded_from_message_id, 'chat_id', m.forwarded_from_chat_id, 'chat_name', fc.name, 'sender_id', m.forwarded_from_user_id, 'sender_username', fu.username)
+      END as forwarded_from,
+      COALESCE(
+        (SELECT json_agg(json_build_object('emoji', r.emoji, 'user_id', r.user_id, 'username', ru2.username))
+           FROM reactions r
+           JOIN users ru2 ON r.user_id = ru2.id
+           WHERE r.message_id = m.id),
+      '[]'
+    ) as reactions,
+      (SELECT COUNT(*)::int FROM messages tm WHERE tm.thread_root_id = m.id AND tm.deleted_at IS NULL) as reply_count,
+      (SELECT COUNT(*)::int FROM message_views mv WHERE mv.message_id = m.id) as view_count,
+      ${MESSAGE_ATTACHMENTS},
+      ${MESSAGE_LINK_PREVIEW},
+      EXISTS(SELECT 1 FROM saved_messages sm WHERE sm.message_id = m.id AND sm.user_id = $1) as is_saved
+    FROM messages m
+    LEFT JOIN users u ON m.sender_id = u.id
+    LEFT JOIN messages rm ON m.reply_to = rm.id
+    LEFT JOIN users ru ON rm.sender_id = ru.id
+    LEFT JOIN users fu ON m.forwarded_from_user_id = fu.id
+    LEFT JOIN chats fc ON m.forwarded_from_chat_id = fc.id
+    WHERE m.chat_id = $2 AND m.deleted_at IS NULL AND m.thread_root_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
+    )
+    ${condition}
+    ORDER BY m.created_at ${direction}, m.id ${direction}
+    LIMIT $${params.length}`,
+    params
+  );
+  return result.rows;
+};
+
+// Every photo and video in a chat's main timeline, single or inside an album, as
+// one sequence ordered by (created_at, message_id, position). Expects $1 = user, $2 = chat.
+const CHAT_MEDIA = `
+  SELECT m.id, m.id as message_id, 0 as position, m.message_type as media_type,
+    COALESCE(m.file_url, m.content) as file_url, m.file_name, m.file_size,
+    m.width, m.height, m.duration, m.thumbnail_url, m.blurhash, m.created_at, m.sender_id
+  FROM messages m
+  WHERE m.chat_id = $2 AND m.message_type IN ('image', 'video')
+    AND m.deleted_at IS NULL AND m.thread_root_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1)
+  UNION ALL
+  SELECT a.id, m.id, a.position, a.media_type, a.file_url, a.file_name, a.file_size,
+    a.width, a.height, a.duration, a.thumbnail_url, a.blurhash, m.created_at, m.sender_id
+  FROM messages m
+  JOIN message_attachments a ON a.message_id = m.id AND a.media_type IN ('image', 'video')
+  WHERE m.chat_id = $2 AND m.message_type = 'album'
+    AND m.deleted_at IS NULL AND m.thread_root_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1)`;
+
+// One page of chat media on one side of an item, like queryTimeline for messages.
+const queryChatMedia = async (userId, chatId, { cursorId, op, direction, limit }) => {
+  const params = [userId, chatId];
+  let condition = '';
+  if (cursorId) {
+    params.push(cursorId);
+    condition = `WHERE (media.created_at, media.message_id, media.position) ${op} (SELECT created_at, message_id, position FROM media WHERE id = $3)`;
+  }
+  params.push(limit);
+  const result = await pool.query(
+    `WITH media AS (${CHAT_MEDIA})
+    SELECT media.*, json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender
+    FROM media
+    LEFT JOIN users u ON u.id = media.sender_id
+    ${condition}
+    ORDER BY media.created_at ${direction}, media.message_id ${direction}, media.position ${direction}
+    LIMIT $${params.length}`,
+    params
+  );
+  return result.rows;
+};
+
+// Must match the expression behind idx_messages_search in init.sql.
+const MESSAGE_SEARCH_VECTOR = `to_tsvector('simple', COALESCE(m.content, '') || ' ' || COALESCE(m.file_name, ''))`;
+
+// Matches are wrapped in STX/ETX so the client can mark them up without parsing HTML.
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=\u0002, StopSel=\u0003, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Free text becomes a prefix query over its words, so "hel wor" finds "hello world"
+// and user input never reaches the tsquery parser as operators.
+const toPrefixQuery = (text) => {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+  return terms.slice(0, 10).map((term) => `${term}:*`).join(' & ');
+};
+
+const searchMessages = async (userId, filters) => {
+  const params = [userId];
+  const param = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const conditions = [];
+  const tsquery = toPrefixQuery(filters.q);
+
+  if (tsquery) conditions.push(`${MESSAGE_SEARCH_VECTOR} @@ query`);
+  if (filters.chatId) conditions.push(`m.chat_id = ${param(filters.chatId)}`);
+  if (filters.senderId) conditions.push(`m.sender_id = ${param(filters.senderId)}`);
+  if (filters.from) conditions.push(`m.created_at >= ${param(filters.from)}`);
+  if (filters.to) conditions.push(`m.created_at <= ${param(filters.to)}`);
+  if (filters.type === 'link') {
+    conditions.push(`m.message_type = 'text' AND m.content ~* 'https?://'`);
+  } else if (filters.type) {
+    const type = param(filters.type);
+    conditions.push(`(m.message_type = ${type} OR EXISTS (SELECT 1 FROM message_attachments a WHERE a.message_id = m.id AND a.media_type = ${type}))`);
+  }
+  if (filters.hasReactions) conditions.push('EXISTS (SELECT 1 FROM reactions r WHERE r.message_id = m.id)');
+
+  const queryJoin = tsquery ? `CROSS JOIN to_tsquery('simple', ${param(tsquery)}) query` : '';
+  const rank = tsquery ? `ts_rank(${MESSAGE_SEARCH_VECTOR}, query)` : '0';
+  const highlight = tsquery
+    ? `ts_headline('simple', CASE WHEN m.message_type = 'text' THEN m.content ELSE COALESCE(NULLIF(m.content, ''), m.file_name, '') END, query, ${param(SEARCH_HEADLINE_OPTIONS)})`
+    : 'NULL';
+  const limit = param(filters.limit + 1);
+  const offset = param(filters.offset);
+
+  const result = await pool.query(
+    `SELECT m.*,
+      c.name as chat_name,
+      c.chat_type,
+      json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender,
+      ${highlight} as highlight,
+      ${rank} as rank
+    FROM messages m
+    JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $1
+    JOIN users u ON u.id = m.sender_id
+    JOIN chats c ON c.id = m.chat_id
+    ${queryJoin}
+    WHERE m.deleted_at IS NULL AND m.message_type <> 'system'
+      AND NOT EXISTS (
+        SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
+      )
+      ${conditions.map((condition) => `AND ${condition}`).join('\n      ')}
+    ORDER BY rank DESC, m.created_at DESC, m.id DESC
+    LIMIT ${limit} OFFSET ${offset}`,
+    params
+  );
+
+  const hasMore = result.rows.length > filters.limit;
+  return {
+    messages: result.rows.slice(0, filters.limit),
+    nextOffset: hasMore ? filters.offset + filters.limit : null,
+  };
+};
+
+// A search needs words or at least one filter; an empty request would list every message.
+const hasSearchCriteria = (filters) => Boolean(toPrefixQuery(filters.q) || filters.senderId || filters.from || filters.to || filters.type || filters.hasReactions);
+
+// Membership changes and finished calls are announced in the chat itself as `system` messages.
+const postSystemMessage = async (chatId, actorId, content) => {
+  const result = await pool.query(
+    'INSERT INTO messages (chat_id, sender_id, content, message_type) VALUES ($1, $2, $3, $4) RETURNING id',
+    [chatId, actorId, content, 'system']
+  );
+  await pool.query('UPDATE chats SET updated_at = NOW() WHERE id = $1', [chatId]);
+  const message = await getMessageWithMeta(result.rows[0].id, actorId);
+  broadcastToChat(chatId, { type: 'new_message', payload: message });
+  return message;
+};
+
+// Removed users are no longer members, so they get the event directly.
+const broadcastMembersChanged = async (chatId, change, removedUserIds = []) => {
+  const event = { type: 'chat_members_changed', payload: { chatId, ...change } };
+  await broadcastToChat(chatId, event);
+  removedUserIds.forEach((userId) => sendToUser(userId, event));
+};
+
+// Channel subscribers see who runs the channel, not the rest of the audience.
+const presentChat = (row, userId) => {
+  const chat = withPermissions(row);
+  if (!chat || chat.chat_type !== 'channel' || chat.permissions.manage_members) return chat;
+  return {
+    ...chat,
+    members: chat.members.filter((member) => ADMIN_ROLES.includes(member.role) || member.id === userId),
+  };
+};
+
+const getUsernames = async (userIds) => {
+  const result = await pool.query('SELECT id, username FROM users WHERE id = ANY($1::uuid[])', [userIds]);
+  return new Map(result.rows.map((row) => [row.id, row.username]));
+};
+
+const ROLE_LABELS = { owner: 'owner', admin: 'admin', moderator: 'moderator', member: 'member', readonly: 'read-only member' };
+
 wss.on('connection', (ws, req) => {
   const url = new URL(req.url, `http://${req.headers.host}`);
   const token = url.searchParams.get('token') || getAuthToken(req);
@@ -286,6 +818,10 @@ wss.on('connection', (ws, req) => {
     const clientSet = getClientSet(decoded.id);
     clientSet.add(ws);
 
+    // Tells the client where its event stream stands, so it can ask for anything it missed.
+    const eventLog = openEventLog(decoded.id);
+    ws.send(JSON.stringify({ type: 'session', payload: { epoch: eventLog.epoch, seq: eventLog.seq } }));
+
     if (clientSet.size === 1) {
       pool.query('UPDATE users SET is_online = true WHERE id = $1', [decoded.id]);
       broadcastUserStatus(decoded.id, true);
@@ -303,6 +839,12 @@ wss.on('connection', (ws, req) => {
     ws.on('close', async () => {
       const remaining = removeClient(decoded.id, ws);
       if (remaining === 0) {
+        const log = eventLogs.get(decoded.id);
+        if (log) log.disconnectedAt = Date.now();
+        // A dropped connection usually comes back within seconds; only then give up the call.
+        setTimeout(() => {
+          if (!isUserOnline(decoded.id)) leaveActiveCalls(decoded.id).catch((e) => console.error('Failed to leave calls:', e));
+        }, CALL_RECONNECT_GRACE_MS);
         await pool.query('UPDATE users SET is_online = false, last_seen = NOW() WHERE id = $1', [decoded.id]);
         broadcastUserStatus(decoded.id, false);
       }
@@ -321,6 +863,11 @@ const heartbeatInterval = setInterval(() => {
     ws.isAlive = false;
     ws.ping();
   });
+
+  const expiredBefore = Date.now() - EVENT_LOG_TTL_MS;
+  eventLogs.forEach((log, userId) => {
+    if (log.disconnectedAt !== null && log.disconnectedAt < expiredBefore) eventLogs.delete(userId);
+  });
 }, 30000);
 
 wss.on('close', () => {
@@ -333,47 +880,68 @@ const handleWSMessage = async (ws, message) => {
   switch (type) {
     case 'typing': {
       const { chatId } = payload;
-      if (!chatId || !(await isChatMember(chatId, ws.userId))) break;
+      if (!(await policy.authorize(chatId, ws.userId, 'post')).ok) break;
       broadcastToChat(chatId, { type: 'typing', payload: { chatId, userId: ws.userId } }, ws.userId);
       break;
     }
     case 'stop_typing': {
       const { chatId } = payload;
-      if (!chatId || !(await isChatMember(chatId, ws.userId))) break;
+      if (!(await policy.authorize(chatId, ws.userId)).ok) break;
       broadcastToChat(chatId, { type: 'stop_typing', payload: { chatId, userId: ws.userId } }, ws.userId);
       break;
     }
     case 'call_offer':
     case 'call_answer':
-    case 'call_ice_candidate':
-    case 'call_end': {
-      const { chatId, targetUserId } = payload;
-      if (chatId && !(await isChatMember(chatId, ws.userId))) break;
-      if (targetUserId && clients.has(targetUserId)) {
-        const clientSet = clients.get(targetUserId);
-        if (clientSet instanceof Set) {
-          clientSet.forEach((client) => {
-            if (client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify({
-                type: type,
-                payload: {
-                  ...payload,
-                  senderId: ws.userId
-                }
-              }));
-            }
-          });
-        }
-      } else if (chatId) {
-        broadcastToChat(chatId, { type: type, payload: { ...payload, senderId: ws.userId } }, ws.userId);
-      }
+    case 'call_ice_candidate': {
+      const { callId, targetUserId } = payload || {};
+      if (!UUID_PATTERN.test(String(callId)) || !UUID_PATTERN.test(String(targetUserId))) break;
+      // Each pair of participants negotiates its own connection, so signaling is point to point.
+      const participantIds = await getCallParticipantIds(callId);
+      if (!participantIds.includes(ws.userId) || !participantIds.includes(targetUserId)) break;
+      sendToUser(targetUserId, { type, payload: { ...payload, senderId: ws.userId } });
+      break;
+    }
+    case 'call_media_state': {
+      // Mic, camera and screen state goes to everyone in the call, or just a newcomer.
+      const { callId, targetUserId } = payload || {};
+      if (!UUID_PATTERN.test(String(callId))) break;
+      const participantIds = await getCallParticipantIds(callId);
+      if (!participantIds.includes(ws.userId)) break;
+      const event = {
+        type,
+        payload: { callId, senderId: ws.userId, audio: !!payload.audio, video: !!payload.video, screen: !!payload.screen },
+      };
+      participantIds
+        .filter((id) => id !== ws.userId && (!targetUserId || id === targetUserId))
+        .forEach((id) => sendToUser(id, event));
+      break;
+    }
+    case 'message_delivered': {
+      // Acknowledges everything in the chat up to this message; the watermark only moves forward.
+      const { chatId, messageId } = payload || {};
+      if (!UUID_PATTERN.test(String(chatId)) || !UUID_PATTERN.test(String(messageId))) break;
+      const updated = await pool.query(
+        `UPDATE chat_members cm SET last_delivered_at = m.created_at
+         FROM messages m
+         WHERE m.id = $2 AND m.chat_id = cm.chat_id AND cm.chat_id = $1 AND cm.user_id = $3
+         AND (cm.last_delivered_at IS NULL OR cm.last_delivered_at < m.created_at)
+         RETURNING cm.last_delivered_at`,
+        [chatId, messageId, ws.userId]
+      );
+      if (updated.rows.length === 0) break;
+      const lastDeliveredAt = updated.rows[0].last_delivered_at.toISOString();
+      broadcastToChat(chatId, { type: 'messages_delivered', payload: { chatId, userId: ws.userId, lastDeliveredAt } }, ws.userId);
       break;
     }
     case 'message_deleted': {
       const { chatId, messageId } = payload;
-      if (chatId && messageId && (await isChatMember(chatId, ws.userId))) {
-        broadcastToChat(chatId, { type: 'message_deleted', payload: { chatId, messageId, senderId: ws.userId } }, ws.userId);
-      }
+      if (!messageId) break;
+      const access = await policy.authorize(chatId, ws.userId);
+      if (!access.ok) break;
+      const messageResult = await pool.query('SELECT sender_id FROM messages WHERE id = $1 AND chat_id = $2', [messageId, chatId]);
+      if (messageResult.rows.length === 0) break;
+      if (messageResult.rows[0].sender_id !== ws.userId && !access.membership.permissions.delete_messages) break;
+      broadcastToChat(chatId, { type: 'message_deleted', payload: { chatId, messageId, senderId: ws.userId } }, ws.userId);
       break;
     }
   }
@@ -395,7 +963,7 @@ app.post('/api/auth/register', async (req, res) => {
 
     const passwordHash = await bcrypt.hash(password, 10);
     const result = await pool.query(
-      'INSERT INTO users (email, username, password_hash) VALUES ($1, $2, $3) RETURNING id, email, username, avatar, is_online',
+      'INSERT INTO users (email, username, password_hash) VALUES ($1, $2, $3) RETURNING id, email, username, avatar, is_online, read_receipts',
       [email, username, passwordHash]
     );
 
@@ -431,7 +999,7 @@ app.post('/api/auth/login', async (req, res) => {
 
     res.cookie(AUTH_COOKIE_NAME, token, getCookieOptions());
     res.json({
-      user: { id: user.id, email: user.email, username: user.username, avatar: user.avatar, is_online: user.is_online },
+      user: { id: user.id, email: user.email, username: user.username, avatar: user.avatar, is_online: user.is_online, read_receipts: user.read_receipts },
       token,
     });
   } catch (e) {
@@ -444,7 +1012,7 @@ app.post('/api/auth/login', async (req, res) => {
 app.get('/api/auth/me', authenticateToken, async (req, res) => {
   try {
     const result = await pool.query(
-      'SELECT id, email, username, avatar, is_online FROM users WHERE id = $1',
+      'SELECT id, email, username, avatar, is_online, read_receipts FROM users WHERE id = $1',
       [req.user.id]
     );
     if (result.rows.length === 0) {
@@ -458,11 +1026,13 @@ app.get('/api/auth/me', authenticateToken, async (req, res) => {
 
 // Users
 app.put('/api/users/profile', authenticateToken, async (req, res) => {
-  const { username, avatar } = req.body;
+  const { username, avatar, readReceipts } = req.body;
   try {
+    if (avatar && !await publishAvatar(avatar, req.user.id)) return res.status(400).json({ error: 'Unknown file' });
     const result = await pool.query(
-      'UPDATE users SET username = COALESCE($1, username), avatar = COALESCE($2, avatar) WHERE id = $3 RETURNING id, email, username, avatar, is_online',
-      [username, avatar, req.user.id]
+      `UPDATE users SET username = COALESCE($1, username), avatar = COALESCE($2, avatar), read_receipts = COALESCE($3, read_receipts)
+       WHERE id = $4 RETURNING id, email, username, avatar, is_online, read_receipts`,
+      [username, avatar, typeof readReceipts === 'boolean' ? readReceipts : null, req.user.id]
     );
     res.json(result.rows[0]);
   } catch (e) {
@@ -484,21 +1054,58 @@ app.get('/api/users/search', authenticateToken, async (req, res) => {
 });
 
 // Chats
+// Events after `since` from the log the client last saw. `reset` means some of them are
+// gone (restart, expired log, or too far behind) and the client must reload its state.
+app.get('/api/events', authenticateToken, (req, res) => {
+  try {
+    const { epoch, since } = EventReplaySchema.parse(req.query);
+    const log = eventLogs.get(req.user.id);
+    const reset = { reset: true, epoch: log?.epoch ?? null, seq: log?.seq ?? 0 };
+    if (!log || log.epoch !== epoch || since > log.seq) return res.json(reset);
+
+    if (since < log.trimmedSeq) return res.json(reset);
+
+    res.json({ reset: false, epoch: log.epoch, seq: log.seq, events: log.events.filter((event) => event.seq > since) });
+  } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 app.get('/api/chats', authenticateToken, async (req, res) => {
   try {
     const result = await pool.query(
       `SELECT c.*, 
         cm.muted,
         cm.role,
+        cm.marked_unread,
         COALESCE(
-          (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', cm2.last_read_at))
+          (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', CASE WHEN cm2.user_id = cm.user_id THEN COALESCE(cm2.last_read_at, cm2.joined_at) WHEN u.read_receipts THEN cm2.last_read_at END, 'last_delivered_at', cm2.last_delivered_at, 'role', cm2.role))
            FROM chat_members cm2 
            JOIN users u ON cm2.user_id = u.id 
            WHERE cm2.chat_id = c.id),
           '[]'
         ) as members,
+          (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
+        (SELECT COUNT(*)::int
+         FROM message_mentions mn
+         JOIN messages mm ON mm.id = mn.message_id
+         WHERE mn.user_id = $1 AND mm.chat_id = c.id AND mm.deleted_at IS NULL
+         AND mm.created_at > COALESCE(cm.last_read_at, cm.joined_at, '-infinity')
+         AND NOT EXISTS (
+           SELECT 1 FROM message_deletes md WHERE md.message_id = mm.id AND md.user_id = $1
+         )) as unread_mentions,
+        (SELECT COUNT(*)::int
+         FROM messages um
+         WHERE um.chat_id = c.id AND um.deleted_at IS NULL AND um.thread_root_id IS NULL
+         AND um.sender_id <> $1 AND um.message_type <> 'system'
+         AND um.created_at > COALESCE(cm.last_read_at, cm.joined_at, '-infinity')
+         AND NOT EXISTS (
+           SELECT 1 FROM message_deletes md WHERE md.message_id = um.id AND md.user_id = $1
+         )) as unread_count,
         (SELECT json_build_object('id', m.id, 'content', m.content, 'created_at', m.created_at, 'sender_id', m.sender_id, 'message_type', m.message_type)
-         FROM messages m WHERE m.chat_id = c.id AND m.deleted_at IS NULL
+         FROM messages m WHERE m.chat_id = c.id AND m.deleted_at IS NULL AND m.thread_root_id IS NULL
          AND NOT EXISTS (
            SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
          )
@@ -513,7 +1120,7 @@ app.get('/api/chats', authenticateToken, async (req, res) => {
       ORDER BY c.updated_at DESC`,
       [req.user.id]
     );
-    res.json(result.rows);
+    res.json(result.rows.map((row) => presentChat(row, req.user.id)));
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: 'Server error' });
@@ -522,13 +1129,14 @@ app.get('/api/chats', authenticateToken, async (req, res) => {
 
 app.post('/api/chats', authenticateToken, async (req, res) => {
   try {
-    const { name, isGroup, chatType, memberIds, avatar, description } = CreateChatSchema.parse(req.body);
+    const { name, isGroup, chatType, memberIds, avatar, description, isPublic } = CreateChatSchema.parse(req.body);
+    if (avatar && !await publishAvatar(avatar, req.user.id)) return res.status(400).json({ error: 'Unknown file' });
     const normalizedType = chatType || (isGroup ? 'group' : 'direct');
     const isGroupFlag = normalizedType !== 'direct';
 
     const chatResult = await pool.query(
-      'INSERT INTO chats (name, is_group, chat_type, avatar, description, created_by) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *',
-      [name, isGroupFlag, normalizedType, avatar, description, req.user.id]
+      'INSERT INTO chats (name, is_group, chat_type, avatar, description, is_public, created_by) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *',
+      [name, isGroupFlag, normalizedType, avatar, description, normalizedType === 'channel' && !!isPublic, req.user.id]
     );
     const chat = chatResult.rows[0];
 
@@ -550,12 +1158,13 @@ app.post('/api/chats', authenticateToken, async (req, res) => {
       `SELECT c.*, 
         cm.role,
         COALESCE(
-          (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', cm2.last_read_at))
+          (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', CASE WHEN cm2.user_id = cm.user_id THEN COALESCE(cm2.last_read_at, cm2.joined_at) WHEN u.read_receipts THEN cm2.last_read_at END, 'last_delivered_at', cm2.last_delivered_at, 'role', cm2.role))
            FROM chat_members cm2 
            JOIN users u ON cm2.user_id = u.id 
            WHERE cm2.chat_id = c.id),
           '[]'
         ) as members,
+          (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
         (SELECT json_build_object('id', pm.id, 'content', pm.content, 'created_at', pm.created_at, 'sender_id', pm.sender_id, 'sender_username', pu.username, 'message_type', pm.message_type)
          FROM messages pm
          JOIN users pu ON pm.sender_id = pu.id
@@ -566,7 +1175,7 @@ app.post('/api/chats', authenticateToken, async (req, res) => {
       [chat.id, req.user.id]
     );
 
-    res.json(fullChat.rows[0]);
+    res.json(presentChat(fullChat.rows[0], req.user.id));
   } catch (e) {
     if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
     console.error(e);
@@ -593,12 +1202,13 @@ AND(SELECT COUNT(*) FROM chat_members WHERE chat_id = c.id) = 2`,
         `SELECT c.*,
   cm.role,
   COALESCE(
-    (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', cm2.last_read_at))
+    (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', CASE WHEN cm2.user_id = cm.user_id THEN COALESCE(cm2.last_read_at, cm2.joined_at) WHEN u.read_receipts THEN cm2.last_read_at END, 'last_delivered_at', cm2.last_delivered_at, 'role', cm2.role))
              FROM chat_members cm2 
              JOIN users u ON cm2.user_id = u.id 
              WHERE cm2.chat_id = c.id),
   '[]'
           ) as members,
+  (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
   (SELECT json_build_object('id', pm.id, 'content', pm.content, 'created_at', pm.created_at, 'sender_id', pm.sender_id, 'sender_username', pu.username, 'message_type', pm.message_type)
          FROM messages pm
          JOIN users pu ON pm.sender_id = pu.id
@@ -608,7 +1218,7 @@ AND(SELECT COUNT(*) FROM chat_members WHERE chat_id = c.id) = 2`,
         WHERE c.id = $1`,
         [existingChat.rows[0].id, req.user.id]
       );
-      return res.json(fullChat.rows[0]);
+      return res.json(presentChat(fullChat.rows[0], req.user.id));
     }
 
     const chatResult = await pool.query(
@@ -624,12 +1234,13 @@ AND(SELECT COUNT(*) FROM chat_members WHERE chat_id = c.id) = 2`,
       `SELECT c.*,
   cm.role,
   COALESCE(
-    (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', cm2.last_read_at))
+    (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', CASE WHEN cm2.user_id = cm.user_id THEN COALESCE(cm2.last_read_at, cm2.joined_at) WHEN u.read_receipts THEN cm2.last_read_at END, 'last_delivered_at', cm2.last_delivered_at, 'role', cm2.role))
            FROM chat_members cm2 
            JOIN users u ON cm2.user_id = u.id 
            WHERE cm2.chat_id = c.id),
   '[]'
         ) as members,
+  (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
   (SELECT json_build_object('id', pm.id, 'content', pm.content, 'created_at', pm.created_at, 'sender_id', pm.sender_id, 'sender_username', pu.username, 'message_type', pm.message_type)
          FROM messages pm
          JOIN users pu ON pm.sender_id = pu.id
@@ -639,8 +1250,58 @@ AND(SELECT COUNT(*) FROM chat_members WHERE chat_id = c.id) = 2`,
       WHERE c.id = $1`,
       [chat.id, req.user.id]
     );
-    res.json(fullChat.rows[0]);
+    res.json(presentChat(fullChat.rows[0], req.user.id));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.patch('/api/chats/:id', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const { name, avatar, description, isPublic } = UpdateChatSchema.parse(req.body);
+    // Direct chats never grant edit_info, so this also rules them out.
+    const access = await policy.authorize(id, req.user.id, 'edit_info');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (isPublic !== undefined && access.membership.chatType !== 'channel') {
+      return res.status(400).json({ error: 'Only channels can be public' });
+    }
+    if (avatar && !await publishAvatar(avatar, req.user.id)) return res.status(400).json({ error: 'Unknown file' });
+
+    // Only touch the fields that were sent; an empty avatar or description clears it.
+    const updates = [];
+    const params = [];
+    if (name !== undefined) {
+      params.push(name);
+      updates.push(`name = $${params.length}`);
+    }
+    if (avatar !== undefined) {
+      params.push(avatar || null);
+      updates.push(`avatar = $${params.length}`);
+    }
+    if (description !== undefined) {
+      params.push(description?.trim() || null);
+      updates.push(`description = $${params.length}`);
+    }
+    if (isPublic !== undefined) {
+      params.push(isPublic);
+      updates.push(`is_public = $${params.length}`);
+    }
+    params.push(id);
+
+    const result = await pool.query(
+      `UPDATE chats SET ${updates.join(', ')} WHERE id = $${params.length} RETURNING id, name, avatar, description, is_public`,
+      params
+    );
+    const chat = result.rows[0];
+    broadcastToChat(id, {
+      type: 'chat_updated',
+      payload: { chatId: id, name: chat.name, avatar: chat.avatar, description: chat.description, is_public: chat.is_public },
+    });
+    res.json(chat);
   } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
     console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
@@ -650,6 +1311,9 @@ app.patch('/api/chats/:id/mute', authenticateToken, async (req, res) => {
   const { id } = req.params;
   try {
     const { muted } = MuteSchema.parse(req.body);
+    const access = await policy.authorize(id, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
     await pool.query(
       'UPDATE chat_members SET muted = $1 WHERE chat_id = $2 AND user_id = $3',
       [muted, id, req.user.id]
@@ -661,138 +1325,743 @@ app.patch('/api/chats/:id/mute', authenticateToken, async (req, res) => {
   }
 });
 
-app.post('/api/chats/:id/invite', authenticateToken, async (req, res) => {
-  const { id } = req.params;
+// Invites
+// A code stops working once it is revoked, past its expiry or out of uses.
+const USABLE_INVITE = `ci.revoked_at IS NULL
+  AND (ci.expires_at IS NULL OR ci.expires_at > NOW())
+  AND (ci.max_uses IS NULL OR ci.use_count < ci.max_uses)`;
 
-  // Membership check
-  const memberCheck = await pool.query(
-    'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-    [id, req.user.id]
-  );
-  if (memberCheck.rows.length === 0) {
-    return res.status(403).json({ error: 'Not a member of this chat' });
-  }
+const INVITE_COLUMNS = `ci.id, ci.code, ci.name, ci.expires_at, ci.max_uses, ci.use_count,
+  ci.requires_approval, ci.revoked_at, ci.created_at, ci.created_by, u.username as creator_username,
+  (SELECT COUNT(*)::int FROM chat_join_requests jr WHERE jr.invite_id = ci.id) as pending_count`;
 
-  const code = nanoid(6).toUpperCase();
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + 7);
+// Join requests are only interesting to the people who can act on them.
+const notifyMemberManagers = async (chatId, message) => {
+  const result = await pool.query(
+    `SELECT cm.user_id, cm.role, c.chat_type FROM chat_members cm
+     JOIN chats c ON c.id = cm.chat_id
+     WHERE cm.chat_id = $1`,
+    [chatId]
+  );
+  result.rows
+    .filter((row) => getPermissions(row.role, row.chat_type).manage_members)
+    .forEach((row) => sendToUser(row.user_id, message));
+};
 
+app.post('/api/chats/:id/invite', authenticateToken, async (req, res) => {
+  const { id } = req.params;
   try {
+    const { name, ttlHours, maxUses, requiresApproval } = InviteSchema.parse(req.body ?? {});
+    const access = await policy.authorize(id, req.user.id, 'invite');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const code = nanoid(6).toUpperCase();
+    const expiresAt = ttlHours ? new Date(Date.now() + ttlHours * 60 * 60 * 1000) : null;
+    const inserted = await pool.query(
+      `INSERT INTO chat_invites (chat_id, code, name, expires_at, max_uses, requires_approval, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+      [id, code, name || null, expiresAt, maxUses, requiresApproval, req.user.id]
+    );
     const result = await pool.query(
-      'INSERT INTO chat_invites (chat_id, code, expires_at, created_by) VALUES ($1, $2, $3, $4) RETURNING code',
-      [id, code, expiresAt, req.user.id]
+      `SELECT ${INVITE_COLUMNS} FROM chat_invites ci LEFT JOIN users u ON u.id = ci.created_by WHERE ci.id = $1`,
+      [inserted.rows[0].id]
     );
     res.json(result.rows[0]);
   } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.get('/api/invites/:code/join', authenticateToken, async (req, res) => {
-  const { code } = req.params;
+// Managers see every link of the chat, everyone else only the ones they made.
+app.get('/api/chats/:id/invites', authenticateToken, async (req, res) => {
+  const { id } = req.params;
   try {
-    const inviteResult = await pool.query(
-      'SELECT chat_id FROM chat_invites WHERE code = $1 AND expires_at > NOW()',
-      [code]
-    );
-    if (inviteResult.rows.length === 0) return res.status(404).json({ error: 'Invalid or expired invite' });
+    const access = await policy.authorize(id, req.user.id, 'invite');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
-    const chatId = inviteResult.rows[0].chat_id;
-    await pool.query(
-      'INSERT INTO chat_members (chat_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
-      [chatId, req.user.id]
+    const seeAll = access.membership.permissions.manage_members;
+    const result = await pool.query(
+      `SELECT ${INVITE_COLUMNS} FROM chat_invites ci
+       LEFT JOIN users u ON u.id = ci.created_by
+       WHERE ci.chat_id = $1 AND ($2::boolean OR ci.created_by = $3)
+       ORDER BY ci.created_at DESC`,
+      [id, seeAll, req.user.id]
     );
-
-    res.json({ success: true, chatId });
+    res.json(result.rows);
   } catch (e) {
+    console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-// Messages
-app.get('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
-  const { chatId } = req.params;
-  const { limit = 50, before } = req.query;
+app.delete('/api/chats/:id/invites/:inviteId', authenticateToken, async (req, res) => {
+  const { id, inviteId } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'invite');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const invite = await pool.query('SELECT created_by FROM chat_invites WHERE id = $1 AND chat_id = $2', [inviteId, id]);
+    if (invite.rows.length === 0) return res.status(404).json({ error: 'Invite not found' });
+    if (invite.rows[0].created_by !== req.user.id && !access.membership.permissions.manage_members) {
+      return res.status(403).json({ error: 'Not authorized to revoke this invite' });
+    }
+
+    await pool.query('UPDATE chat_invites SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL', [inviteId]);
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
+// Preview shown on the join page before the user commits to anything.
+app.get('/api/invites/:code', authenticateToken, async (req, res) => {
+  const { code } = req.params;
   try {
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
+    const result = await pool.query(
+      `SELECT ci.requires_approval, c.id, c.name, c.avatar, c.description, c.chat_type,
+        (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
+        EXISTS(SELECT 1 FROM chat_members cm WHERE cm.chat_id = c.id AND cm.user_id = $2) as is_member,
+        EXISTS(SELECT 1 FROM chat_join_requests jr WHERE jr.chat_id = c.id AND jr.user_id = $2) as is_pending
+       FROM chat_invites ci
+       JOIN chats c ON c.id = ci.chat_id
+       WHERE ci.code = $1 AND ${USABLE_INVITE}`,
+      [code, req.user.id]
     );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Invalid or expired invite' });
 
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
-    const role = memberCheck.rows[0].role;
-    const chatTypeResult = await pool.query('SELECT chat_type FROM chats WHERE id = $1', [chatId]);
-    const chatType = chatTypeResult.rows[0]?.chat_type || 'direct';
-    if (chatType === 'channel' && !['admin', 'owner'].includes(role)) {
-      return res.status(403).json({ error: 'Only admins can post in this channel' });
-    }
+    const { requires_approval: requiresApproval, is_member: isMember, is_pending: isPending, ...chat } = result.rows[0];
+    res.json({ chat, requires_approval: requiresApproval, is_member: isMember, is_pending: isPending });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
 
-    let query = `
-      SELECT m.*,
-      json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender,
-      CASE
-        WHEN rm.id IS NULL THEN NULL
-        ELSE json_build_object('id', rm.id, 'content', rm.content, 'sender_id', rm.sender_id, 'sender_username', ru.username)
-      END as reply,
-      CASE
-        WHEN m.forwarded_from_message_id IS NULL THEN NULL
-        ELSE json_build_object('message_id', m.forwarded_from_message_id, 'chat_id', m.forwarded_from_chat_id, 'chat_name', fc.name, 'sender_id', m.forwarded_from_user_id, 'sender_username', fu.username)
-      END as forwarded_from,
-      COALESCE(
-        (SELECT json_agg(json_build_object('emoji', r.emoji, 'user_id', r.user_id, 'username', ru.username))
-           FROM reactions r
-           JOIN users ru ON r.user_id = ru.id
-           WHERE r.message_id = m.id),
-      '[]'
-    ) as reactions,
-      EXISTS(SELECT 1 FROM saved_messages sm WHERE sm.message_id = m.id AND sm.user_id = $1) as is_saved
-      FROM messages m
-      LEFT JOIN users u ON m.sender_id = u.id
-      LEFT JOIN messages rm ON m.reply_to = rm.id
-      LEFT JOIN users ru ON rm.sender_id = ru.id
-      LEFT JOIN users fu ON m.forwarded_from_user_id = fu.id
-      LEFT JOIN chats fc ON m.forwarded_from_chat_id = fc.id
-      WHERE m.chat_id = $2 AND m.deleted_at IS NULL
-      AND NOT EXISTS (
-        SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
-      )
-    `;
-    const params = [req.user.id, chatId];
+app.post('/api/invites/:code/join', authenticateToken, async (req, res) => {
+  const { code } = req.params;
+  try {
+    const inviteResult = await pool.query(
+      `SELECT ci.id, ci.chat_id, ci.requires_approval, c.chat_type FROM chat_invites ci
+       JOIN chats c ON c.id = ci.chat_id
+       WHERE ci.code = $1 AND ${USABLE_INVITE}`,
+      [code]
+    );
+    if (inviteResult.rows.length === 0) return res.status(404).json({ error: 'Invalid or expired invite' });
 
-    if (before) {
-      query += ` AND m.created_at < $3`;
-      params.push(before);
+    const { id: inviteId, chat_id: chatId, chat_type: chatType, requires_approval: requiresApproval } = inviteResult.rows[0];
+    const banCheck = await pool.query('SELECT 1 FROM chat_bans WHERE chat_id = $1 AND user_id = $2', [chatId, req.user.id]);
+    if (banCheck.rows.length > 0) return res.status(403).json({ error: 'You are banned from this chat' });
+
+    const memberCheck = await pool.query('SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2', [chatId, req.user.id]);
+    if (memberCheck.rows.length > 0) return res.json({ success: true, chatId });
+
+    if (requiresApproval) {
+      const requested = await pool.query(
+        `INSERT INTO chat_join_requests (chat_id, user_id, invite_id) VALUES ($1, $2, $3)
+         ON CONFLICT DO NOTHING RETURNING user_id`,
+        [chatId, req.user.id, inviteId]
+      );
+      if (requested.rows.length > 0) {
+        const names = await getUsernames([req.user.id]);
+        await notifyMemberManagers(chatId, {
+          type: 'join_requests_changed',
+          payload: { chatId, action: 'requested', user: { id: req.user.id, username: names.get(req.user.id) } },
+        });
+      }
+      return res.json({ success: true, chatId, pending: true });
     }
 
-    query += ` ORDER BY m.created_at DESC LIMIT $${params.length + 1} `;
-    params.push(parseInt(limit));
+    // Claim a use first so two people racing for the last slot can't both get in.
+    const claimed = await pool.query(
+      `UPDATE chat_invites SET use_count = use_count + 1
+       WHERE id = $1 AND (max_uses IS NULL OR use_count < max_uses) RETURNING id`,
+      [inviteId]
+    );
+    if (claimed.rows.length === 0) return res.status(404).json({ error: 'Invalid or expired invite' });
 
-    const result = await pool.query(query, params);
-    res.json(result.rows.reverse());
+    const joined = await pool.query(
+      'INSERT INTO chat_members (chat_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING RETURNING user_id',
+      [chatId, req.user.id]
+    );
+    if (joined.rows.length > 0) {
+      // Subscribers coming and going would drown out a channel's posts.
+      if (chatType !== 'channel') {
+        const names = await getUsernames([req.user.id]);
+        await postSystemMessage(chatId, req.user.id, `${names.get(req.user.id)} joined via invite link`);
+      }
+      await broadcastMembersChanged(chatId, { action: 'joined', userIds: [req.user.id], actorId: req.user.id });
+    }
+
+    res.json({ success: true, chatId });
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
+// Join requests
+app.get('/api/chats/:id/join-requests', authenticateToken, async (req, res) => {
+  const { id } = req.params;
   try {
-    const { chatId } = req.params;
-    const { content, messageType, fileUrl, fileName, fileSize, replyTo } = MessageSchema.parse(req.body);
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
-    // Membership check
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
+    const result = await pool.query(
+      `SELECT u.id, u.username, u.avatar, jr.created_at, ci.id as invite_id, ci.name as invite_name, ci.code as invite_code
+       FROM chat_join_requests jr
+       JOIN users u ON u.id = jr.user_id
+       LEFT JOIN chat_invites ci ON ci.id = jr.invite_id
+       WHERE jr.chat_id = $1
+       ORDER BY jr.created_at`,
+      [id]
+    );
+    res.json(result.rows);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chats/:id/join-requests/:userId/approve', authenticateToken, async (req, res) => {
+  const { id, userId } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const banCheck = await pool.query('SELECT 1 FROM chat_bans WHERE chat_id = $1 AND user_id = $2', [id, userId]);
+    if (banCheck.rows.length > 0) return res.status(400).json({ error: 'User is banned from this chat' });
+
+    const request = await pool.query(
+      'DELETE FROM chat_join_requests WHERE chat_id = $1 AND user_id = $2 RETURNING invite_id',
+      [id, userId]
+    );
+    if (request.rows.length === 0) return res.status(404).json({ error: 'Join request not found' });
+
+    // An approved request counts as a use of its link, even past the cap: a person decided.
+    const inviteId = request.rows[0].invite_id;
+    if (inviteId) {
+      await pool.query('UPDATE chat_invites SET use_count = use_count + 1 WHERE id = $1', [inviteId]);
+    }
+
+    const joined = await pool.query(
+      'INSERT INTO chat_members (chat_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING RETURNING user_id',
+      [id, userId]
+    );
+    if (joined.rows.length > 0) {
+      if (access.membership.chatType !== 'channel') {
+        const names = await getUsernames([req.user.id, userId]);
+        await postSystemMessage(id, req.user.id, `${names.get(req.user.id)} approved ${names.get(userId)}'s request to join`);
+      }
+      await broadcastMembersChanged(id, { action: 'added', userIds: [userId], actorId: req.user.id });
+    }
+
+    const chat = await pool.query('SELECT name FROM chats WHERE id = $1', [id]);
+    sendToUser(userId, { type: 'join_request_resolved', payload: { chatId: id, chatName: chat.rows[0]?.name, approved: true } });
+    await notifyMemberManagers(id, { type: 'join_requests_changed', payload: { chatId: id, action: 'approved', userId } });
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/chats/:id/join-requests/:userId', authenticateToken, async (req, res) => {
+  const { id, userId } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const request = await pool.query(
+      'DELETE FROM chat_join_requests WHERE chat_id = $1 AND user_id = $2 RETURNING user_id',
+      [id, userId]
+    );
+    if (request.rows.length === 0) return res.status(404).json({ error: 'Join request not found' });
+
+    const chat = await pool.query('SELECT name FROM chats WHERE id = $1', [id]);
+    sendToUser(userId, { type: 'join_request_resolved', payload: { chatId: id, chatName: chat.rows[0]?.name, approved: false } });
+    await notifyMemberManagers(id, { type: 'join_requests_changed', payload: { chatId: id, action: 'rejected', userId } });
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Members
+app.post('/api/chats/:id/members', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const { userIds } = AddMembersSchema.parse(req.body);
+    const access = await policy.authorize(id, req.user.id, 'invite');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (access.membership.chatType === 'direct') {
+      return res.status(400).json({ error: 'Members can only be managed in groups and channels' });
+    }
+
+    // Adding a banned user lifts the ban, but only for someone allowed to ban in the first place.
+    const banned = await pool.query(
+      'SELECT user_id FROM chat_bans WHERE chat_id = $1 AND user_id = ANY($2::uuid[])',
+      [id, userIds]
+    );
+    const bannedIds = new Set(banned.rows.map((row) => row.user_id));
+    if (bannedIds.size > 0 && access.membership.permissions.manage_members) {
+      await pool.query('DELETE FROM chat_bans WHERE chat_id = $1 AND user_id = ANY($2::uuid[])', [id, [...bannedIds]]);
+      bannedIds.clear();
+    }
+
+    const added = [];
+    for (const userId of userIds) {
+      if (bannedIds.has(userId)) continue;
+      const result = await pool.query(
+        `INSERT INTO chat_members (chat_id, user_id)
+         SELECT $1, u.id FROM users u WHERE u.id = $2
+         ON CONFLICT DO NOTHING RETURNING user_id`,
+        [id, userId]
+      );
+      if (result.rows.length > 0) added.push(userId);
+    }
+
+    if (added.length > 0) {
+      // Adding someone directly settles any request they had waiting.
+      await pool.query('DELETE FROM chat_join_requests WHERE chat_id = $1 AND user_id = ANY($2::uuid[])', [id, added]);
+      if (access.membership.chatType !== 'channel') {
+        const names = await getUsernames([req.user.id, ...added]);
+        await postSystemMessage(id, req.user.id, `${names.get(req.user.id)} added ${added.map((userId) => names.get(userId)).join(', ')}`);
+      }
+      await broadcastMembersChanged(id, { action: 'added', userIds: added, actorId: req.user.id });
+    }
+
+    res.json({ success: true, added });
+  } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.patch('/api/chats/:id/members/:userId', authenticateToken, async (req, res) => {
+  const { id, userId } = req.params;
+  try {
+    const { role } = MemberRoleSchema.parse(req.body);
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (userId === req.user.id) return res.status(400).json({ error: 'You cannot change your own role' });
+
+    const target = await policy.getMembership(id, userId);
+    if (!target) return res.status(404).json({ error: 'User is not a member of this chat' });
+
+    const actorRole = access.membership.role;
+    if (!canManageMember(actorRole, target.role) || !canAssignRole(actorRole, role)) {
+      return res.status(403).json({ error: 'Not authorized to assign this role' });
+    }
+    if (role === target.role) return res.json({ success: true, role });
+
+    // There is only one owner: handing it over demotes the current owner to admin. The chat
+    // row is locked so the hand-over can't interleave with a departure or a second transfer.
+    if (role === 'owner') {
+      const transferred = await withTransaction(async (client) => {
+        await client.query('SELECT id FROM chats WHERE id = $1 FOR UPDATE', [id]);
+        const current = await client.query(
+          'SELECT user_id, role FROM chat_members WHERE chat_id = $1 AND user_id = ANY($2::uuid[]) FOR UPDATE',
+          [id, [req.user.id, userId]]
+        );
+        const roles = new Map(current.rows.map((row) => [row.user_id, row.role]));
+        if (roles.get(req.user.id) !== 'owner' || !roles.has(userId)) return false;
+        await client.query('UPDATE chat_members SET role = $1 WHERE chat_id = $2 AND user_id = $3', ['admin', id, req.user.id]);
+        await client.query('UPDATE chat_members SET role = $1 WHERE chat_id = $2 AND user_id = $3', ['owner', id, userId]);
+        return true;
+      });
+      if (!transferred) return res.status(409).json({ error: 'Ownership changed, try again' });
+    } else {
+      await pool.query('UPDATE chat_members SET role = $1 WHERE chat_id = $2 AND user_id = $3', [role, id, userId]);
+    }
+    const names = await getUsernames([req.user.id, userId]);
+    const actorName = names.get(req.user.id);
+    const targetName = names.get(userId);
+
+    if (role === 'owner') {
+      await postSystemMessage(id, req.user.id, `${actorName} transferred ownership to ${targetName}`);
+    } else {
+      const verb = roleRank(role) > roleRank(target.role) ? 'promoted' : 'demoted';
+      await postSystemMessage(id, req.user.id, `${actorName} ${verb} ${targetName} to ${ROLE_LABELS[role]}`);
+    }
+
+    await broadcastMembersChanged(id, { action: 'role_changed', userIds: [userId], actorId: req.user.id, role });
+    res.json({ success: true, role });
+  } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/chats/:id/members/:userId', authenticateToken, async (req, res) => {
+  const { id, userId } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (userId === req.user.id) return res.status(400).json({ error: 'Use leave to remove yourself' });
+
+    const target = await policy.getMembership(id, userId);
+    if (!target) return res.status(404).json({ error: 'User is not a member of this chat' });
+    if (!canManageMember(access.membership.role, target.role)) {
+      return res.status(403).json({ error: 'Not authorized to remove this member' });
+    }
+
+    await pool.query('DELETE FROM chat_members WHERE chat_id = $1 AND user_id = $2', [id, userId]);
+    if (access.membership.chatType !== 'channel') {
+      const names = await getUsernames([req.user.id, userId]);
+      await postSystemMessage(id, req.user.id, `${names.get(req.user.id)} removed ${names.get(userId)}`);
+    }
+    await broadcastMembersChanged(id, { action: 'removed', userIds: [userId], actorId: req.user.id }, [userId]);
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/chats/:id/bans', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const result = await pool.query(
+      `SELECT u.id, u.username, u.avatar, b.created_at AS banned_at
+       FROM chat_bans b
+       JOIN users u ON u.id = b.user_id
+       WHERE b.chat_id = $1
+       ORDER BY b.created_at DESC`,
+      [id]
+    );
+    res.json(result.rows);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chats/:id/members/:userId/ban', authenticateToken, async (req, res) => {
+  const { id, userId } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (access.membership.chatType === 'direct') {
+      return res.status(400).json({ error: 'Members can only be managed in groups and channels' });
+    }
+    if (userId === req.user.id) return res.status(400).json({ error: 'You cannot ban yourself' });
+
+    const target = await policy.getMembership(id, userId);
+    if (target && !canManageMember(access.membership.role, target.role)) {
+      return res.status(403).json({ error: 'Not authorized to ban this member' });
+    }
+    const names = await getUsernames([req.user.id, userId]);
+    if (!names.has(userId)) return res.status(404).json({ error: 'User not found' });
+
+    await pool.query(
+      'INSERT INTO chat_bans (chat_id, user_id, banned_by) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+      [id, userId, req.user.id]
+    );
+    await pool.query('DELETE FROM chat_members WHERE chat_id = $1 AND user_id = $2', [id, userId]);
+    await pool.query('DELETE FROM chat_join_requests WHERE chat_id = $1 AND user_id = $2', [id, userId]);
+    if (access.membership.chatType !== 'channel') {
+      await postSystemMessage(id, req.user.id, `${names.get(req.user.id)} banned ${names.get(userId)}`);
+    }
+    await broadcastMembersChanged(id, { action: 'banned', userIds: [userId], actorId: req.user.id }, [userId]);
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/chats/:id/members/:userId/ban', authenticateToken, async (req, res) => {
+  const { id, userId } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id, 'manage_members');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const result = await pool.query('DELETE FROM chat_bans WHERE chat_id = $1 AND user_id = $2 RETURNING user_id', [id, userId]);
+    if (result.rows.length === 0) return res.status(404).json({ error: 'User is not banned' });
+
+    if (access.membership.chatType !== 'channel') {
+      const names = await getUsernames([req.user.id, userId]);
+      await postSystemMessage(id, req.user.id, `${names.get(req.user.id)} unbanned ${names.get(userId)}`);
+    }
+    await broadcastMembersChanged(id, { action: 'unbanned', userIds: [userId], actorId: req.user.id });
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chats/:id/leave', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const access = await policy.authorize(id, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (access.membership.chatType === 'direct') {
+      return res.status(400).json({ error: 'You cannot leave a direct chat' });
+    }
+
+    // Leaving, picking a successor and promoting them happen under a lock on the chat, so
+    // members leaving at the same time can't each miss the other and strand it without an admin.
+    const outcome = await withTransaction(async (client) => {
+      await client.query('SELECT id FROM chats WHERE id = $1 FOR UPDATE', [id]);
+      const left = await client.query(
+        'DELETE FROM chat_members WHERE chat_id = $1 AND user_id = $2 RETURNING role',
+        [id, req.user.id]
+      );
+      if (left.rows.length === 0) return null;
+
+      const remaining = await client.query(
+        `SELECT user_id, role FROM chat_members WHERE chat_id = $1
+         ORDER BY CASE role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 WHEN 'moderator' THEN 2 WHEN 'member' THEN 3 ELSE 4 END, joined_at`,
+        [id]
+      );
+      if (remaining.rows.length === 0) {
+        await client.query('DELETE FROM chats WHERE id = $1', [id]);
+        return { successor: null, inheritedRole: null };
+      }
+
+      // A group always keeps an admin: the most senior remaining member inherits the departing role.
+      const leavingRole = normalizeRole(left.rows[0].role);
+      const successor = remaining.rows[0];
+      const hasOwner = successor.role === 'owner';
+      const hasAdmin = remaining.rows.some((row) => ADMIN_ROLES.includes(row.role));
+      const inheritedRole = leavingRole === 'owner' && !hasOwner ? 'owner' : (!hasAdmin ? 'admin' : null);
+      if (inheritedRole) {
+        await client.query('UPDATE chat_members SET role = $1 WHERE chat_id = $2 AND user_id = $3', [inheritedRole, id, successor.user_id]);
+      }
+      return { successor, inheritedRole };
+    });
+    if (!outcome) return res.status(403).json({ error: 'Not a member of this chat' });
+
+    const { successor, inheritedRole } = outcome;
+    if (!successor) {
+      sendToUser(req.user.id, { type: 'chat_members_changed', payload: { chatId: id, action: 'left', userIds: [req.user.id], actorId: req.user.id } });
+      return res.json({ success: true });
+    }
+
+    const names = await getUsernames([req.user.id, successor.user_id]);
+    if (access.membership.chatType !== 'channel') {
+      await postSystemMessage(id, req.user.id, `${names.get(req.user.id)} left`);
+      if (inheritedRole) {
+        await postSystemMessage(id, req.user.id, `${names.get(successor.user_id)} is now the ${ROLE_LABELS[inheritedRole]}`);
+      }
+    }
+
+    await broadcastMembersChanged(id, { action: 'left', userIds: [req.user.id], actorId: req.user.id }, [req.user.id]);
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Channels
+app.get('/api/channels/search', authenticateToken, async (req, res) => {
+  const q = String(req.query.q || '').trim();
+  const limitParam = parseInt(req.query.limit || '20');
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 50) : 20;
+  if (!q) return res.json([]);
+  try {
+    const result = await pool.query(
+      `SELECT c.id, c.name, c.avatar, c.description,
+        (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
+        EXISTS(SELECT 1 FROM chat_members cm WHERE cm.chat_id = c.id AND cm.user_id = $2) as is_member
+       FROM chats c
+       WHERE c.chat_type = 'channel' AND c.is_public = true
+       AND (c.name ILIKE $1 OR c.description ILIKE $1)
+       AND NOT EXISTS (SELECT 1 FROM chat_bans b WHERE b.chat_id = c.id AND b.user_id = $2)
+       ORDER BY member_count DESC, c.name
+       LIMIT $3`,
+      [`%${q}%`, req.user.id, limit]
+    );
+    res.json(result.rows);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/channels/:id/subscribe', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const channel = await pool.query(
+      "SELECT 1 FROM chats WHERE id = $1 AND chat_type = 'channel' AND is_public = true",
+      [id]
+    );
+    if (channel.rows.length === 0) return res.status(404).json({ error: 'Channel not found' });
+
+    const banCheck = await pool.query('SELECT 1 FROM chat_bans WHERE chat_id = $1 AND user_id = $2', [id, req.user.id]);
+    if (banCheck.rows.length > 0) return res.status(403).json({ error: 'You are banned from this chat' });
+
+    const joined = await pool.query(
+      'INSERT INTO chat_members (chat_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING RETURNING user_id',
+      [id, req.user.id]
+    );
+    if (joined.rows.length > 0) {
+      await broadcastMembersChanged(id, { action: 'joined', userIds: [req.user.id], actorId: req.user.id });
+    }
+    res.json({ success: true, chatId: id });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Messages
+// Cursor pagination over the main timeline. Pass at most one of `before`, `after` or
+// `around` (a message id or an ISO timestamp); without one the latest page is returned.
+// Messages always come back oldest first, with `hasOlder`/`hasNewer` for the sides fetched.
+app.get('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
+  const { chatId } = req.params;
+  const { before, after, around } = req.query;
+  const limitParam = parseInt(req.query.limit || '50');
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 100) : 50;
+
+  try {
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const cursors = [before, after, around].filter(Boolean);
+    if (cursors.length > 1) return res.status(400).json({ error: 'Use only one of before, after or around' });
+
+    const cursor = cursors.length ? await resolveTimelineCursor(chatId, String(cursors[0])) : null;
+    if (cursors.length && !cursor) {
+      return UUID_PATTERN.test(String(cursors[0]))
+        ? res.status(404).json({ error: 'Message not found' })
+        : res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    // Fetch one extra row per side to know whether more exist beyond the page.
+    if (after) {
+      const newer = await queryTimeline(req.user.id, chatId, { cursor, op: '>', direction: 'ASC', limit: limit + 1 });
+      return res.json({ messages: newer.slice(0, limit), hasNewer: newer.length > limit });
+    }
+
+    if (!around) {
+      const older = await queryTimeline(req.user.id, chatId, { cursor, op: '<', direction: 'DESC', limit: limit + 1 });
+      const page = { messages: older.slice(0, limit).reverse(), hasOlder: older.length > limit };
+      return res.json(before ? page : { ...page, hasNewer: false });
+    }
+
+    // Around a message the anchor itself belongs to the older half; around a
+    // timestamp the newer half starts at the first message on or after it.
+    const half = Math.floor(limit / 2);
+    const olderOp = cursor.messageId ? '<=' : '<';
+    const newerOp = cursor.messageId ? '>' : '>=';
+    const older = await queryTimeline(req.user.id, chatId, { cursor, op: olderOp, direction: 'DESC', limit: limit - half + 1 });
+    const newer = await queryTimeline(req.user.id, chatId, { cursor, op: newerOp, direction: 'ASC', limit: half + 1 });
+    const olderPage = older.slice(0, limit - half).reverse();
+    const newerPage = newer.slice(0, half);
+    const targetId = cursor.messageId || newerPage[0]?.id || olderPage[olderPage.length - 1]?.id || null;
+
+    res.json({
+      messages: [...olderPage, ...newerPage],
+      hasOlder: older.length > limit - half,
+      hasNewer: newer.length > half,
+      targetId,
+      threadId: cursor.threadId || null,
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Photos and videos of a chat for the media viewer and the info panel, paginated like
+// the timeline. Cursors are media item ids: a message id for a single photo or video,
+// an attachment id inside an album. `offset` counts the items before the page, `total`
+// all of them.
+app.get('/api/chats/:chatId/media', authenticateToken, async (req, res) => {
+  const { chatId } = req.params;
+  const { before, after, around } = req.query;
+  const limitParam = parseInt(req.query.limit || '30');
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 100) : 30;
+
+  try {
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    const cursors = [before, after, around].filter(Boolean);
+    if (cursors.length > 1) return res.status(400).json({ error: 'Use only one of before, after or around' });
+    const cursorId = cursors.length ? String(cursors[0]) : null;
+    if (cursorId && !UUID_PATTERN.test(cursorId)) return res.status(400).json({ error: 'Invalid cursor' });
+
+    const stats = await pool.query(
+      `WITH media AS (${CHAT_MEDIA})
+      SELECT
+        (SELECT COUNT(*)::int FROM media) as total,
+        (SELECT COUNT(*)::int FROM media, (SELECT created_at, message_id, position FROM media WHERE id = $3) cursor
+          WHERE (media.created_at, media.message_id, media.position) < (cursor.created_at, cursor.message_id, cursor.position)) as before_cursor,
+        EXISTS(SELECT 1 FROM media WHERE id = $3) as cursor_found`,
+      [req.user.id, chatId, cursorId]
     );
+    const { total, before_cursor: beforeCursor, cursor_found: cursorFound } = stats.rows[0];
+    if (cursorId && !cursorFound) return res.status(404).json({ error: 'Media not found' });
 
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
+    if (after) {
+      const newer = await queryChatMedia(req.user.id, chatId, { cursorId, op: '>', direction: 'ASC', limit: limit + 1 });
+      return res.json({ items: newer.slice(0, limit), hasNewer: newer.length > limit, offset: beforeCursor + 1, total });
     }
 
+    if (!around) {
+      const older = await queryChatMedia(req.user.id, chatId, { cursorId, op: '<', direction: 'DESC', limit: limit + 1 });
+      const items = older.slice(0, limit).reverse();
+      const end = cursorId ? beforeCursor : total;
+      const page = { items, hasOlder: older.length > limit, offset: end - items.length, total };
+      return res.json(before ? page : { ...page, hasNewer: false });
+    }
+
+    const half = Math.floor(limit / 2);
+    const older = await queryChatMedia(req.user.id, chatId, { cursorId, op: '<=', direction: 'DESC', limit: limit - half + 1 });
+    const newer = await queryChatMedia(req.user.id, chatId, { cursorId, op: '>', direction: 'ASC', limit: half + 1 });
+    const olderPage = older.slice(0, limit - half).reverse();
+    res.json({
+      items: [...olderPage, ...newer.slice(0, half)],
+      hasOlder: older.length > limit - half,
+      hasNewer: newer.length > half,
+      offset: beforeCursor + 1 - olderPage.length,
+      total,
+    });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
+  try {
+    const { chatId } = req.params;
+    const {
+      content, messageType, fileUrl, fileName, fileSize, replyTo, threadId, clientMessageId, waveform, attachments,
+      width, height, duration, thumbnailUrl, blurhash,
+    } = MessageSchema.parse(req.body);
+
+    const access = await policy.authorize(chatId, req.user.id, 'post');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    // Clients retry sends from their outbox; a repeated key answers with the original message.
+    const replyWithExisting = async () => {
+      const existing = await pool.query(
+        'SELECT id FROM messages WHERE sender_id = $1 AND client_message_id = $2',
+        [req.user.id, clientMessageId]
+      );
+      if (existing.rows.length === 0) return false;
+      const message = await getMessageWithMeta(existing.rows[0].id, req.user.id);
+      if (message) res.json(message);
+      else res.status(409).json({ error: 'Message was already sent and has been deleted' });
+      return true;
+    };
+    if (clientMessageId && await replyWithExisting()) return;
+
     let replyToId = replyTo || null;
     if (replyToId) {
       const replyCheck = await pool.query('SELECT chat_id FROM messages WHERE id = $1', [replyToId]);
@@ -801,12 +2070,103 @@ app.post('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
       }
     }
 
+    // Threads are one level deep: the root must be a top-level message in this chat.
+    const threadRootId = threadId || null;
+    if (threadRootId) {
+      const rootCheck = await pool.query(
+        'SELECT chat_id, thread_root_id FROM messages WHERE id = $1 AND deleted_at IS NULL',
+        [threadRootId]
+      );
+      if (rootCheck.rows.length === 0 || rootCheck.rows[0].chat_id !== chatId || rootCheck.rows[0].thread_root_id) {
+        return res.status(400).json({ error: 'Invalid thread' });
+      }
+    }
+
+    // Stored files can only be sent by whoever uploaded them; everyone else gets them
+    // by forwarding the message.
+    const fileKeys = uploadKeysOf([
+      fileUrl,
+      thumbnailUrl,
+      messageType !== 'text' ? content : null,
+      ...(attachments || []).flatMap((item) => [item.fileUrl, item.thumbnailUrl]),
+    ]);
+    if (fileKeys.length > 0) {
+      const owned = await pool.query('SELECT key FROM uploads WHERE key = ANY($1) AND owner_id = $2', [fileKeys, req.user.id]);
+      if (owned.rows.length !== fileKeys.length) return res.status(400).json({ error: 'Unknown file' });
+    }
+
+    const entities = await getMessageEntities(chatId, messageType, content);
+
+    // The album items and mentions go in with the message in one statement, so a message
+    // is never visible without them.
+    const albumItems = (attachments || []).map((item, position) => ({
+      position,
+      media_type: item.mediaType,
+      file_url: item.fileUrl,
+      file_name: item.fileName || null,
+      file_size: item.fileSize ?? null,
+      width: item.width ?? null,
+      height: item.height ?? null,
+      duration: item.duration ?? null,
+      thumbnail_url: item.thumbnailUrl || null,
+      blurhash: item.blurhash || null,
+    }));
     const result = await pool.query(
-      'INSERT INTO messages (chat_id, sender_id, content, message_type, file_url, file_name, file_size, reply_to) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *',
-      [chatId, req.user.id, content, messageType, fileUrl, fileName, fileSize, replyToId]
+      `WITH inserted AS (
+         INSERT INTO messages (chat_id, sender_id, content, message_type, file_url, file_name, file_size, reply_to, thread_root_id, client_message_id, waveform,
+           width, height, duration, thumbnail_url, blurhash, entities)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $13, $14, $15, $16, $17, $19::jsonb)
+         ON CONFLICT (sender_id, client_message_id) WHERE client_message_id IS NOT NULL DO NOTHING
+         RETURNING *
+       ), album AS (
+         INSERT INTO message_attachments (message_id, position, media_type, file_url, file_name, file_size, width, height, duration, thumbnail_url, blurhash)
+         SELECT inserted.id, item.position, item.media_type, item.file_url, item.file_name, item.file_size,
+           item.width, item.height, item.duration, item.thumbnail_url, item.blurhash
+         FROM inserted, json_to_recordset($12::json) AS item(
+           position int, media_type text, file_url text, file_name text, file_size bigint,
+           width int, height int, duration real, thumbnail_url text, blurhash text
+         )
+         RETURNING *
+       ), files AS (
+         INSERT INTO message_files (message_id, file_key)
+         SELECT DISTINCT inserted.id, COALESCE(u.parent_key, u.key)
+         FROM inserted, uploads u WHERE u.key = ANY($18::text[])
+         ON CONFLICT DO NOTHING
+       ), mentions AS (
+         INSERT INTO message_mentions (message_id, user_id)
+         SELECT DISTINCT inserted.id, (entity->>'user_id')::uuid
+         FROM inserted, jsonb_array_elements($19::jsonb) AS entity
+         WHERE (entity->>'user_id')::uuid <> inserted.sender_id
+         ON CONFLICT DO NOTHING
+       )
+       SELECT inserted.*,
+         COALESCE(
+           (SELECT json_agg(json_build_object(
+               'id', album.id, 'media_type', album.media_type, 'file_url', album.file_url, 'file_name', album.file_name, 'file_size', album.file_size,
+               'width', album.width, 'height', album.height, 'duration', album.duration, 'thumbnail_url', album.thumbnail_url, 'blurhash', album.blurhash
+             ) ORDER BY album.position) FROM album),
+           '[]'
+         ) as attachments
+       FROM inserted`,
+      [
+        chatId, req.user.id, content, messageType, fileUrl, fileName, fileSize, replyToId, threadRootId, clientMessageId || null,
+        messageType === 'audio' && waveform?.length ? waveform : null,
+        JSON.stringify(albumItems),
+        width ?? null, height ?? null, duration ?? null, thumbnailUrl || null, blurhash || null,
+        fileKeys,
+        JSON.stringify(entities),
+      ]
     );
+    // A concurrent retry with the same key won the insert.
+    if (result.rows.length === 0) {
+      await replyWithExisting();
+      return;
+    }
 
-    await pool.query('UPDATE chats SET updated_at = NOW() WHERE id = $1', [chatId]);
+    // Thread replies stay out of the main timeline, so they don't bump the chat either.
+    if (!threadRootId) {
+      await pool.query('UPDATE chats SET updated_at = NOW() WHERE id = $1', [chatId]);
+    }
 
     const userResult = await pool.query('SELECT id, username, avatar FROM users WHERE id = $1', [req.user.id]);
 
@@ -823,13 +2183,28 @@ app.post('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
       ...result.rows[0],
       sender: userResult.rows[0],
       reactions: [],
+      reply_count: 0,
+      view_count: 0,
       is_saved: false,
+      link_preview: null,
       reply,
     };
 
-    broadcastToChat(chatId, { type: 'new_message', payload: message });
+    if (threadRootId) {
+      const countResult = await pool.query(
+        'SELECT COUNT(*)::int AS count FROM messages WHERE thread_root_id = $1 AND deleted_at IS NULL',
+        [threadRootId]
+      );
+      broadcastToChat(chatId, {
+        type: 'thread_reply',
+        payload: { chatId, threadId: threadRootId, replyCount: countResult.rows[0].count, message },
+      });
+    } else {
+      broadcastToChat(chatId, { type: 'new_message', payload: message });
+    }
 
     res.json(message);
+    if (messageType === 'text') refreshLinkPreview(message.id, chatId, content);
   } catch (e) {
     if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
     console.error(e);
@@ -839,22 +2214,16 @@ app.post('/api/chats/:chatId/messages', authenticateToken, async (req, res) => {
 
 app.get('/api/chats/:id/messages/search', authenticateToken, async (req, res) => {
   const { id } = req.params;
-  const { q } = req.query;
   try {
-    const result = await pool.query(
-      `SELECT m.*,
-  json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender
-      FROM messages m
-      JOIN users u ON m.sender_id = u.id
-      WHERE m.chat_id = $1 AND m.content ILIKE $2 AND m.deleted_at IS NULL
-      AND NOT EXISTS (
-        SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $3
-      )
-      ORDER BY m.created_at DESC LIMIT 50`,
-      [id, `%${q}%`, req.user.id]
-    );
-    res.json(result.rows);
+    const filters = SearchSchema.parse({ ...req.query, chatId: id });
+    const access = await policy.authorize(id, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (!hasSearchCriteria(filters)) return res.json({ messages: [], nextOffset: null });
+
+    res.json(await searchMessages(req.user.id, filters));
   } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
@@ -862,24 +2231,20 @@ app.get('/api/chats/:id/messages/search', authenticateToken, async (req, res) =>
 app.get('/api/chats/:id', authenticateToken, async (req, res) => {
   const { id } = req.params;
   try {
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [id, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(id, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     const fullChat = await pool.query(
       `SELECT c.*,
         cm.role,
         COALESCE(
-          (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', cm2.last_read_at))
+          (SELECT json_agg(json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar, 'is_online', u.is_online, 'last_read_at', CASE WHEN cm2.user_id = cm.user_id THEN COALESCE(cm2.last_read_at, cm2.joined_at) WHEN u.read_receipts THEN cm2.last_read_at END, 'last_delivered_at', cm2.last_delivered_at, 'role', cm2.role))
            FROM chat_members cm2 
            JOIN users u ON cm2.user_id = u.id 
            WHERE cm2.chat_id = c.id),
           '[]'
         ) as members,
+          (SELECT COUNT(*)::int FROM chat_members cmc WHERE cmc.chat_id = c.id) as member_count,
         (SELECT json_build_object('id', pm.id, 'content', pm.content, 'created_at', pm.created_at, 'sender_id', pm.sender_id, 'sender_username', pu.username, 'message_type', pm.message_type)
          FROM messages pm
          JOIN users pu ON pm.sender_id = pu.id
@@ -889,7 +2254,7 @@ app.get('/api/chats/:id', authenticateToken, async (req, res) => {
       WHERE c.id = $1`,
       [id, req.user.id]
     );
-    res.json(fullChat.rows[0]);
+    res.json(presentChat(fullChat.rows[0], req.user.id));
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: 'Server error' });
@@ -902,19 +2267,8 @@ app.post('/api/messages/:id/forward', authenticateToken, async (req, res) => {
   if (!chatId) return res.status(400).json({ error: 'chatId is required' });
 
   try {
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
-    const role = memberCheck.rows[0].role;
-    const chatTypeResult = await pool.query('SELECT chat_type FROM chats WHERE id = $1', [chatId]);
-    const chatType = chatTypeResult.rows[0]?.chat_type || 'direct';
-    if (chatType === 'channel' && !['admin', 'owner'].includes(role)) {
-      return res.status(403).json({ error: 'Only admins can post in this channel' });
-    }
+    const access = await policy.authorize(chatId, req.user.id, 'post');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     const originalResult = await pool.query(
       'SELECT * FROM messages WHERE id = $1 AND deleted_at IS NULL',
@@ -925,16 +2279,15 @@ app.post('/api/messages/:id/forward', authenticateToken, async (req, res) => {
     }
     const original = originalResult.rows[0];
 
-    const originMemberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [original.chat_id, req.user.id]
-    );
-    if (originMemberCheck.rows.length === 0) {
+    const originMembership = await policy.getMembership(original.chat_id, req.user.id);
+    if (!originMembership) {
       return res.status(403).json({ error: 'Not allowed to forward this message' });
     }
 
     const insertResult = await pool.query(
-      'INSERT INTO messages (chat_id, sender_id, content, message_type, file_url, file_name, file_size, forwarded_from_message_id, forwarded_from_user_id, forwarded_from_chat_id) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING id',
+      `INSERT INTO messages (chat_id, sender_id, content, message_type, file_url, file_name, file_size, waveform,
+         width, height, duration, thumbnail_url, blurhash, forwarded_from_message_id, forwarded_from_user_id, forwarded_from_chat_id, preview_url, entities)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18) RETURNING id`,
       [
         chatId,
         req.user.id,
@@ -943,11 +2296,30 @@ app.post('/api/messages/:id/forward', authenticateToken, async (req, res) => {
         original.file_url,
         original.file_name,
         original.file_size,
+        original.waveform,
+        original.width,
+        original.height,
+        original.duration,
+        original.thumbnail_url,
+        original.blurhash,
         original.id,
         original.sender_id,
         original.chat_id,
+        original.preview_url,
+        // Still highlighted, but nobody in the new chat is notified.
+        JSON.stringify(original.entities),
       ]
     );
+    await pool.query(
+      `INSERT INTO message_attachments (message_id, position, media_type, file_url, file_name, file_size, width, height, duration, thumbnail_url, blurhash)
+       SELECT $1, position, media_type, file_url, file_name, file_size, width, height, duration, thumbnail_url, blurhash
+       FROM message_attachments WHERE message_id = $2`,
+      [insertResult.rows[0].id, original.id]
+    );
+    await pool.query(
+      'INSERT INTO message_files (message_id, file_key) SELECT $1, file_key FROM message_files WHERE message_id = $2',
+      [insertResult.rows[0].id, original.id]
+    );
 
     await pool.query('UPDATE chats SET updated_at = NOW() WHERE id = $1', [chatId]);
 
@@ -964,19 +2336,8 @@ app.post('/api/chats/:id/pin', authenticateToken, async (req, res) => {
   const { id } = req.params;
   const { messageId } = req.body;
   try {
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [id, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
-    const role = memberCheck.rows[0].role;
-    const chatTypeResult = await pool.query('SELECT chat_type FROM chats WHERE id = $1', [id]);
-    const chatType = chatTypeResult.rows[0]?.chat_type || 'direct';
-    if (chatType !== 'direct' && !['admin', 'owner'].includes(role)) {
-      return res.status(403).json({ error: 'Not authorized to pin' });
-    }
+    const access = await policy.authorize(id, req.user.id, 'pin');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     if (messageId) {
       const msgCheck = await pool.query('SELECT chat_id FROM messages WHERE id = $1', [messageId]);
@@ -995,63 +2356,28 @@ app.post('/api/chats/:id/pin', authenticateToken, async (req, res) => {
   }
 });
 
-app.get('/api/messages/:id/context', authenticateToken, async (req, res) => {
+app.get('/api/messages/:id/thread', authenticateToken, async (req, res) => {
   const { id } = req.params;
-  const limitParam = parseInt(req.query.limit || '20');
-  const limit = Number.isFinite(limitParam) ? limitParam : 20;
   try {
-    const msgResult = await pool.query('SELECT chat_id, created_at FROM messages WHERE id = $1', [id]);
-    if (msgResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
-    const { chat_id: chatId, created_at } = msgResult.rows[0];
+    const { before, limit } = ThreadPageSchema.parse(req.query);
+    const rootResult = await pool.query('SELECT chat_id, thread_root_id FROM messages WHERE id = $1', [id]);
+    if (rootResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
+    const { chat_id: chatId, thread_root_id: parentId } = rootResult.rows[0];
+    if (parentId) return res.status(400).json({ error: 'Message is a thread reply' });
 
-    const memberCheck = await pool.query('SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2', [chatId, req.user.id]);
-    if (memberCheck.rows.length === 0) return res.status(403).json({ error: 'Not a member of this chat' });
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
-    const half = Math.floor(limit / 2);
-    const beforeQuery = `
-      SELECT m.*,
-      json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender,
-      CASE
-        WHEN rm.id IS NULL THEN NULL
-        ELSE json_build_object('id', rm.id, 'content', rm.content, 'sender_id', rm.sender_id, 'sender_username', ru.username)
-      END as reply,
-      CASE
-        WHEN m.forwarded_from_message_id IS NULL THEN NULL
-        ELSE json_build_object('message_id', m.forwarded_from_message_id, 'chat_id', m.forwarded_from_chat_id, 'chat_name', fc.name, 'sender_id', m.forwarded_from_user_id, 'sender_username', fu.username)
-      END as forwarded_from,
-      COALESCE(
-        (SELECT json_agg(json_build_object('emoji', r.emoji, 'user_id', r.user_id, 'username', ru2.username))
-           FROM reactions r
-           JOIN users ru2 ON r.user_id = ru2.id
-           WHERE r.message_id = m.id),
-      '[]'
-    ) as reactions,
-      EXISTS(SELECT 1 FROM saved_messages sm WHERE sm.message_id = m.id AND sm.user_id = $1) as is_saved
-      FROM messages m
-      LEFT JOIN users u ON m.sender_id = u.id
-      LEFT JOIN messages rm ON m.reply_to = rm.id
-      LEFT JOIN users ru ON rm.sender_id = ru.id
-      LEFT JOIN users fu ON m.forwarded_from_user_id = fu.id
-      LEFT JOIN chats fc ON m.forwarded_from_chat_id = fc.id
-      WHERE m.chat_id = $2 AND m.deleted_at IS NULL
-      AND NOT EXISTS (
-        SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
-      )
-      AND m.created_at <= $3
-      ORDER BY m.created_at DESC
-      LIMIT $4
-    `;
-    const afterQuery = `
+    const root = await getMessageWithMeta(id, req.user.id);
+    if (!root) return res.status(404).json({ error: 'Message not found' });
+
+    let query = `
       SELECT m.*,
       json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender,
       CASE
         WHEN rm.id IS NULL THEN NULL
         ELSE json_build_object('id', rm.id, 'content', rm.content, 'sender_id', rm.sender_id, 'sender_username', ru.username)
       END as reply,
-      CASE
-        WHEN m.forwarded_from_message_id IS NULL THEN NULL
-        ELSE json_build_object('message_id', m.forwarded_from_message_id, 'chat_id', m.forwarded_from_chat_id, 'chat_name', fc.name, 'sender_id', m.forwarded_from_user_id, 'sender_username', fu.username)
-      END as forwarded_from,
       COALESCE(
         (SELECT json_agg(json_build_object('emoji', r.emoji, 'user_id', r.user_id, 'username', ru2.username))
            FROM reactions r
@@ -1059,57 +2385,56 @@ app.get('/api/messages/:id/context', authenticateToken, async (req, res) => {
            WHERE r.message_id = m.id),
       '[]'
     ) as reactions,
+      ${MESSAGE_ATTACHMENTS},
+      ${MESSAGE_LINK_PREVIEW},
       EXISTS(SELECT 1 FROM saved_messages sm WHERE sm.message_id = m.id AND sm.user_id = $1) as is_saved
       FROM messages m
       LEFT JOIN users u ON m.sender_id = u.id
       LEFT JOIN messages rm ON m.reply_to = rm.id
       LEFT JOIN users ru ON rm.sender_id = ru.id
-      LEFT JOIN users fu ON m.forwarded_from_user_id = fu.id
-      LEFT JOIN chats fc ON m.forwarded_from_chat_id = fc.id
-      WHERE m.chat_id = $2 AND m.deleted_at IS NULL
+      WHERE m.thread_root_id = $2 AND m.deleted_at IS NULL
       AND NOT EXISTS (
         SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
       )
-      AND m.created_at > $3
-      ORDER BY m.created_at ASC
-      LIMIT $4
     `;
+    const params = [req.user.id, id];
+
+    // A reply cursor compares on (created_at, id) so replies sharing a timestamp are
+    // neither skipped nor repeated.
+    if (typeof before === 'string') {
+      const cursor = await pool.query('SELECT 1 FROM messages WHERE id = $1 AND thread_root_id = $2', [before, id]);
+      if (cursor.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
+      query += ` AND (m.created_at, m.id) < ((SELECT created_at FROM messages WHERE id = $3), $3::uuid)`;
+      params.push(before);
+    } else if (before) {
+      query += ` AND m.created_at < $3`;
+      params.push(before);
+    }
 
-    const before = await pool.query(beforeQuery, [req.user.id, chatId, created_at, half + 1]);
-    const after = await pool.query(afterQuery, [req.user.id, chatId, created_at, half]);
+    // Fetch one extra row to know whether an older page exists.
+    query += ` ORDER BY m.created_at DESC, m.id DESC LIMIT $${params.length + 1} `;
+    params.push(limit + 1);
 
-    const messages = [...before.rows.reverse(), ...after.rows];
-    res.json({ chatId, targetId: id, messages });
+    const result = await pool.query(query, params);
+    const hasMore = result.rows.length > limit;
+    const replies = result.rows.slice(0, limit).reverse();
+    res.json({ root, replies, hasMore });
   } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
     console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// Searches every chat the user is in; `chatId` narrows it to one.
 app.get('/api/search/messages', authenticateToken, async (req, res) => {
-  const q = String(req.query.q || '').trim();
-  if (!q) return res.json([]);
   try {
-    const result = await pool.query(
-      `SELECT m.*,
-        c.name as chat_name,
-        c.chat_type,
-        json_build_object('id', u.id, 'username', u.username, 'avatar', u.avatar) as sender
-      FROM messages m
-      JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $1
-      JOIN users u ON u.id = m.sender_id
-      JOIN chats c ON c.id = m.chat_id
-      WHERE m.deleted_at IS NULL
-        AND NOT EXISTS (
-          SELECT 1 FROM message_deletes md WHERE md.message_id = m.id AND md.user_id = $1
-        )
-        AND (m.content ILIKE $2 OR u.username ILIKE $2 OR c.name ILIKE $2)
-      ORDER BY m.created_at DESC
-      LIMIT 50`,
-      [req.user.id, `%${q}%`]
-    );
-    res.json(result.rows);
+    const filters = SearchSchema.parse(req.query);
+    if (!hasSearchCriteria(filters)) return res.json({ messages: [], nextOffset: null });
+
+    res.json(await searchMessages(req.user.id, filters));
   } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
     console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
@@ -1118,22 +2443,114 @@ app.get('/api/search/messages', authenticateToken, async (req, res) => {
 app.post('/api/chats/:chatId/read', authenticateToken, async (req, res) => {
   const { chatId } = req.params;
   try {
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    // In channels, reading a post is what counts as viewing it.
+    if (access.membership.chatType === 'channel') {
+      await pool.query(
+        `INSERT INTO message_views (message_id, user_id)
+         SELECT m.id, $2 FROM messages m
+         JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $2
+         WHERE m.chat_id = $1 AND m.deleted_at IS NULL AND m.sender_id <> $2
+         AND m.created_at > COALESCE(cm.last_read_at, '-infinity')
+         ON CONFLICT DO NOTHING`,
+        [chatId, req.user.id]
+      );
+    }
+
+    const reader = await pool.query('SELECT read_receipts FROM users WHERE id = $1', [req.user.id]);
+    const sharesReceipts = reader.rows[0].read_receipts;
+
+    // Records when each message was first read, for the sender's "Seen by" list. Messages
+    // from before the reader joined never had them as a recipient.
+    if (sharesReceipts && access.membership.chatType !== 'channel') {
+      await pool.query(
+        `INSERT INTO message_reads (message_id, user_id)
+         SELECT m.id, $2 FROM messages m
+         JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $2
+         WHERE m.chat_id = $1 AND m.deleted_at IS NULL AND m.sender_id <> $2
+         AND m.created_at > COALESCE(cm.last_read_at, cm.joined_at, '-infinity')
+         ON CONFLICT DO NOTHING`,
+        [chatId, req.user.id]
+      );
+    }
+
+    // Whatever has been read has been delivered too.
+    const updated = await pool.query(
+      `UPDATE chat_members SET last_read_at = NOW(), last_delivered_at = GREATEST(last_delivered_at, NOW()), marked_unread = false
+       WHERE chat_id = $1 AND user_id = $2 RETURNING last_read_at`,
       [chatId, req.user.id]
     );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
+
+    const lastReadAt = updated.rows[0].last_read_at.toISOString();
+    // With read receipts turned off, the other members only learn the messages arrived.
+    if (sharesReceipts) {
+      broadcastToChat(chatId, { type: 'read_receipt', payload: { chatId, userId: req.user.id, lastReadAt } }, req.user.id);
+    } else {
+      broadcastToChat(chatId, { type: 'messages_delivered', payload: { chatId, userId: req.user.id, lastDeliveredAt: lastReadAt } }, req.user.id);
     }
+    // The reader's other sessions clear their badges too.
+    sendToUser(req.user.id, { type: 'chat_read_state', payload: { chatId, lastReadAt, markedUnread: false } });
+    res.json({ success: true, lastReadAt });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Flags the chat for later without touching last_read_at, so read receipts other
+// members already saw stay as they are.
+app.post('/api/chats/:chatId/unread', authenticateToken, async (req, res) => {
+  const { chatId } = req.params;
+  try {
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
-      'UPDATE chat_members SET last_read_at = NOW() WHERE chat_id = $1 AND user_id = $2',
+      'UPDATE chat_members SET marked_unread = true WHERE chat_id = $1 AND user_id = $2',
       [chatId, req.user.id]
     );
 
-    const lastReadAt = new Date().toISOString();
-    broadcastToChat(chatId, { type: 'read_receipt', payload: { chatId, userId: req.user.id, lastReadAt } }, req.user.id);
-    res.json({ success: true, lastReadAt });
+    sendToUser(req.user.id, { type: 'chat_read_state', payload: { chatId, markedUnread: true } });
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Who has read or received one of your messages. Members with read receipts turned
+// off only ever show up as delivered.
+app.get('/api/messages/:id/receipts', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  try {
+    const messageResult = await pool.query('SELECT chat_id, sender_id FROM messages WHERE id = $1 AND deleted_at IS NULL', [id]);
+    if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
+    const { chat_id: chatId, sender_id: senderId } = messageResult.rows[0];
+
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (senderId !== req.user.id) return res.status(403).json({ error: 'Only the sender can see who read a message' });
+
+    const result = await pool.query(
+      `SELECT u.id, u.username, u.avatar,
+        CASE WHEN u.read_receipts THEN mr.read_at END as read_at,
+        COALESCE(cm.last_delivered_at >= m.created_at, false) OR mr.read_at IS NOT NULL as delivered
+       FROM messages m
+       JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id <> m.sender_id
+       JOIN users u ON u.id = cm.user_id
+       LEFT JOIN message_reads mr ON mr.message_id = m.id AND mr.user_id = cm.user_id
+       WHERE m.id = $1
+       ORDER BY read_at DESC NULLS LAST, u.username`,
+      [id]
+    );
+    const toMember = ({ id: userId, username, avatar }) => ({ id: userId, username, avatar });
+    res.json({
+      total: result.rows.length,
+      read: result.rows.filter((row) => row.read_at).map((row) => ({ ...toMember(row), read_at: row.read_at })),
+      delivered: result.rows.filter((row) => !row.read_at && row.delivered).map(toMember),
+    });
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: 'Server error' });
@@ -1155,29 +2572,41 @@ app.patch('/api/messages/:id', authenticateToken, async (req, res) => {
   const { id } = req.params;
   try {
     const { content } = EditMessageSchema.parse(req.body);
-    const messageResult = await pool.query('SELECT chat_id, sender_id FROM messages WHERE id = $1', [id]);
+    const messageResult = await pool.query('SELECT chat_id, sender_id, message_type FROM messages WHERE id = $1', [id]);
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
 
-    const { chat_id: chatId, sender_id: senderId } = messageResult.rows[0];
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
-    const isAdmin = memberCheck.rows[0].role === 'admin';
-    if (req.user.id !== senderId && !isAdmin) {
+    const { chat_id: chatId, sender_id: senderId, message_type: messageType } = messageResult.rows[0];
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    // Moderators can remove other people's messages, but never put words in their mouth.
+    if (req.user.id !== senderId) {
       return res.status(403).json({ error: 'Not authorized to edit this message' });
     }
 
+    // Mentions follow the new text; anyone no longer mentioned drops out of the count.
+    const entities = await getMessageEntities(chatId, messageType, content);
+    const mentionedIds = [...new Set(entities.map((entity) => entity.user_id))].filter((userId) => userId !== senderId);
     const result = await pool.query(
-      'UPDATE messages SET content = $1, edited_at = NOW(), updated_at = NOW() WHERE id = $2 RETURNING id, content, edited_at, updated_at, chat_id',
-      [content, id]
+      `WITH updated AS (
+         UPDATE messages SET content = $1, entities = $3::jsonb, edited_at = NOW(), updated_at = NOW() WHERE id = $2
+         RETURNING id, content, entities, edited_at, updated_at, chat_id, message_type
+       ), removed AS (
+         DELETE FROM message_mentions WHERE message_id = $2 AND NOT (user_id = ANY($4::uuid[]))
+       ), added AS (
+         INSERT INTO message_mentions (message_id, user_id)
+         SELECT updated.id, unnest($4::uuid[]) FROM updated
+         ON CONFLICT DO NOTHING
+       )
+       SELECT * FROM updated`,
+      [content, id, JSON.stringify(entities), mentionedIds]
     );
     const updated = result.rows[0];
-    broadcastToChat(chatId, { type: 'message_edited', payload: { id: updated.id, chatId, content: updated.content, edited_at: updated.edited_at } });
+    broadcastToChat(chatId, {
+      type: 'message_edited',
+      payload: { id: updated.id, chatId, content: updated.content, entities: updated.entities, edited_at: updated.edited_at },
+    });
     res.json(updated);
+    if (updated.message_type === 'text') refreshLinkPreview(updated.id, chatId, updated.content);
   } catch (e) {
     if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
     console.error(e);
@@ -1188,26 +2617,19 @@ app.patch('/api/messages/:id', authenticateToken, async (req, res) => {
 app.delete('/api/messages/:id', authenticateToken, async (req, res) => {
   const { id } = req.params;
   try {
-    const messageResult = await pool.query('SELECT chat_id, sender_id FROM messages WHERE id = $1', [id]);
+    const messageResult = await pool.query('SELECT chat_id, sender_id, thread_root_id FROM messages WHERE id = $1', [id]);
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
 
-    const { chat_id: chatId, sender_id: senderId } = messageResult.rows[0];
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
-
-    const isAdmin = memberCheck.rows[0].role === 'admin';
-    if (req.user.id !== senderId && !isAdmin) {
+    const { chat_id: chatId, sender_id: senderId, thread_root_id: threadId } = messageResult.rows[0];
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+    if (req.user.id !== senderId && !access.membership.permissions.delete_messages) {
       return res.status(403).json({ error: 'Not authorized to delete this message' });
     }
 
     await pool.query('UPDATE messages SET deleted_at = NOW() WHERE id = $1', [id]);
     await pool.query('UPDATE chats SET pinned_message_id = NULL WHERE pinned_message_id = $1', [id]);
-    broadcastToChat(chatId, { type: 'message_deleted', payload: { chatId, messageId: id, senderId: req.user.id } }, req.user.id);
+    broadcastToChat(chatId, { type: 'message_deleted', payload: { chatId, messageId: id, threadId, senderId: req.user.id } }, req.user.id);
     res.json({ success: true });
   } catch (e) {
     res.status(500).json({ error: 'Server error' });
@@ -1221,13 +2643,8 @@ app.post('/api/messages/:id/delete-for-me', authenticateToken, async (req, res)
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
     const chatId = messageResult.rows[0].chat_id;
 
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
       'INSERT INTO message_deletes (message_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
@@ -1243,19 +2660,8 @@ app.post('/api/messages/:id/delete-for-me', authenticateToken, async (req, res)
 app.delete('/api/chats/:id/messages', authenticateToken, async (req, res) => {
   const { id } = req.params;
   try {
-    // Membership and Admin check
-    const memberCheck = await pool.query(
-      'SELECT role FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [id, req.user.id]
-    );
-
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
-
-    if (memberCheck.rows[0].role !== 'admin') {
-      return res.status(403).json({ error: 'Only admins can clear chat history' });
-    }
+    const access = await policy.authorize(id, req.user.id, 'delete_messages');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
       'UPDATE messages SET deleted_at = NOW() WHERE chat_id = $1',
@@ -1278,14 +2684,8 @@ app.post('/api/messages/:id/reactions', authenticateToken, async (req, res) => {
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
     const chatId = messageResult.rows[0].chat_id;
 
-    // Membership check
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
       'INSERT INTO reactions (message_id, user_id, emoji) VALUES ($1, $2, $3) ON CONFLICT (message_id, user_id, emoji) DO NOTHING',
@@ -1315,14 +2715,8 @@ app.delete('/api/messages/:id/reactions', authenticateToken, async (req, res) =>
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
     const chatId = messageResult.rows[0].chat_id;
 
-    // Membership check
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
       'DELETE FROM reactions WHERE message_id = $1 AND user_id = $2 AND emoji = $3',
@@ -1349,14 +2743,8 @@ app.post('/api/messages/:id/save', authenticateToken, async (req, res) => {
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
     const chatId = messageResult.rows[0].chat_id;
 
-    // Membership check
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
       'INSERT INTO saved_messages (message_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
@@ -1375,14 +2763,8 @@ app.delete('/api/messages/:id/save', authenticateToken, async (req, res) => {
     if (messageResult.rows.length === 0) return res.status(404).json({ error: 'Message not found' });
     const chatId = messageResult.rows[0].chat_id;
 
-    // Membership check
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(chatId, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
     await pool.query(
       'DELETE FROM saved_messages WHERE message_id = $1 AND user_id = $2',
@@ -1470,66 +2852,592 @@ app.delete('/api/messages/:id/permanent', authenticateToken, async (req, res) =>
 });
 
 // Calls
+const CALL_RECONNECT_GRACE_MS = 15000;
+const CALL_RING_TIMEOUT_MS = 45000;
+
+// Calls nobody has answered yet, keyed by call id.
+const ringTimers = new Map();
+
+const stopRinging = (callId) => {
+  clearTimeout(ringTimers.get(callId));
+  ringTimers.delete(callId);
+};
+
+const formatCallDuration = (seconds) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+const describeFinishedCall = (call, duration) => {
+  const kind = call.is_video ? 'video call' : 'voice call';
+  if (call.status === 'missed') return `Missed ${kind}`;
+  if (call.status === 'rejected') return `Declined ${kind}`;
+  return `${kind.charAt(0).toUpperCase()}${kind.slice(1)} · ${formatCallDuration(duration)}`;
+};
+
+// A call counts as answered from the moment someone other than the caller joins it.
+const getCallAnsweredAt = async (call) => {
+  const result = await pool.query(
+    `SELECT MIN(joined_at) as answered_at FROM call_participants
+     WHERE call_id = $1 AND user_id <> $2 AND status <> 'declined'`,
+    [call.id, call.initiator_id]
+  );
+  return result.rows[0].answered_at;
+};
+
+const getCallParticipantIds = async (callId) => {
+  const result = await pool.query(
+    `SELECT user_id FROM call_participants WHERE call_id = $1 AND status = 'joined' ORDER BY joined_at`,
+    [callId]
+  );
+  return result.rows.map((row) => row.user_id);
+};
+
+const getActiveCall = async (callId) => {
+  const result = await pool.query(
+    `SELECT c.*, ch.chat_type FROM calls c JOIN chats ch ON ch.id = c.chat_id WHERE c.id = $1 AND c.status = 'active'`,
+    [callId]
+  );
+  return result.rows[0] || null;
+};
+
+// Without an explicit status, a call nobody answered ends up missed.
+const finishCall = async (call, status) => {
+  stopRinging(call.id);
+  const answeredAt = await getCallAnsweredAt(call);
+  const result = await pool.query(
+    `UPDATE calls SET status = $2, ended_at = NOW() WHERE id = $1 AND status = 'active' RETURNING *`,
+    [call.id, status || (answeredAt ? 'ended' : 'missed')]
+  );
+  if (result.rows.length === 0) return null;
+  const finished = result.rows[0];
+  await pool.query(
+    `UPDATE call_participants SET status = 'left', left_at = NOW() WHERE call_id = $1 AND status = 'joined'`,
+    [call.id]
+  );
+  broadcastToChat(call.chat_id, {
+    type: 'call_ended',
+    payload: { callId: call.id, chatId: call.chat_id, status: finished.status },
+  });
+
+  const duration = answeredAt ? Math.max(Math.round((finished.ended_at - answeredAt) / 1000), 0) : 0;
+  await postSystemMessage(call.chat_id, call.initiator_id, describeFinishedCall(finished, duration));
+  return { ...finished, duration };
+};
+
+const expireRinging = async (callId) => {
+  ringTimers.delete(callId);
+  const call = await getActiveCall(callId);
+  if (call && !(await getCallAnsweredAt(call))) await finishCall(call, 'missed');
+};
+
+// A direct call ends when either side leaves; a group call when the last person does.
+const leaveCall = async (call, userId) => {
+  const result = await pool.query(
+    `UPDATE call_participants SET status = 'left', left_at = NOW()
+     WHERE call_id = $1 AND user_id = $2 AND status = 'joined' RETURNING user_id`,
+    [call.id, userId]
+  );
+  if (result.rows.length === 0) return;
+
+  const participantIds = await getCallParticipantIds(call.id);
+  if (call.chat_type === 'direct' || participantIds.length === 0) {
+    await finishCall(call);
+    return;
+  }
+  broadcastToChat(call.chat_id, {
+    type: 'call_participant_left',
+    payload: { callId: call.id, chatId: call.chat_id, userId, participants: participantIds },
+  });
+};
+
+const leaveActiveCalls = async (userId) => {
+  const result = await pool.query(
+    `SELECT c.*, ch.chat_type FROM calls c
+     JOIN chats ch ON ch.id = c.chat_id
+     JOIN call_participants cp ON cp.call_id = c.id
+     WHERE cp.user_id = $1 AND cp.status = 'joined' AND c.status = 'active'`,
+    [userId]
+  );
+  for (const call of result.rows) {
+    await leaveCall(call, userId);
+  }
+};
+
 app.post('/api/calls', authenticateToken, async (req, res) => {
   try {
     const { chatId, isVideo } = CallSchema.parse(req.body);
 
-    // Membership check
-    const memberCheck = await pool.query(
-      'SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2',
-      [chatId, req.user.id]
-    );
-    if (memberCheck.rows.length === 0) {
-      return res.status(403).json({ error: 'Not a member of this chat' });
-    }
+    const access = await policy.authorize(chatId, req.user.id, 'start_call');
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
 
+    // One call per chat; anyone who tries to start another gets the running one to join.
     const result = await pool.query(
-      'INSERT INTO calls (chat_id, initiator_id, is_video) VALUES ($1, $2, $3) RETURNING *',
+      `INSERT INTO calls (chat_id, initiator_id, is_video)
+       SELECT $1, $2, $3 WHERE NOT EXISTS (SELECT 1 FROM calls WHERE chat_id = $1 AND status = 'active')
+       RETURNING *`,
       [chatId, req.user.id, isVideo]
     );
-    const call = result.rows[0];
+    if (result.rows.length === 0) {
+      const existing = await pool.query(`SELECT * FROM calls WHERE chat_id = $1 AND status = 'active'`, [chatId]);
+      const call = existing.rows[0];
+      return res.status(409).json({
+        error: 'A call is already in progress',
+        call: call ? { ...call, participants: await getCallParticipantIds(call.id) } : null,
+      });
+    }
+    const call = { ...result.rows[0], participants: [req.user.id] };
 
     await pool.query(
       'INSERT INTO call_participants (call_id, user_id, status) VALUES ($1, $2, $3)',
       [call.id, req.user.id, 'joined']
     );
+    ringTimers.set(call.id, setTimeout(() => {
+      expireRinging(call.id).catch((e) => console.error('Failed to expire call:', e));
+    }, CALL_RING_TIMEOUT_MS));
 
     broadcastToChat(chatId, { type: 'call_started', payload: { ...call, senderId: req.user.id } });
     res.json(call);
   } catch (e) {
     if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.patch('/api/calls/:id/end', authenticateToken, async (req, res) => {
-  const { id } = req.params;
+// Call log for the user's chats, newest first. Duration counts from when the call was answered.
+app.get('/api/calls', authenticateToken, async (req, res) => {
+  try {
+    const { before, limit } = CallHistorySchema.parse(req.query);
+    const result = await pool.query(
+      `SELECT c.id, c.chat_id, c.initiator_id, c.is_video, c.status, c.started_at, c.ended_at,
+        u.username as initiator_username,
+        u.avatar as initiator_avatar,
+        me.status as participant_status,
+        CASE WHEN c.initiator_id = $1 THEN 'outgoing' ELSE 'incoming' END as direction,
+        (SELECT EXTRACT(EPOCH FROM (c.ended_at - MIN(cp.joined_at)))::int FROM call_participants cp
+         WHERE cp.call_id = c.id AND cp.user_id <> c.initiator_id AND cp.status <> 'declined') as duration
+      FROM calls c
+      JOIN chat_members cm ON cm.chat_id = c.chat_id AND cm.user_id = $1
+      JOIN users u ON u.id = c.initiator_id
+      LEFT JOIN call_participants me ON me.call_id = c.id AND me.user_id = $1
+      WHERE c.started_at >= cm.joined_at AND ($2::timestamptz IS NULL OR c.started_at < $2)
+      ORDER BY c.started_at DESC
+      LIMIT $3`,
+      [req.user.id, before ?? null, limit + 1]
+    );
+    res.json({ calls: result.rows.slice(0, limit), hasMore: result.rows.length > limit });
+  } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Short-lived TURN credentials: the username carries the expiry, the password is its HMAC.
+app.get('/api/calls/ice-config', authenticateToken, (req, res) => {
+  const iceServers = [];
+  if (iceConfig.stunUrls.length > 0) iceServers.push({ urls: iceConfig.stunUrls });
+
+  let ttl = null;
+  if (iceConfig.turnUrls.length > 0 && iceConfig.turnSecret) {
+    ttl = iceConfig.turnTtlSeconds;
+    const username = `${Math.floor(Date.now() / 1000) + ttl}:${req.user.id}`;
+    const credential = createHmac('sha1', iceConfig.turnSecret).update(username).digest('base64');
+    iceServers.push({ urls: iceConfig.turnUrls, username, credential });
+  }
+
+  res.set('Cache-Control', 'no-store');
+  res.json({ iceServers, ttl });
+});
+
+// Running calls in the user's chats, so a late joiner can see and enter them.
+app.get('/api/calls/active', authenticateToken, async (req, res) => {
   try {
     const result = await pool.query(
-      'UPDATE calls SET ended_at = NOW(), status = \'ended\' WHERE id = $1 AND initiator_id = $2 RETURNING *',
+      `SELECT c.*,
+        COALESCE(
+          (SELECT json_agg(cp.user_id ORDER BY cp.joined_at) FROM call_participants cp
+           WHERE cp.call_id = c.id AND cp.status = 'joined'),
+          '[]'
+        ) as participants
+      FROM calls c
+      JOIN chat_members cm ON cm.chat_id = c.chat_id AND cm.user_id = $1
+      WHERE c.status = 'active'`,
+      [req.user.id]
+    );
+    res.json(result.rows);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Joining returns who is already there; the newcomer sends each of them an offer.
+app.post('/api/calls/:id/join', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  if (!UUID_PATTERN.test(id)) return res.status(404).json({ error: 'Call not found' });
+  try {
+    const call = await getActiveCall(id);
+    if (!call) return res.status(404).json({ error: 'Call not found' });
+
+    const access = await policy.authorize(call.chat_id, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    // Rejoining keeps the first join time, which is when the call was answered; a row left by
+    // declining only starts counting now.
+    await pool.query(
+      `INSERT INTO call_participants (call_id, user_id, status) VALUES ($1, $2, 'joined')
+       ON CONFLICT (call_id, user_id) DO UPDATE SET status = 'joined', left_at = NULL,
+         joined_at = CASE WHEN call_participants.status = 'declined' THEN NOW() ELSE call_participants.joined_at END`,
       [id, req.user.id]
     );
-    if (result.rows.length === 0) return res.status(404).json({ error: 'Call not found or unauthorized' });
+    if (req.user.id !== call.initiator_id) stopRinging(id);
+    const participantIds = await getCallParticipantIds(id);
 
-    const call = result.rows[0];
-    broadcastToChat(call.chat_id, { type: 'call_ended', payload: { callId: id } });
-    res.json(call);
+    broadcastToChat(call.chat_id, {
+      type: 'call_participant_joined',
+      payload: { callId: id, chatId: call.chat_id, userId: req.user.id, participants: participantIds },
+    });
+    res.json({ ...call, participants: participantIds });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Declining a direct call ends it; a group call only ends once every other member has declined.
+app.post('/api/calls/:id/decline', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  if (!UUID_PATTERN.test(id)) return res.status(404).json({ error: 'Call not found' });
+  try {
+    const call = await getActiveCall(id);
+    if (!call) return res.json({ success: true });
+    if (call.initiator_id === req.user.id) return res.status(400).json({ error: 'Cannot decline your own call' });
+
+    const access = await policy.authorize(call.chat_id, req.user.id);
+    if (!access.ok) return res.status(access.status).json({ error: access.error });
+
+    // Someone who already took part keeps that record.
+    await pool.query(
+      `INSERT INTO call_participants (call_id, user_id, status, left_at) VALUES ($1, $2, 'declined', NOW())
+       ON CONFLICT (call_id, user_id) DO NOTHING`,
+      [id, req.user.id]
+    );
+
+    const pending = await pool.query(
+      `SELECT COUNT(*)::int as count FROM chat_members cm
+       WHERE cm.chat_id = $1 AND cm.user_id <> $2
+         AND NOT EXISTS (SELECT 1 FROM call_participants cp WHERE cp.call_id = $3 AND cp.user_id = cm.user_id)`,
+      [call.chat_id, call.initiator_id, id]
+    );
+    if (call.chat_type === 'direct' || (pending.rows[0].count === 0 && !(await getCallAnsweredAt(call)))) {
+      await finishCall(call, 'rejected');
+    } else {
+      broadcastToChat(call.chat_id, { type: 'call_declined', payload: { callId: id, chatId: call.chat_id, userId: req.user.id } });
+    }
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/calls/:id/leave', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  if (!UUID_PATTERN.test(id)) return res.status(404).json({ error: 'Call not found' });
+  try {
+    const call = await getActiveCall(id);
+    if (!call) return res.json({ success: true });
+
+    await leaveCall(call, req.user.id);
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Ends the call for everyone; only whoever started it may.
+app.patch('/api/calls/:id/end', authenticateToken, async (req, res) => {
+  const { id } = req.params;
+  if (!UUID_PATTERN.test(id)) return res.status(404).json({ error: 'Call not found or unauthorized' });
+  try {
+    const call = await getActiveCall(id);
+    if (!call || call.initiator_id !== req.user.id) return res.status(404).json({ error: 'Call not found or unauthorized' });
+
+    res.json(await finishCall(call));
   } catch (e) {
+    console.error(e);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
 // Uploads
-app.post('/api/upload', authenticateToken, upload.single('file'), (req, res) => {
+const baseUrlOf = (req) => `${req.protocol}://${req.get('host')}`;
+
+// Every stored file is recorded with its uploader. Who else may read it follows from
+// the messages it is attached to (see canReadUpload); a thumbnail goes by its original.
+const recordUpload = (key, ownerId, parentKey = null) => pool.query(
+  'INSERT INTO uploads (key, owner_id, parent_key) VALUES ($1, $2, $3)',
+  [key, ownerId, parentKey]
+);
+
+// Images get their thumbnail stored next to them as `<key>-thumb.webp`.
+const describeUpload = async (req, { key, originalname, mimetype, source }) => {
+  const baseUrl = baseUrlOf(req);
+  await recordUpload(key, req.user.id);
+  let metadata = {};
+  if (THUMBNAIL_TYPES.includes(mimetype)) {
+    try {
+      const { thumbnail, ...image } = await processImageUpload(source);
+      const thumbnailKey = `${parse(key).name}-thumb.webp`;
+      await uploadStorage.putBuffer(thumbnailKey, thumbnail, 'image/webp');
+      await recordUpload(thumbnailKey, req.user.id, key);
+      metadata = { ...image, thumbnailUrl: `${baseUrl}/uploads/${thumbnailKey}` };
+    } catch (e) {
+      // An image sharp can't read is still a valid upload, just without a preview.
+      console.error('Failed to process image upload:', e.message);
+    }
+  }
+  return { url: `${baseUrl}/uploads/${key}`, filename: originalname, mimetype, ...metadata };
+};
+
+app.post('/api/upload', authenticateToken, upload.single('file'), async (req, res) => {
   if (!req.file) {
     return res.status(400).json({ error: 'No file uploaded' });
   }
-  const protocol = req.protocol;
-  const host = req.get('host');
-  const fileUrl = `${protocol}://${host}/uploads/${req.file.filename}`;
-  res.json({ url: fileUrl, filename: req.file.originalname, mimetype: req.file.mimetype });
+  const { filename: key, path, originalname, mimetype } = req.file;
+  try {
+    await uploadStorage.putFile(key, path, mimetype);
+    res.json(await describeUpload(req, { key, originalname, mimetype, source: path }));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  } finally {
+    fs.promises.rm(path, { force: true }).catch(() => {});
+  }
+});
+
+// Chunked uploads: the client opens a session, sends the parts in order and then
+// completes it. Each part is stored under its number, so resending one the server
+// already has is harmless, and after a dropped connection the client asks for the
+// session and carries on from `receivedParts`. The parts go straight to the storage
+// driver (an S3 multipart upload), so any API instance can take the next one.
+const totalPartsOf = (session) => Math.max(1, Math.ceil(Number(session.total_size) / session.chunk_size));
+const uploadSessionJson = (session) => ({
+  id: session.id,
+  chunkSize: session.chunk_size,
+  totalParts: totalPartsOf(session),
+  receivedParts: session.received_parts,
+});
+
+const findUploadSession = async (uploadId, userId) => {
+  if (!z.string().uuid().safeParse(uploadId).success) return null;
+  const result = await pool.query('SELECT * FROM upload_sessions WHERE id = $1 AND user_id = $2', [uploadId, userId]);
+  return result.rows[0] || null;
+};
+
+app.post('/api/uploads', authenticateToken, async (req, res) => {
+  try {
+    const { fileName, mimeType, size } = UploadInitSchema.parse(req.body);
+    const key = uploadFileName(fileName);
+    const multipartId = await uploadStorage.createMultipart(key, mimeType);
+    const result = await pool.query(
+      `INSERT INTO upload_sessions (user_id, file_name, mime_type, total_size, chunk_size, storage_key, multipart_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+      [req.user.id, fileName, mimeType, size, UPLOAD_CHUNK_SIZE, key, multipartId]
+    );
+    res.json(uploadSessionJson(result.rows[0]));
+  } catch (e) {
+    if (e instanceof z.ZodError) return res.status(400).json({ error: e.errors });
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/uploads/:id', authenticateToken, async (req, res) => {
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    res.json(uploadSessionJson(session));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.put('/api/uploads/:id/parts/:index', authenticateToken, express.raw({ type: 'application/octet-stream', limit: UPLOAD_CHUNK_SIZE }), async (req, res) => {
+  const index = Number(req.params.index);
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    if (session.completing) return res.status(409).json({ error: 'Upload is being completed' });
+    const totalParts = totalPartsOf(session);
+    if (!Number.isInteger(index) || index < 0 || index >= totalParts) {
+      return res.status(400).json({ error: 'Invalid part index' });
+    }
+    // Parts arrive in order, so there is never a gap to fill in.
+    if (index > session.received_parts) {
+      return res.status(409).json({ error: 'Parts must be uploaded in order', receivedParts: session.received_parts });
+    }
+    const expectedLength = Math.min(session.chunk_size, Number(session.total_size) - index * session.chunk_size);
+    if (!Buffer.isBuffer(req.body) || req.body.length !== expectedLength) {
+      return res.status(400).json({ error: `Part ${index} must be ${expectedLength} bytes` });
+    }
+
+    const etag = await uploadStorage.uploadPart(session.storage_key, session.multipart_id, index + 1, req.body);
+    const result = await pool.query(
+      `UPDATE upload_sessions
+       SET received_parts = GREATEST(received_parts, $2), part_etags[$2] = $3, updated_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [session.id, index + 1, etag]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Upload not found' });
+    res.json(uploadSessionJson(result.rows[0]));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/uploads/:id/complete', authenticateToken, async (req, res) => {
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    const totalParts = totalPartsOf(session);
+    if (session.received_parts < totalParts) {
+      return res.status(409).json({ error: 'Upload is incomplete', receivedParts: session.received_parts });
+    }
+    // Claiming the session first keeps a repeated complete from assembling the file twice.
+    const claimed = await pool.query(
+      'UPDATE upload_sessions SET completing = true, updated_at = NOW() WHERE id = $1 AND NOT completing RETURNING id',
+      [session.id]
+    );
+    if (claimed.rows.length === 0) return res.status(409).json({ error: 'Upload is being completed' });
+
+    const key = session.storage_key;
+    let upload;
+    try {
+      await uploadStorage.completeMultipart(key, session.multipart_id, totalParts, session.part_etags || []);
+      const source = THUMBNAIL_TYPES.includes(session.mime_type) ? await uploadStorage.read(key) : null;
+      upload = await describeUpload(req, { key, originalname: session.file_name, mimetype: session.mime_type, source });
+    } catch (e) {
+      // The parts cannot be assembled again, so a failed complete ends the upload.
+      await pool.query('DELETE FROM upload_sessions WHERE id = $1', [session.id]);
+      await uploadStorage.abortMultipart(key, session.multipart_id)
+        .catch((err) => console.error(`Failed to abort upload ${key}:`, err.message));
+      throw e;
+    }
+    await pool.query('DELETE FROM upload_sessions WHERE id = $1', [session.id]);
+    res.json(upload);
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/uploads/:id', authenticateToken, async (req, res) => {
+  try {
+    const session = await findUploadSession(req.params.id, req.user.id);
+    if (!session) return res.status(404).json({ error: 'Upload not found' });
+    if (session.completing) return res.status(409).json({ error: 'Upload is being completed' });
+    await pool.query('DELETE FROM upload_sessions WHERE id = $1', [session.id]);
+    await uploadStorage.abortMultipart(session.storage_key, session.multipart_id);
+    res.json({ success: true });
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
 });
 
+// A file is readable by its uploader, by anyone when it is an avatar, and by the
+// members of every chat with a message that carries it. Messages deleted for
+// everyone stop sharing their files, except with their sender.
+const canReadUpload = async (key, userId) => {
+  const result = await pool.query(
+    `SELECT 1 FROM uploads u
+     WHERE u.key = (SELECT COALESCE(parent_key, key) FROM uploads WHERE key = $1)
+       AND (u.owner_id = $2 OR u.is_public OR EXISTS (
+         SELECT 1 FROM message_files mf
+         JOIN messages m ON m.id = mf.message_id
+         JOIN chat_members cm ON cm.chat_id = m.chat_id AND cm.user_id = $2
+         WHERE mf.file_key = u.key AND (m.deleted_at IS NULL OR m.sender_id = $2)
+       ))`,
+    [key, userId]
+  );
+  return result.rows.length > 0;
+};
+
+// Stable file URLs. Without a signature they check access and redirect to a signed
+// URL that expires after STORAGE_URL_TTL_SECONDS; with the local driver that signed
+// URL comes back here and is served from disk.
+const SIGNED_REDIRECT_MAX_AGE = 60;
+
+const serveSignedUpload = (req, res, next) => {
+  const { key } = req.params;
+  if (!isValidStorageKey(key)) return res.status(404).json({ error: 'File not found' });
+  if (uploadStorage.driver !== 'local' || !(req.query.expires || req.query.signature)) return next();
+  if (!uploadStorage.verify(key, req.query.expires, req.query.signature)) {
+    return res.status(403).json({ error: 'Link expired or invalid' });
+  }
+  res.sendFile(uploadStorage.pathOf(key), { maxAge: '1h' }, (err) => {
+    if (err && !res.headersSent) res.status(err.status === 404 ? 404 : 500).json({ error: 'File not found' });
+  });
+};
+
+app.get('/uploads/:key', serveSignedUpload, authenticateToken, async (req, res) => {
+  const { key } = req.params;
+  try {
+    // Files the user may not see look exactly like files that don't exist.
+    if (!await canReadUpload(key, req.user.id)) return res.status(404).json({ error: 'File not found' });
+    res.set('Cache-Control', `private, max-age=${SIGNED_REDIRECT_MAX_AGE}`);
+    res.redirect(302, await uploadStorage.signedUrl(key, baseUrlOf(req)));
+  } catch (e) {
+    console.error(e);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Uploads that never made it into a message (or an avatar) are removed after a day,
+// together with chunked uploads that were abandoned halfway.
+const ORPHANED_UPLOAD_TTL = '24 hours';
+const UPLOAD_GC_INTERVAL_MS = 60 * 60 * 1000;
+
+const collectOrphanedUploads = async () => {
+  try {
+    const orphans = await pool.query(
+      `DELETE FROM uploads u
+       WHERE u.created_at < NOW() - $1::interval
+         AND NOT EXISTS (
+           SELECT 1 FROM uploads root
+           WHERE root.key = COALESCE(u.parent_key, u.key)
+             AND (root.is_public OR EXISTS (SELECT 1 FROM message_files mf WHERE mf.file_key = root.key))
+         )
+       RETURNING key`,
+      [ORPHANED_UPLOAD_TTL]
+    );
+    for (const { key } of orphans.rows) {
+      await uploadStorage.remove(key).catch((e) => console.error(`Failed to remove upload ${key}:`, e.message));
+    }
+
+    const abandoned = await pool.query(
+      'DELETE FROM upload_sessions WHERE updated_at < NOW() - $1::interval RETURNING storage_key, multipart_id',
+      [ORPHANED_UPLOAD_TTL]
+    );
+    for (const session of abandoned.rows) {
+      await uploadStorage.abortMultipart(session.storage_key, session.multipart_id)
+        .catch((e) => console.error(`Failed to abort upload ${session.storage_key}:`, e.message));
+    }
+  } catch (e) {
+    console.error('Upload cleanup failed:', e);
+  }
+};
+
+setInterval(collectOrphanedUploads, UPLOAD_GC_INTERVAL_MS);
+
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
@@ -1547,6 +3455,15 @@ const startServer = async () => {
         const initSql = fs.readFileSync(join(__dirname, 'init.sql'), 'utf8');
         await pool.query(initSql);
         console.log('Database schema initialized');
+        // Calls run over websocket connections, so none survive a restart.
+        await pool.query(
+          `UPDATE calls SET ended_at = NOW(), status = CASE WHEN EXISTS (
+             SELECT 1 FROM call_participants cp
+             WHERE cp.call_id = calls.id AND cp.user_id <> calls.initiator_id AND cp.status <> 'declined'
+           ) THEN 'ended' ELSE 'missed' END
+           WHERE status = 'active'`
+        );
+        await pool.query(`UPDATE call_participants SET status = 'left', left_at = NOW() WHERE status = 'joined'`);
       } catch (err) {
         console.error('Failed to initialize database schema:', err);
       }
@@ -20,6 +20,7 @@ CREATE TABLE IF NOT EXISTS chats (
   avatar TEXT,
   description TEXT,
   pinned_message_id UUID,
+  is_public BOOLEAN DEFAULT false,
   created_by UUID REFERENCES users(id),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -28,7 +29,7 @@ CREATE TABLE IF NOT EXISTS chats (
 CREATE TABLE IF NOT EXISTS chat_members (
   chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  role VARCHAR(20) DEFAULT 'member', -- admin, member
+  role VARCHAR(20) DEFAULT 'member', -- owner, admin, moderator, member, readonly
   muted BOOLEAN DEFAULT false,
   last_read_at TIMESTAMP WITH TIME ZONE,
   joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -47,6 +48,7 @@ CREATE TABLE IF NOT EXISTS messages (
   deleted_at TIMESTAMP WITH TIME ZONE,
   edited_at TIMESTAMP WITH TIME ZONE,
   reply_to UUID REFERENCES messages(id) ON DELETE SET NULL,
+  thread_root_id UUID REFERENCES messages(id) ON DELETE CASCADE,
   forwarded_from_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
   forwarded_from_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
   forwarded_from_chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
@@ -94,11 +96,39 @@ CREATE TABLE IF NOT EXISTS chat_invites (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
   code VARCHAR(32) UNIQUE NOT NULL,
-  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  name VARCHAR(100),
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL never expires
+  max_uses INTEGER, -- NULL is unlimited
+  use_count INTEGER DEFAULT 0,
+  requires_approval BOOLEAN DEFAULT false,
+  revoked_at TIMESTAMP WITH TIME ZONE,
   created_by UUID REFERENCES users(id),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+CREATE TABLE IF NOT EXISTS chat_join_requests (
+  chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  invite_id UUID REFERENCES chat_invites(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (chat_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS chat_bans (
+  chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  banned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (chat_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS message_views (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  viewed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id)
+);
+
 CREATE TABLE IF NOT EXISTS message_deletes (
   message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
@@ -115,3 +145,126 @@ UPDATE chats SET chat_type = CASE WHEN is_group THEN 'group' ELSE 'direct' END W
 ALTER TABLE messages ADD COLUMN IF NOT EXISTS forwarded_from_message_id UUID;
 ALTER TABLE messages ADD COLUMN IF NOT EXISTS forwarded_from_user_id UUID;
 ALTER TABLE messages ADD COLUMN IF NOT EXISTS forwarded_from_chat_id UUID;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thread_root_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_messages_thread_root ON messages(thread_root_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_chat_timeline ON messages(chat_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN (to_tsvector('simple', COALESCE(content, '') || ' ' || COALESCE(file_name, '')));
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS is_public BOOLEAN DEFAULT false;
+ALTER TABLE chat_invites ADD COLUMN IF NOT EXISTS name VARCHAR(100);
+ALTER TABLE chat_invites ADD COLUMN IF NOT EXISTS max_uses INTEGER;
+ALTER TABLE chat_invites ADD COLUMN IF NOT EXISTS use_count INTEGER DEFAULT 0;
+ALTER TABLE chat_invites ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN DEFAULT false;
+ALTER TABLE chat_invites ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE chat_invites ALTER COLUMN expires_at DROP NOT NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS client_message_id UUID;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_client_message_id ON messages(sender_id, client_message_id) WHERE client_message_id IS NOT NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS waveform SMALLINT[];
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  media_type VARCHAR(20) NOT NULL,
+  file_url TEXT NOT NULL,
+  file_name TEXT,
+  file_size BIGINT,
+  UNIQUE (message_id, position)
+);
+CREATE INDEX IF NOT EXISTS idx_messages_chat_media ON messages(chat_id, created_at, id) WHERE message_type IN ('image', 'video', 'album');
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS width INTEGER;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS height INTEGER;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS duration REAL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS blurhash VARCHAR(100);
+ALTER TABLE message_attachments ADD COLUMN IF NOT EXISTS width INTEGER;
+ALTER TABLE message_attachments ADD COLUMN IF NOT EXISTS height INTEGER;
+ALTER TABLE message_attachments ADD COLUMN IF NOT EXISTS duration REAL;
+ALTER TABLE message_attachments ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE message_attachments ADD COLUMN IF NOT EXISTS blurhash VARCHAR(100);
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  total_size BIGINT NOT NULL,
+  chunk_size INTEGER NOT NULL,
+  received_parts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS completing BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS storage_key TEXT;
+ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS multipart_id TEXT;
+ALTER TABLE upload_sessions ADD COLUMN IF NOT EXISTS part_etags TEXT[] DEFAULT '{}';
+CREATE TABLE IF NOT EXISTS uploads (
+  key TEXT PRIMARY KEY,
+  owner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  parent_key TEXT,
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE TABLE IF NOT EXISTS message_files (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  file_key TEXT NOT NULL,
+  PRIMARY KEY (message_id, file_key)
+);
+CREATE INDEX IF NOT EXISTS idx_message_files_file_key ON message_files(file_key);
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  name TEXT PRIMARY KEY,
+  applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+-- Files uploaded before downloads were access-controlled belong to whoever sent them
+-- first, are shared through the messages carrying them, and stay public as avatars.
+-- This reads the whole history, so it is recorded in schema_migrations and runs only once.
+WITH run AS (
+  INSERT INTO schema_migrations (name) VALUES ('backfill_uploads')
+  ON CONFLICT DO NOTHING
+  RETURNING name
+), refs AS (
+  SELECT m.id AS message_id, m.sender_id, m.created_at, substring(url FROM '/uploads/([^/?#]+)$') AS file_key
+  FROM run, messages m, unnest(ARRAY[m.file_url, m.thumbnail_url, CASE WHEN m.message_type <> 'text' THEN m.content END]) AS url
+  UNION ALL
+  SELECT m.id, m.sender_id, m.created_at, substring(url FROM '/uploads/([^/?#]+)$')
+  FROM run, message_attachments a
+  JOIN messages m ON m.id = a.message_id, unnest(ARRAY[a.file_url, a.thumbnail_url]) AS url
+), found AS (
+  SELECT file_key AS key, sender_id AS owner_id, false AS is_public, created_at FROM refs
+  UNION ALL
+  SELECT substring(avatar FROM '/uploads/([^/?#]+)$'), id, true, NULL FROM run, users WHERE avatar LIKE '%/uploads/%'
+  UNION ALL
+  SELECT substring(avatar FROM '/uploads/([^/?#]+)$'), created_by, true, NULL FROM run, chats WHERE avatar LIKE '%/uploads/%'
+), owners AS (
+  INSERT INTO uploads (key, owner_id, is_public)
+  SELECT key, (array_agg(owner_id ORDER BY is_public, created_at))[1], bool_or(is_public)
+  FROM found WHERE key IS NOT NULL
+  GROUP BY key
+  ON CONFLICT (key) DO NOTHING
+)
+INSERT INTO message_files (message_id, file_key)
+SELECT DISTINCT message_id, file_key FROM refs WHERE file_key IS NOT NULL
+ON CONFLICT DO NOTHING;
+CREATE TABLE IF NOT EXISTS link_previews (
+  url TEXT PRIMARY KEY,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  ok BOOLEAN NOT NULL DEFAULT false,
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS preview_url TEXT REFERENCES link_previews(url) ON DELETE SET NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS entities JSONB NOT NULL DEFAULT '[]';
+CREATE TABLE IF NOT EXISTS message_mentions (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  PRIMARY KEY (message_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user_id ON message_mentions(user_id);
+ALTER TABLE chat_members ADD COLUMN IF NOT EXISTS marked_unread BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS read_receipts BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE chat_members ADD COLUMN IF NOT EXISTS last_delivered_at TIMESTAMP WITH TIME ZONE;
+CREATE TABLE IF NOT EXISTS message_reads (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id)
+);
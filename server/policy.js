@@ -0,0 +1,100 @@
+// Chat permission policy. Every route and WebSocket handler that touches a chat
+// goes through `authorize` so role rules live in one place.
+
+export const ROLES = ['owner', 'admin', 'moderator', 'member', 'readonly'];
+
+export const CAPABILITIES = ['post', 'pin', 'invite', 'delete_messages', 'edit_info', 'start_call', 'manage_members'];
+
+const ROLE_CAPABILITIES = {
+  owner: ['post', 'pin', 'invite', 'delete_messages', 'edit_info', 'start_call', 'manage_members'],
+  admin: ['post', 'pin', 'invite', 'delete_messages', 'edit_info', 'start_call', 'manage_members'],
+  moderator: ['post', 'pin', 'invite', 'delete_messages', 'start_call', 'manage_members'],
+  member: ['post', 'invite', 'start_call'],
+  readonly: [],
+};
+
+// Direct chats have no hierarchy: both sides can talk, pin and call.
+const DIRECT_CAPABILITIES = ['post', 'pin', 'start_call'];
+
+// Channels broadcast from the top; only owners and admins post or call.
+const CHANNEL_BROADCASTERS = ['owner', 'admin'];
+
+const DENIED_MESSAGES = {
+  post: 'You cannot post in this chat',
+  pin: 'Not authorized to pin',
+  invite: 'Not authorized to invite members',
+  delete_messages: 'Not authorized to delete messages of other members',
+  edit_info: 'Not authorized to edit chat info',
+  start_call: 'Not authorized to start calls',
+  manage_members: 'Not authorized to manage members',
+};
+
+// Higher rank wins. Member management only ever flows downwards.
+const ROLE_RANK = { owner: 4, admin: 3, moderator: 2, member: 1, readonly: 0 };
+
+export const ADMIN_ROLES = ['owner', 'admin'];
+
+export const normalizeRole = (role) => (ROLES.includes(role) ? role : 'member');
+
+export const roleRank = (role) => ROLE_RANK[normalizeRole(role)];
+
+// Kick, ban or change the role of someone strictly below you.
+export const canManageMember = (actorRole, targetRole) => roleRank(actorRole) > roleRank(targetRole);
+
+// Roles below your own can be handed out; admins may also appoint fellow admins,
+// and only the owner can pass on ownership.
+export const canAssignRole = (actorRole, role) => {
+  const actor = normalizeRole(actorRole);
+  if (!ROLES.includes(role)) return false;
+  if (role === 'owner') return actor === 'owner';
+  if (role === 'admin') return ADMIN_ROLES.includes(actor);
+  return roleRank(actor) > roleRank(role);
+};
+
+export const getPermissions = (role, chatType = 'direct') => {
+  const normalized = normalizeRole(role);
+  let granted = chatType === 'direct' ? DIRECT_CAPABILITIES : ROLE_CAPABILITIES[normalized];
+  if (chatType === 'channel' && !CHANNEL_BROADCASTERS.includes(normalized)) {
+    granted = granted.filter((capability) => capability !== 'post' && capability !== 'start_call');
+  }
+  return CAPABILITIES.reduce((acc, capability) => {
+    acc[capability] = granted.includes(capability);
+    return acc;
+  }, {});
+};
+
+// Decorates a chat row (which carries the requesting user's `role`) with their permissions.
+export const withPermissions = (chat) => {
+  if (!chat) return chat;
+  return { ...chat, permissions: getPermissions(chat.role, chat.chat_type || (chat.is_group ? 'group' : 'direct')) };
+};
+
+export const createPolicy = (pool) => {
+  const getMembership = async (chatId, userId) => {
+    const result = await pool.query(
+      `SELECT cm.role, c.chat_type, c.is_group
+       FROM chat_members cm
+       JOIN chats c ON c.id = cm.chat_id
+       WHERE cm.chat_id = $1 AND cm.user_id = $2`,
+      [chatId, userId]
+    );
+    if (result.rows.length === 0) return null;
+    const { role, chat_type: chatType, is_group: isGroup } = result.rows[0];
+    const type = chatType || (isGroup ? 'group' : 'direct');
+    return { role: normalizeRole(role), chatType: type, permissions: getPermissions(role, type) };
+  };
+
+  // Resolves to `{ ok: true, membership }` or `{ ok: false, status, error }`.
+  // Without a capability only membership is required.
+  const authorize = async (chatId, userId, capability = null) => {
+    if (!chatId) return { ok: false, status: 400, error: 'chatId is required' };
+    const membership = await getMembership(chatId, userId);
+    if (!membership) return { ok: false, status: 403, error: 'Not a member of this chat' };
+    if (capability && !membership.permissions[capability]) {
+      return { ok: false, status: 403, error: DENIED_MESSAGES[capability] || 'Forbidden', membership };
+    }
+    return { ok: true, membership };
+  };
+
+  return { getMembership, authorize };
+};
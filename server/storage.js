@@ -0,0 +1,186 @@
+// Upload storage. Files live on local disk for single-instance setups and in an
+// S3-compatible bucket (AWS S3, MinIO, R2, ...) when several API instances have to
+// share them. Either way they are only read through signed URLs that expire.
+
+import fs from 'fs';
+import { join } from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+// Keys are file names generated by the server. Anything else in a URL is refused
+// before it gets near the disk or the bucket.
+export const isValidStorageKey = (key) => typeof key === 'string' && /^[A-Za-z0-9][\w-]*(\.[\w-]+)*$/.test(key);
+
+// Local files are served by the API itself at `/uploads/<key>?expires=&signature=`.
+const createLocalStorage = ({ dir, signingSecret, urlTtlSeconds }) => {
+  // Parts of unfinished chunked uploads. Keys never start with a dot, so these are never served.
+  const partsDir = (multipartId) => join(dir, '.partial', multipartId);
+  const sign = (key, expires) => createHmac('sha256', signingSecret).update(`${key}:${expires}`).digest('base64url');
+
+  return {
+    driver: 'local',
+    minPartSize: 0,
+
+    pathOf: (key) => join(dir, key),
+
+    async putFile(key, path) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.copyFile(path, join(dir, key));
+    },
+
+    async putBuffer(key, buffer) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(join(dir, key), buffer);
+    },
+
+    read: (key) => fs.promises.readFile(join(dir, key)),
+
+    remove: (key) => fs.promises.rm(join(dir, key), { force: true }),
+
+    async signedUrl(key, baseUrl) {
+      const expires = Math.floor(Date.now() / 1000) + urlTtlSeconds;
+      return `${baseUrl}/uploads/${key}?expires=${expires}&signature=${sign(key, expires)}`;
+    },
+
+    verify(key, expires, signature) {
+      if (typeof expires !== 'string' || typeof signature !== 'string') return false;
+      if (!(Number(expires) > Date.now() / 1000)) return false;
+      const expected = Buffer.from(sign(key, expires));
+      const given = Buffer.from(signature);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    },
+
+    async createMultipart(key) {
+      await fs.promises.mkdir(partsDir(key), { recursive: true });
+      return key;
+    },
+
+    async uploadPart(key, multipartId, partNumber, buffer) {
+      await fs.promises.writeFile(join(partsDir(multipartId), String(partNumber)), buffer);
+      return null;
+    },
+
+    async completeMultipart(key, multipartId, partCount) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const target = await fs.promises.open(join(dir, key), 'w');
+      try {
+        for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+          await target.write(await fs.promises.readFile(join(partsDir(multipartId), String(partNumber))));
+        }
+      } finally {
+        await target.close();
+      }
+      await fs.promises.rm(partsDir(multipartId), { recursive: true, force: true });
+    },
+
+    abortMultipart: (key, multipartId) => fs.promises.rm(partsDir(multipartId), { recursive: true, force: true }),
+  };
+};
+
+// S3 only accepts multipart parts of at least 5MB, except for the last one.
+const S3_MIN_PART_SIZE = 5 * 1024 * 1024;
+
+const createS3Storage = ({ bucket, region, endpoint, accessKeyId, secretAccessKey, forcePathStyle, urlTtlSeconds }) => {
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    // Not every S3-compatible service understands the newer default checksums.
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED',
+  });
+
+  return {
+    driver: 's3',
+    minPartSize: S3_MIN_PART_SIZE,
+
+    async putFile(key, path, contentType) {
+      const { size } = await fs.promises.stat(path);
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: fs.createReadStream(path),
+        ContentLength: size,
+        ContentType: contentType,
+      }));
+    },
+
+    async putBuffer(key, buffer, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: buffer, ContentType: contentType }));
+    },
+
+    async read(key) {
+      const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return Buffer.from(await result.Body.transformToByteArray());
+    },
+
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+
+    signedUrl: (key) => getSignedUrl(client, new GetObjectCommand({ Bucket: bucket, Key: key }), { expiresIn: urlTtlSeconds }),
+
+    async createMultipart(key, contentType) {
+      const result = await client.send(new CreateMultipartUploadCommand({ Bucket: bucket, Key: key, ContentType: contentType }));
+      return result.UploadId;
+    },
+
+    async uploadPart(key, multipartId, partNumber, buffer) {
+      const result = await client.send(new UploadPartCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: multipartId,
+        PartNumber: partNumber,
+        Body: buffer,
+      }));
+      return result.ETag;
+    },
+
+    async completeMultipart(key, multipartId, partCount, etags) {
+      await client.send(new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: multipartId,
+        MultipartUpload: { Parts: etags.slice(0, partCount).map((ETag, i) => ({ ETag, PartNumber: i + 1 })) },
+      }));
+    },
+
+    async abortMultipart(key, multipartId) {
+      await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId: multipartId }));
+    },
+  };
+};
+
+// STORAGE_DRIVER picks the backend: `local` (default) keeps files in `uploadsDir`,
+// `s3` needs S3_BUCKET and, for MinIO and other non-AWS services, S3_ENDPOINT with
+// S3_FORCE_PATH_STYLE=true.
+export const createStorage = (env, { uploadsDir, signingSecret }) => {
+  const urlTtlSeconds = Number(env.STORAGE_URL_TTL_SECONDS) || 900;
+  const driver = (env.STORAGE_DRIVER || 'local').toLowerCase();
+
+  if (driver === 's3') {
+    if (!env.S3_BUCKET) throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+    return createS3Storage({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || 'us-east-1',
+      endpoint: env.S3_ENDPOINT || undefined,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+      urlTtlSeconds,
+    });
+  }
+  if (driver !== 'local') throw new Error(`Unknown STORAGE_DRIVER "${env.STORAGE_DRIVER}"`);
+  return createLocalStorage({ dir: uploadsDir, signingSecret, urlTtlSeconds });
+};
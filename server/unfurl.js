@@ -0,0 +1,213 @@
+// Link previews. The first link in a text message is fetched server-side and its
+// Open Graph title, description and image are cached in `link_previews`.
+//
+// Fetching arbitrary URLs on behalf of users is an SSRF risk, so every connection
+// (redirects included) goes through a DNS lookup that refuses private, loopback and
+// other internal addresses, and the address that was checked is the one connected to.
+
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+// The tags we want are in <head>; there is no need to read whole pages.
+const MAX_HTML_BYTES = 512 * 1024;
+const PREVIEW_TTL = '24 hours';
+const FAILED_PREVIEW_TTL = '1 hour';
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const USER_AGENT = 'PhaseLinkPreview/1.0 (+https://github.com/phase-messenger)';
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/i;
+// Trailing punctuation and formatting markers usually belong to the sentence, not the link.
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}*_~|]+$/;
+
+export const extractFirstUrl = (text) => {
+  const match = typeof text === 'string' ? text.match(URL_PATTERN) : null;
+  if (!match) return null;
+  try {
+    const url = new URL(match[0].replace(TRAILING_PUNCTUATION, ''));
+    url.hash = '';
+    return url.toString();
+  } catch (e) {
+    return null;
+  }
+};
+
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv4'));
+// BlockList matches IPv4-mapped IPv6 addresses against the IPv4 rules. NAT64 ones are
+// refused outright since they can embed any IPv4 host.
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv6'));
+
+const isPublicAddress = (address) => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const createSafeLookup = (allowPrivateNetworks) => (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    const allowed = allowPrivateNetworks ? addresses : addresses.filter(({ address }) => isPublicAddress(address));
+    if (allowed.length === 0) {
+      return callback(Object.assign(new Error(`Refusing to connect to ${hostname}`), { code: 'EBLOCKED' }));
+    }
+    if (options.all) return callback(null, allowed);
+    callback(null, allowed[0].address, allowed[0].family);
+  });
+};
+
+// Resolves with the final URL and up to MAX_HTML_BYTES of the body, or rejects.
+const fetchHtml = (url, { lookup, allowPrivateNetworks }, redirectsLeft = MAX_REDIRECTS) => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') return reject(new Error('Unsupported protocol'));
+  // Literal IP hosts skip DNS, so they are checked here instead.
+  const literal = target.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && !allowPrivateNetworks && !isPublicAddress(literal)) return reject(new Error('Refusing to connect to a private address'));
+
+  const client = target.protocol === 'https:' ? https : http;
+  const req = client.get(target, {
+    lookup,
+    timeout: FETCH_TIMEOUT_MS,
+    headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+  }, (res) => {
+    const { statusCode = 0, headers } = res;
+    if (statusCode >= 300 && statusCode < 400 && headers.location) {
+      res.resume();
+      if (redirectsLeft === 0) return reject(new Error('Too many redirects'));
+      return fetchHtml(new URL(headers.location, target).toString(), { lookup, allowPrivateNetworks }, redirectsLeft - 1).then(resolve, reject);
+    }
+    if (statusCode !== 200 || !/^(text\/html|application\/xhtml\+xml)/i.test(headers['content-type'] || '')) {
+      res.resume();
+      return reject(new Error(`Unexpected response ${statusCode} ${headers['content-type'] || ''}`));
+    }
+
+    const chunks = [];
+    let size = 0;
+    res.on('data', (chunk) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= MAX_HTML_BYTES) res.destroy();
+    });
+    const finish = () => resolve({ url: target.toString(), html: Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES).toString('utf8') });
+    res.on('end', finish);
+    res.on('close', finish);
+    res.on('error', reject);
+  });
+  // The socket timeout only covers idle time, so the whole request gets a deadline too.
+  const deadline = setTimeout(() => req.destroy(new Error('Timed out')), FETCH_TIMEOUT_MS);
+  req.on('close', () => clearTimeout(deadline));
+  req.on('timeout', () => req.destroy(new Error('Timed out')));
+  req.on('error', reject);
+});
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+  if (code[0] === '#') {
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  }
+  return ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+const clean = (text, maxLength) => {
+  if (!text) return null;
+  const value = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!value) return null;
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+};
+
+const parseAttributes = (tag) => {
+  const attributes = {};
+  for (const [, name, , doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare;
+  }
+  return attributes;
+};
+
+const parsePreview = (html, pageUrl) => {
+  const meta = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content;
+  }
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+
+  let imageUrl = null;
+  const image = meta['og:image'] || meta['og:image:url'] || meta['twitter:image'];
+  if (image) {
+    try {
+      const resolved = new URL(decodeEntities(image), pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') imageUrl = resolved.toString();
+    } catch (e) {
+      // Unusable image URLs are dropped; the rest of the preview still works.
+    }
+  }
+
+  return {
+    title: clean(meta['og:title'] || meta['twitter:title'] || titleTag?.[1], MAX_TITLE_LENGTH),
+    description: clean(meta['og:description'] || meta['twitter:description'] || meta.description, MAX_DESCRIPTION_LENGTH),
+    imageUrl,
+    siteName: clean(meta['og:site_name'], MAX_TITLE_LENGTH) || new URL(pageUrl).hostname,
+  };
+};
+
+// LINK_PREVIEW_ALLOW_PRIVATE_NETWORKS=true lifts the address checks, for local
+// development and tests against a fixture server on localhost.
+export const createLinkPreviews = (pool, { allowPrivateNetworks = false } = {}) => {
+  const fetchOptions = { lookup: createSafeLookup(allowPrivateNetworks), allowPrivateNetworks };
+  // Several messages with the same link share one fetch.
+  const inFlight = new Map();
+
+  const fetchAndStore = async (url) => {
+    let preview = null;
+    try {
+      const page = await fetchHtml(url, fetchOptions);
+      const parsed = parsePreview(page.html, page.url);
+      if (parsed.title || parsed.description) preview = parsed;
+    } catch (e) {
+      // Unreachable or unsuitable links are cached as failures so they aren't retried
+      // for every message that repeats them.
+    }
+    const result = await pool.query(
+      `INSERT INTO link_previews (url, title, description, image_url, site_name, ok, fetched_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW())
+       ON CONFLICT (url) DO UPDATE SET title = $2, description = $3, image_url = $4, site_name = $5, ok = $6, fetched_at = NOW()
+       RETURNING *`,
+      [url, preview?.title ?? null, preview?.description ?? null, preview?.imageUrl ?? null, preview?.siteName ?? null, !!preview]
+    );
+    return result.rows[0];
+  };
+
+  // Resolves with the cached or freshly fetched `link_previews` row, or null when the
+  // link has no usable preview.
+  const getPreview = async (url) => {
+    const cached = await pool.query(
+      `SELECT * FROM link_previews
+       WHERE url = $1 AND fetched_at > NOW() - (CASE WHEN ok THEN $2 ELSE $3 END)::interval`,
+      [url, PREVIEW_TTL, FAILED_PREVIEW_TTL]
+    );
+    let row = cached.rows[0];
+    if (!row) {
+      if (!inFlight.has(url)) {
+        inFlight.set(url, fetchAndStore(url).finally(() => inFlight.delete(url)));
+      }
+      row = await inFlight.get(url);
+    }
+    return row.ok ? row : null;
+  };
+
+  return { getPreview };
+};
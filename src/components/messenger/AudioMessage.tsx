@@ -0,0 +1,179 @@
+import { Pause, Play } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import { formatDuration } from '@/lib/voice';
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+const PLAYBACK_RATE_KEY = 'voice-playback-rate';
+
+// Only one voice message plays at a time across the whole app.
+let activeAudio: HTMLAudioElement | null = null;
+
+const loadPlaybackRate = () => {
+  const stored = Number(localStorage.getItem(PLAYBACK_RATE_KEY));
+  return PLAYBACK_RATES.includes(stored) ? stored : 1;
+};
+
+interface AudioMessageProps {
+  src: string;
+  waveform?: number[] | null;
+  // Known length of the recording, shown until the audio itself has been loaded.
+  duration?: number | null;
+  autoPlay?: boolean;
+  onEnded?: () => void;
+  className?: string;
+}
+
+export const AudioMessage = ({ src, waveform, duration: knownDuration, autoPlay, onEnded, className }: AudioMessageProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const onEndedRef = useRef(onEnded);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(knownDuration ?? 0);
+  const [playbackRate, setPlaybackRate] = useState(loadPlaybackRate);
+
+  useEffect(() => {
+    onEndedRef.current = onEnded;
+  }, [onEnded]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    // MediaRecorder webm files carry no duration; seeking past the end makes the
+    // browser scan the file and report the real one.
+    let probingDuration = false;
+    const handleLoaded = () => {
+      if (Number.isFinite(audio.duration)) {
+        setDuration(audio.duration);
+      } else {
+        probingDuration = true;
+        audio.currentTime = Number.MAX_SAFE_INTEGER;
+      }
+    };
+    const handleDurationChange = () => {
+      if (!Number.isFinite(audio.duration)) return;
+      setDuration(audio.duration);
+      if (probingDuration) {
+        probingDuration = false;
+        audio.currentTime = 0;
+      }
+    };
+    const handleTimeUpdate = () => {
+      if (!probingDuration) setCurrentTime(audio.currentTime || 0);
+    };
+    const handlePlay = () => {
+      if (activeAudio && activeAudio !== audio) activeAudio.pause();
+      activeAudio = audio;
+      // The speed is a global preference and may have changed on another message.
+      setPlaybackRate(loadPlaybackRate());
+      setIsPlaying(true);
+    };
+    const handlePause = () => {
+      if (activeAudio === audio) activeAudio = null;
+      setIsPlaying(false);
+    };
+    const handleEnded = () => {
+      setCurrentTime(0);
+      onEndedRef.current?.();
+    };
+
+    audio.addEventListener('loadedmetadata', handleLoaded);
+    audio.addEventListener('durationchange', handleDurationChange);
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('ended', handleEnded);
+
+    return () => {
+      audio.removeEventListener('loadedmetadata', handleLoaded);
+      audio.removeEventListener('durationchange', handleDurationChange);
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('ended', handleEnded);
+      if (activeAudio === audio) {
+        audio.pause();
+        activeAudio = null;
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  useEffect(() => {
+    if (autoPlay) audioRef.current?.play().catch(() => {});
+  }, [autoPlay]);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => {});
+    } else {
+      audio.pause();
+    }
+  };
+
+  const cyclePlaybackRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length];
+    localStorage.setItem(PLAYBACK_RATE_KEY, String(next));
+    setPlaybackRate(next);
+  };
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    audio.currentTime = fraction * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const progress = duration > 0 ? Math.min((currentTime / duration) * 100, 100) : 0;
+
+  return (
+    <div className={cn('flex items-center gap-3 min-w-[240px] bg-white/5 p-3 rounded-xl border border-white/5', className)}>
+      <button
+        onClick={togglePlayback}
+        className="w-8 h-8 flex-shrink-0 rounded-full bg-primary/20 text-primary flex items-center justify-center hover:bg-primary/30 transition-colors"
+      >
+        {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      {waveform?.length ? (
+        <div className="flex-1 h-7 flex items-center gap-[2px] cursor-pointer" onClick={seek}>
+          {waveform.map((level, i) => (
+            <div
+              key={i}
+              className={cn(
+                'flex-1 rounded-full transition-colors',
+                ((i + 0.5) / waveform.length) * 100 <= progress ? 'bg-primary' : 'bg-white/25'
+              )}
+              style={{ height: `${Math.max(level, 8)}%` }}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 h-1.5 bg-white/10 rounded-full relative overflow-hidden cursor-pointer" onClick={seek}>
+          <div className="absolute inset-y-0 left-0 bg-primary" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+      <span className="text-[10px] text-white/50 min-w-[32px] text-right tabular-nums">
+        {formatDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+      </span>
+      <button
+        onClick={cyclePlaybackRate}
+        className="px-1.5 py-0.5 rounded-md bg-white/10 text-[10px] font-semibold text-white/70 hover:text-white hover:bg-white/15 transition-colors min-w-[32px]"
+        title="Playback speed"
+      >
+        {playbackRate}x
+      </button>
+      <audio ref={audioRef} src={src} preload="metadata" />
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState } from 'react';
+import { Phone, Mic, MicOff, Video, VideoOff, MonitorUp, MonitorOff, Settings2, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMessenger, type CallDeviceKind } from '@/context/MessengerContext';
+import { useAuth } from '@/context/AuthContext';
+import { AvatarImage } from '@/components/AvatarImage';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+type MediaElementWithSink = HTMLMediaElement & { setSinkId?: (sinkId: string) => Promise<void> };
+
+const canPickOutput = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+const canShareScreen = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+interface ParticipantTileProps {
+  name: string;
+  avatar: string | null;
+  stream?: MediaStream;
+  isLocal?: boolean;
+  showVideo?: boolean;
+  isScreen?: boolean;
+  isMuted?: boolean;
+  audioOutputId?: string;
+}
+
+const ParticipantTile = ({ name, avatar, stream, isLocal, showVideo: wantsVideo, isScreen, isMuted, audioOutputId }: ParticipantTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const showVideo = !!wantsVideo && !!stream && stream.getVideoTracks().length > 0;
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream ?? null;
+    if (audioRef.current) audioRef.current.srcObject = stream ?? null;
+  }, [stream, showVideo]);
+
+  useEffect(() => {
+    if (!audioOutputId || isLocal) return;
+    [videoRef.current, audioRef.current].forEach((element) => {
+      (element as MediaElementWithSink | null)?.setSinkId?.(audioOutputId).catch(() => {});
+    });
+  }, [audioOutputId, isLocal, showVideo]);
+
+  return (
+    <div className="relative rounded-3xl overflow-hidden bg-white/5 border border-white/10 flex items-center justify-center min-h-[160px]">
+      {showVideo ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted={isLocal}
+          className={cn('absolute inset-0 w-full h-full', isScreen ? 'object-contain bg-black' : 'object-cover', isLocal && !isScreen && '-scale-x-100')}
+        />
+      ) : (
+        <div className="w-24 h-24 rounded-full overflow-hidden border-4 border-white/10 p-1">
+          <AvatarImage
+            src={avatar}
+            alt={name}
+            className="w-full h-full rounded-full"
+            fallback={(
+              <div className="w-full h-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center rounded-full">
+                <span className="text-white text-3xl font-bold">{name.charAt(0).toUpperCase()}</span>
+              </div>
+            )}
+          />
+        </div>
+      )}
+      {/* Video elements carry the sound themselves; our own is never played back. */}
+      {!showVideo && !isLocal && stream && <audio ref={audioRef} autoPlay className="hidden" />}
+      <div className="absolute bottom-3 left-3 flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/50 backdrop-blur text-xs font-semibold text-white">
+        {isMuted && <MicOff size={12} className="text-red-400" />}
+        {isLocal ? 'You' : name}
+        {isScreen && <span className="text-white/50">· Screen</span>}
+        {!isLocal && !stream && <span className="text-white/50">Connecting...</span>}
+      </div>
+    </div>
+  );
+};
+
+const DEVICE_SECTIONS: { kind: MediaDeviceKind; label: string }[] = [
+  { kind: 'audioinput', label: 'Microphone' },
+  { kind: 'videoinput', label: 'Camera' },
+  { kind: 'audiooutput', label: 'Speaker' },
+];
+
+interface CallDevicePickerProps {
+  audioOutputId?: string;
+  onAudioOutputChange: (deviceId: string) => void;
+}
+
+const CallDevicePicker = ({ audioOutputId, onAudioOutputChange }: CallDevicePickerProps) => {
+  const { callDevices, switchCallDevice, localStream } = useMessenger();
+  const [isOpen, setIsOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Labels are only filled in once the page has media permission, which it has during a call.
+  useEffect(() => {
+    if (!isOpen) return;
+    navigator.mediaDevices.enumerateDevices().then(setDevices).catch(() => setDevices([]));
+  }, [isOpen]);
+
+  // Without an explicit choice, the device in use is the one the current track came from.
+  const selectedId = (kind: MediaDeviceKind) => {
+    if (kind === 'audiooutput') return audioOutputId || 'default';
+    if (callDevices[kind]) return callDevices[kind];
+    const track = kind === 'audioinput' ? localStream?.getAudioTracks()[0] : localStream?.getVideoTracks()[0];
+    return track?.getSettings().deviceId;
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button className="w-14 h-14 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center text-white transition-all" title="Devices">
+          <Settings2 size={22} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="w-72 bg-[#1a1a24] border-white/10 backdrop-blur-xl p-2 rounded-2xl shadow-2xl">
+        {DEVICE_SECTIONS.filter(({ kind }) => kind !== 'audiooutput' || canPickOutput).map(({ kind, label }) => {
+          const options = devices.filter(device => device.kind === kind && device.deviceId);
+          return (
+            <div key={kind} className="mb-2 last:mb-0">
+              <p className="px-2 py-1 text-[10px] font-semibold uppercase tracking-wider text-white/30">{label}</p>
+              {options.map((device, index) => (
+                <button
+                  key={device.deviceId}
+                  onClick={() => {
+                    if (kind === 'audiooutput') onAudioOutputChange(device.deviceId);
+                    else switchCallDevice(kind as CallDeviceKind, device.deviceId);
+                  }}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 rounded-xl text-left text-xs text-white/70 hover:bg-white/5 transition-colors"
+                >
+                  <span className="flex-1 truncate">{device.label || `${label} ${index + 1}`}</span>
+                  {selectedId(kind) === device.deviceId && <Check size={14} className="text-primary shrink-0" />}
+                </button>
+              ))}
+              {options.length === 0 && <p className="px-2 py-1.5 text-xs text-white/30">None found</p>}
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const controlClass = (active: boolean) => cn(
+  'w-14 h-14 rounded-full flex items-center justify-center transition-all',
+  active ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-white text-black hover:bg-white/90'
+);
+
+export const CallOverlay = () => {
+  const { user } = useAuth();
+  const {
+    activeChat,
+    callStatus,
+    localStream,
+    screenStream,
+    remoteStreams,
+    callMedia,
+    remoteCallMedia,
+    joinCall,
+    endCall,
+    toggleMute,
+    toggleCamera,
+    toggleScreenShare,
+    getChatDisplayName,
+    getChatAvatar,
+  } = useMessenger();
+  const [audioOutputId, setAudioOutputId] = useState<string>();
+
+  if (!activeChat || !callStatus.isActive || callStatus.chatId !== activeChat.id) return null;
+
+  const displayName = getChatDisplayName(activeChat);
+  const displayAvatar = getChatAvatar(activeChat);
+  const findMember = (userId: string) => activeChat.members.find(m => m.id === userId);
+  const others = callStatus.participants.filter(id => id !== user?.id);
+  const caller = callStatus.callerId ? findMember(callStatus.callerId) : undefined;
+  const tileCount = others.length + 1;
+
+  if (callStatus.isIncoming) {
+    return (
+      <div className="absolute inset-0 z-50 bg-background/95 backdrop-blur-xl flex flex-col items-center justify-center animate-in fade-in duration-500">
+        <div className="relative mb-12">
+          <div className="absolute inset-0 bg-primary/20 blur-[100px] animate-pulse rounded-full" />
+          <div className="relative w-40 h-40 rounded-full overflow-hidden border-4 border-white/10 p-1">
+            <AvatarImage
+              src={displayAvatar}
+              alt={displayName}
+              className="w-full h-full rounded-full"
+              fallback={(
+                <div className="w-full h-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center rounded-full">
+                  <span className="text-white text-5xl font-bold">{displayName.charAt(0).toUpperCase()}</span>
+                </div>
+              )}
+            />
+          </div>
+        </div>
+
+        <div className="relative z-10 flex flex-col items-center">
+          <h2 className="text-3xl font-bold text-white mb-2">{displayName}</h2>
+          {caller && activeChat.chat_type !== 'direct' && (
+            <p className="text-white/40 mb-2 text-sm">{caller.username} started a {callStatus.isVideo ? 'video ' : ''}call</p>
+          )}
+          <p className="text-primary animate-pulse mb-12 text-lg font-medium tracking-wide">INCOMING CALL...</p>
+
+          <div className="flex items-center gap-12">
+            <button onClick={() => joinCall()} className="w-20 h-20 rounded-full bg-green-500 hover:bg-green-600 flex items-center justify-center text-white transition-all hover:scale-110 hover:shadow-[0_0_40px_rgba(34,197,94,0.4)]">
+              <Phone size={36} />
+            </button>
+            <button onClick={endCall} className="w-20 h-20 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center text-white transition-all hover:scale-110 hover:shadow-[0_0_40px_rgba(239,68,68,0.4)]">
+              <Phone size={36} className="rotate-[135deg]" />
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 z-50 bg-background/95 backdrop-blur-xl flex flex-col p-4 md:p-8 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">{displayName}</h2>
+          <p className="text-primary text-xs font-medium tracking-wide">
+            {others.length === 0 ? 'CALLING...' : `IN CALL · ${tileCount} PARTICIPANTS`}
+          </p>
+        </div>
+      </div>
+
+      <div
+        className={cn(
+          'flex-1 grid gap-3 auto-rows-fr min-h-0',
+          tileCount === 1 && 'grid-cols-1',
+          (tileCount === 2 || tileCount === 4) && 'grid-cols-1 md:grid-cols-2',
+          (tileCount === 3 || tileCount > 4) && 'grid-cols-2 md:grid-cols-3'
+        )}
+      >
+        <ParticipantTile
+          name={user?.username || 'You'}
+          avatar={user?.avatar || null}
+          stream={(callMedia.screen ? screenStream : localStream) ?? undefined}
+          showVideo={callMedia.video || callMedia.screen}
+          isScreen={callMedia.screen}
+          isMuted={!callMedia.audio}
+          isLocal
+        />
+        {others.map(userId => {
+          const member = findMember(userId);
+          // Until a participant reports their state, assume they joined the way the call started.
+          const media = remoteCallMedia[userId];
+          return (
+            <ParticipantTile
+              key={userId}
+              name={member?.username || 'Unknown'}
+              avatar={member?.avatar || null}
+              stream={remoteStreams[userId]}
+              showVideo={media ? media.video || media.screen : callStatus.isVideo}
+              isScreen={media?.screen}
+              isMuted={media ? !media.audio : false}
+              audioOutputId={audioOutputId}
+            />
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-center gap-4 pt-6">
+        <button onClick={toggleMute} className={controlClass(callMedia.audio)} title={callMedia.audio ? 'Mute' : 'Unmute'}>
+          {callMedia.audio ? <Mic size={22} /> : <MicOff size={22} />}
+        </button>
+        <button onClick={toggleCamera} className={controlClass(callMedia.video)} title={callMedia.video ? 'Turn camera off' : 'Turn camera on'}>
+          {callMedia.video ? <Video size={22} /> : <VideoOff size={22} />}
+        </button>
+        {canShareScreen && (
+          <button
+            onClick={toggleScreenShare}
+            className={cn(controlClass(true), callMedia.screen && 'bg-primary text-primary-foreground hover:bg-primary/90')}
+            title={callMedia.screen ? 'Stop sharing' : 'Share screen'}
+          >
+            {callMedia.screen ? <MonitorOff size={22} /> : <MonitorUp size={22} />}
+          </button>
+        )}
+        <CallDevicePicker audioOutputId={audioOutputId} onAudioOutputChange={setAudioOutputId} />
+        <button onClick={endCall} className="w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center text-white transition-all hover:scale-110 hover:shadow-[0_0_40px_rgba(239,68,68,0.4)]">
+          <Phone size={28} className="rotate-[135deg]" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useMessenger, type CallLogEntry } from '@/context/MessengerContext';
+import { Phone, PhoneIncoming, PhoneOutgoing, PhoneMissed, Video, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { AvatarImage } from '@/components/AvatarImage';
+
+type CallFilter = 'all' | 'missed';
+
+const isMissedByMe = (call: CallLogEntry) => call.direction === 'incoming' && call.status !== 'active' && !call.participant_status;
+
+const formatCallDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = String(seconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+const describeCall = (call: CallLogEntry) => {
+    if (call.status === 'active') return 'Ongoing';
+    if (call.direction === 'outgoing') {
+        if (call.status === 'missed') return 'No answer';
+        if (call.status === 'rejected') return 'Declined';
+        return 'Outgoing';
+    }
+    if (call.participant_status === 'declined') return 'Declined';
+    return isMissedByMe(call) ? 'Missed' : 'Incoming';
+};
+
+export const CallsView = () => {
+    const { chats, activeCalls, fetchCallHistory, getChatDisplayName, getChatAvatar, setActiveChat, setActiveView, startCall } = useMessenger();
+    const [calls, setCalls] = useState<CallLogEntry[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [filter, setFilter] = useState<CallFilter>('all');
+
+    const loadCalls = useCallback(async (before?: string) => {
+        setIsLoading(true);
+        try {
+            const page = await fetchCallHistory(before);
+            setCalls(prev => before ? [...prev, ...page.calls] : page.calls);
+            setHasMore(page.hasMore);
+        } catch (e) {
+            console.error('Failed to fetch call history:', e);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [fetchCallHistory]);
+
+    // A call starting or finishing anywhere changes the log.
+    const runningCallIds = Object.values(activeCalls).map(call => call.id).sort().join();
+    useEffect(() => {
+        loadCalls();
+    }, [loadCalls, runningCallIds]);
+
+    const visibleCalls = filter === 'missed' ? calls.filter(isMissedByMe) : calls;
+
+    const handleCallBack = (chatId: string, isVideo: boolean) => {
+        const chat = chats.find(c => c.id === chatId);
+        if (!chat) return;
+        setActiveView('home');
+        setActiveChat(chat);
+        startCall(chat.id, isVideo);
+    };
+
+    return (
+        <div className="flex-1 flex flex-col h-full bg-white/[0.02] backdrop-blur-2xl">
+            <div className="p-6 border-b border-white/10 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-primary/20 rounded-lg text-primary">
+                        <Phone size={24} />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold">Calls</h2>
+                        <p className="text-sm text-muted-foreground">
+                            {filter === 'missed' ? `${visibleCalls.length} missed calls` : `${visibleCalls.length} calls`}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-1.5">
+                    {(['all', 'missed'] as CallFilter[]).map((option) => (
+                        <button
+                            key={option}
+                            onClick={() => setFilter(option)}
+                            className={cn(
+                                'px-3 py-1 text-[11px] font-semibold rounded-full border transition-all',
+                                filter === option ? 'bg-primary/15 border-primary/30 text-primary' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'
+                            )}
+                        >
+                            {option === 'all' ? 'All' : 'Missed'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6">
+                {visibleCalls.length === 0 && !isLoading ? (
+                    <div className="h-full flex flex-col items-center justify-center text-center space-y-5">
+                        <div className="relative w-28 h-28">
+                            <div className="absolute inset-0 rounded-full bg-primary/10 blur-2xl" />
+                            <div className="absolute -top-2 left-2 w-10 h-10 rounded-full bg-white/5" />
+                            <div className="absolute bottom-2 right-2 w-6 h-6 rounded-full bg-white/5" />
+                            <div className="relative w-full h-full rounded-3xl bg-white/5 border border-white/10 flex items-center justify-center">
+                                <Phone size={36} className="text-white/40" />
+                            </div>
+                        </div>
+                        <div>
+                            <h3 className="text-lg font-semibold">{filter === 'missed' ? 'No missed calls' : 'No calls yet'}</h3>
+                            <p className="text-white/40 text-sm max-w-[260px]">
+                                Voice and video calls from your chats will show up here.
+                            </p>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="grid gap-2 max-w-4xl mx-auto">
+                        {visibleCalls.map((call) => {
+                            const chat = chats.find(c => c.id === call.chat_id);
+                            const name = chat ? getChatDisplayName(chat) : 'Unknown chat';
+                            const avatar = chat ? getChatAvatar(chat) : null;
+                            const missed = isMissedByMe(call);
+                            const DirectionIcon = missed ? PhoneMissed : call.direction === 'incoming' ? PhoneIncoming : PhoneOutgoing;
+                            const canCall = !!chat?.permissions?.start_call;
+                            return (
+                                <div key={call.id} className="messenger-card group animate-in fade-in slide-in-from-bottom-2 duration-300">
+                                    <div className="flex items-center gap-4 p-4">
+                                        <div className="w-10 h-10 rounded-full bg-primary/10 flex-shrink-0 flex items-center justify-center overflow-hidden">
+                                            <AvatarImage
+                                                src={avatar}
+                                                alt={name}
+                                                className="w-full h-full rounded-full"
+                                                fallback={<span className="text-primary font-bold">{name.charAt(0).toUpperCase()}</span>}
+                                            />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className={cn('font-semibold text-sm truncate', missed && 'text-red-400')}>{name}</p>
+                                            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                                                <DirectionIcon size={12} className={missed ? 'text-red-400' : call.direction === 'incoming' ? 'text-green-400' : 'text-primary'} />
+                                                <span>{describeCall(call)}</span>
+                                                {call.is_video && <span>· Video</span>}
+                                                {chat?.chat_type !== 'direct' && call.direction === 'incoming' && <span className="truncate">· from {call.initiator_username}</span>}
+                                                {!!call.duration && <span>· {formatCallDuration(call.duration)}</span>}
+                                            </div>
+                                        </div>
+                                        <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                                            {format(new Date(call.started_at), 'MMM d, HH:mm')}
+                                        </span>
+                                        {canCall && (
+                                            <div className="flex items-center gap-1">
+                                                <button
+                                                    onClick={() => handleCallBack(call.chat_id, false)}
+                                                    className="p-2 rounded-xl text-muted-foreground hover:text-white hover:bg-white/5 transition-all"
+                                                    title="Voice call"
+                                                >
+                                                    <Phone size={18} />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleCallBack(call.chat_id, true)}
+                                                    className="p-2 rounded-xl text-muted-foreground hover:text-white hover:bg-white/5 transition-all"
+                                                    title="Video call"
+                                                >
+                                                    <Video size={18} />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        {isLoading && (
+                            <div className="flex justify-center py-4">
+                                <Loader2 size={20} className="animate-spin text-muted-foreground" />
+                            </div>
+                        )}
+                        {hasMore && !isLoading && (
+                            <button
+                                onClick={() => loadCalls(calls[calls.length - 1]?.started_at)}
+                                className="py-2 text-xs font-semibold text-primary hover:text-primary/80 transition-colors"
+                            >
+                                Load more
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
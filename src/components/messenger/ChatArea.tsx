@@ -1,18 +1,33 @@
-import { Phone, Video, MoreHorizontal, Smile, Paperclip, Send, Mic, Pause, Play, AtSign, Loader2, Copy, Square, Trash2, Pencil, X, Bookmark, CornerUpLeft, ArrowLeft, Check, CheckCheck, Forward } from 'lucide-react';
-import { useState, useRef, useEffect } from 'react';
-import { useMessenger } from '@/context/MessengerContext';
+import { Phone, Video, MoreHorizontal, Smile, Type, Paperclip, Send, Mic, Pause, Play, Maximize2, AtSign, Loader2, Copy, Square, Trash2, Pencil, X, Bookmark, CornerUpLeft, ArrowLeft, Check, CheckCheck, Forward, MessageSquare, Eye, CalendarDays, ArrowDown, Clock, AlertCircle, RotateCw } from 'lucide-react';
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, Fragment } from 'react';
+import { useMessenger, type MessageAttachment, type MediaMetadata, type LinkPreview, type MessageEntity } from '@/context/MessengerContext';
 import { useAuth } from '@/context/AuthContext';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { api } from '@/lib/api';
+import { uploadMedia, mediaMetadataOf } from '@/lib/media';
+import { createTaskQueue, isAbortError } from '@/lib/uploads';
+import { createClientMessageId } from '@/lib/outbox';
+import { stripMarkup, applyFormat, formatForShortcut, type MarkupFormat } from '@/lib/markup';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuSeparator, ContextMenuTrigger } from '@/components/ui/context-menu';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { AvatarImage } from '@/components/AvatarImage';
+import { CallOverlay } from './CallOverlay';
+import { AudioMessage } from './AudioMessage';
+import { VoiceRecorder } from './VoiceRecorder';
+import { MediaViewer } from './MediaViewer';
+import { MediaThumbnail, BlurhashCanvas } from './MediaThumbnail';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { MessageMarkup } from './MessageMarkup';
+import { FormattingToolbar } from './FormattingToolbar';
+import { MentionSuggestions } from './MentionSuggestions';
+import { SeenByPopover } from './SeenByPopover';
 
 interface MessageBubbleProps {
-  message: {
+  message: MediaMetadata & {
     id: string;
     content: string;
     created_at: string;
@@ -21,90 +36,63 @@ interface MessageBubbleProps {
     edited_at?: string | null;
     reply_to?: string | null;
     reply?: { id: string; content: string; sender_id: string; sender_username: string } | null;
+    reply_count?: number;
+    view_count?: number;
     forwarded_from?: { message_id: string; chat_id: string; chat_name: string | null; sender_id: string; sender_username: string | null } | null;
     sender?: { id: string; username: string; avatar: string | null };
     reactions?: { emoji: string; user_id: string; username: string }[];
     is_saved?: boolean;
     file_url?: string;
     file_name?: string;
+    waveform?: number[] | null;
+    attachments?: MessageAttachment[];
+    link_preview?: LinkPreview | null;
+    entities?: MessageEntity[];
+    delivery_status?: 'pending' | 'failed';
   };
   isOwn: boolean;
   canDeleteForAll: boolean;
-  readStatus?: string | null;
+  canPin: boolean;
+  readStatus?: ReadStatus | null;
   isPinned?: boolean;
+  isHighlighted?: boolean;
+  showViews?: boolean;
   onEdit: (messageId: string, content: string) => void;
   onDeleteForMe: (messageId: string) => void;
   onDeleteForAll: (messageId: string) => void;
   onReply: (messageId: string, content: string, senderName: string) => void;
   onForward: (messageId: string) => void;
   onTogglePin: (messageId: string, isPinned: boolean) => void;
+  onOpenThread: (messageId: string) => void;
+  autoPlayAudio?: boolean;
+  onAudioEnded?: (messageId: string) => void;
+  onOpenMedia: (itemId: string) => void;
 }
 
-const formatDuration = (seconds: number) => {
-  if (!Number.isFinite(seconds)) return '0:00';
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, '0')}`;
-};
-
-const AudioMessage = ({ src }: { src: string }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+type ReadState = 'sent' | 'delivered' | 'read';
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+interface ReadStatus {
+  state: ReadState;
+  label: string;
+  showSeenBy: boolean;
+}
 
-    const handleTimeUpdate = () => setCurrentTime(audio.currentTime || 0);
-    const handleLoaded = () => setDuration(audio.duration || 0);
-    const handleEnded = () => setIsPlaying(false);
+const READ_STATE_LABELS: Record<ReadState, string> = { sent: 'Sent', delivered: 'Delivered', read: 'Read' };
 
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('loadedmetadata', handleLoaded);
-    audio.addEventListener('ended', handleEnded);
+// Album tiles sit on a six-column grid: rows of three, with the remainder of the
+// count spread over the first row so the grid never ends ragged.
+const ALBUM_TILE_SPANS: Record<number, string> = { 6: 'col-span-6 aspect-[2/1]', 3: 'col-span-3 aspect-square', 2: 'col-span-2 aspect-square' };
 
-    return () => {
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('loadedmetadata', handleLoaded);
-      audio.removeEventListener('ended', handleEnded);
-    };
-  }, []);
-
-  const togglePlayback = async () => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    if (audio.paused) {
-      await audio.play();
-      setIsPlaying(true);
-    } else {
-      audio.pause();
-      setIsPlaying(false);
-    }
-  };
-
-  const progress = duration > 0 ? Math.min((currentTime / duration) * 100, 100) : 0;
-
-  return (
-    <div className="flex items-center gap-3 min-w-[240px] bg-white/5 p-3 rounded-xl border border-white/5">
-      <button
-        onClick={togglePlayback}
-        className="w-8 h-8 rounded-full bg-primary/20 text-primary flex items-center justify-center hover:bg-primary/30 transition-colors"
-      >
-        {isPlaying ? <Pause size={14} /> : <Play size={14} />}
-      </button>
-      <div className="flex-1 h-1.5 bg-white/10 rounded-full relative overflow-hidden">
-        <div className="absolute inset-y-0 left-0 bg-primary" style={{ width: `${progress}%` }} />
-      </div>
-      <span className="text-[10px] text-white/50 min-w-[32px] text-right">{formatDuration(duration)}</span>
-      <audio ref={audioRef} src={src} preload="metadata" />
-    </div>
-  );
+const albumTileClass = (index: number, count: number) => {
+  const leading = count % 3;
+  return ALBUM_TILE_SPANS[index < leading ? 6 / leading : 2];
 };
 
-const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned, onEdit, onDeleteForMe, onDeleteForAll, onReply, onForward, onTogglePin }: MessageBubbleProps) => {
-  const { addReaction, removeReaction, saveMessage, unsaveMessage } = useMessenger();
+const MessageBubble = ({ message, isOwn, canDeleteForAll, canPin, readStatus, isPinned, isHighlighted, showViews, onEdit, onDeleteForMe, onDeleteForAll, onReply, onForward, onTogglePin, onOpenThread, autoPlayAudio, onAudioEnded, onOpenMedia }: MessageBubbleProps) => {
+  const { addReaction, removeReaction, saveMessage, unsaveMessage, retryPendingMessage, discardPendingMessage } = useMessenger();
+  // Outbox messages are keyed by their client id until the server accepts them, so
+  // everything that acts on a message by id is hidden.
+  const isPending = !!message.delivery_status;
   const time = new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   const senderName = message.sender?.username || 'Unknown';
   const senderAvatar = message.sender?.avatar;
@@ -119,8 +107,61 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
   const renderContent = () => {
     if (message.message_type === 'image') {
       return (
-        <div className="rounded-xl overflow-hidden max-w-[320px] cursor-pointer ring-1 ring-white/10" onClick={() => window.open(message.content, '_blank')}>
-          <img src={message.content} alt="Shared image" className="w-full h-auto object-cover" />
+        <div className="rounded-xl overflow-hidden max-w-[320px] cursor-pointer ring-1 ring-white/10" onClick={() => !isPending && onOpenMedia(message.id)}>
+          <MediaThumbnail
+            item={{ ...message, media_type: 'image', file_url: message.file_url || message.content }}
+            reserveAspect
+            className={cn('max-h-[420px]', message.width && message.height && 'w-[320px] max-w-full')}
+          />
+        </div>
+      );
+    }
+    if (message.message_type === 'album') {
+      const attachments = message.attachments || [];
+      const media = attachments.filter(item => item.media_type !== 'file');
+      const files = attachments.filter(item => item.media_type === 'file');
+      return (
+        <div className="space-y-2 w-[320px] max-w-full">
+          {media.length > 0 && (
+            <div className="grid grid-cols-6 gap-1 rounded-xl overflow-hidden ring-1 ring-white/10">
+              {media.map((item, i) => (
+                <button
+                  key={item.id}
+                  onClick={() => !isPending && onOpenMedia(item.id)}
+                  className={cn('relative bg-white/5 overflow-hidden', albumTileClass(i, media.length))}
+                >
+                  <MediaThumbnail item={item} className="w-full h-full" />
+                  {item.media_type === 'video' && (
+                    <span className="absolute inset-0 flex items-center justify-center">
+                      <span className="w-9 h-9 rounded-full bg-black/50 flex items-center justify-center text-white">
+                        <Play size={16} />
+                      </span>
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          {files.map(item => (
+            <a
+              key={item.id}
+              href={item.file_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-3 p-2 group/file"
+            >
+              <div className="w-10 h-10 rounded-lg bg-white/10 flex items-center justify-center flex-shrink-0 group-hover/file:bg-primary/20 transition-colors">
+                <Paperclip size={18} className="text-white" />
+              </div>
+              <div className="flex flex-col overflow-hidden">
+                <span className="text-[13px] font-semibold truncate text-white">
+                  {item.file_name || item.file_url.split('/').pop() || 'File'}
+                </span>
+                <span className="text-[10px] text-white/50 uppercase tracking-wider font-bold">Download</span>
+              </div>
+            </a>
+          ))}
+          {message.content && <MessageMarkup content={message.content} entities={message.entities} className="message-text" />}
         </div>
       );
     }
@@ -143,15 +184,48 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
     if (message.message_type === 'video') {
       const src = message.file_url || message.content;
       return (
-        <div className="rounded-xl overflow-hidden max-w-[360px] ring-1 ring-white/10">
-          <video src={src} controls className="w-full h-auto" />
+        <div
+          className="relative rounded-xl overflow-hidden max-w-[360px] ring-1 ring-white/10 group/video"
+          style={{ aspectRatio: message.width && message.height ? message.width / message.height : undefined }}
+        >
+          {message.blurhash && <BlurhashCanvas hash={message.blurhash} className="absolute inset-0" />}
+          {/* With a poster to show there is no need to fetch any of the video up front. */}
+          <video
+            src={src}
+            controls
+            poster={message.thumbnail_url || undefined}
+            preload={message.thumbnail_url ? 'none' : 'metadata'}
+            className="relative w-full h-auto max-h-full"
+          />
+          {!isPending && (
+            <button
+              onClick={() => onOpenMedia(message.id)}
+              className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/50 text-white opacity-0 group-hover/video:opacity-100 transition-opacity"
+              title="Open in viewer"
+            >
+              <Maximize2 size={14} />
+            </button>
+          )}
         </div>
       );
     }
     if (message.message_type === 'audio') {
-      return <AudioMessage src={message.file_url || message.content} />;
+      return (
+        <AudioMessage
+          src={message.file_url || message.content}
+          waveform={message.waveform}
+          duration={message.duration}
+          autoPlay={autoPlayAudio}
+          onEnded={() => onAudioEnded?.(message.id)}
+        />
+      );
     }
-    return <p className="message-text">{message.content}</p>;
+    return (
+      <>
+        <MessageMarkup content={message.content} entities={message.entities} className="message-text" />
+        {message.link_preview && <LinkPreviewCard preview={message.link_preview} />}
+      </>
+    );
   };
 
   const handleCopy = () => {
@@ -176,12 +250,13 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
 
   return (
     <ContextMenu>
-      <ContextMenuTrigger asChild>
+      <ContextMenuTrigger asChild disabled={isPending}>
         <div
           id={`message-${message.id}`}
           className={cn(
-            'flex mb-3 group/message',
-            isOwn ? 'justify-end' : 'justify-start'
+            'flex mb-3 group/message rounded-2xl transition-colors duration-700',
+            isOwn ? 'justify-end' : 'justify-start',
+            isHighlighted && 'bg-primary/10'
           )}
         >
           <div className={cn(
@@ -210,12 +285,19 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
                 {!isOwn && <span className="text-[12px] font-semibold text-white/90">{senderName}</span>}
                 <span className="text-[9px] text-white/20">{time}</span>
                 {message.edited_at && <span className="text-[9px] text-white/20">edited</span>}
+                {showViews && (
+                  <span className="flex items-center gap-0.5 text-[9px] text-white/20">
+                    <Eye size={10} />
+                    {message.view_count ?? 0}
+                  </span>
+                )}
               </div>
 
               <div className={cn(
                 'message-bubble',
                 isOwn ? 'message-bubble-mine' : 'message-bubble-other',
-                message.message_type === 'image' && 'p-1 bg-transparent border-none'
+                message.message_type === 'image' && 'p-1 bg-transparent border-none',
+                isPending && 'opacity-60'
               )}>
                 {message.forwarded_from && (
                   <div className="mb-2 text-[9px] text-white/40 uppercase tracking-[0.18em]">
@@ -228,7 +310,7 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
                       Replying to {message.reply.sender_username}
                     </div>
                     <div className="text-[12px] text-white/70 truncate">
-                      {message.reply.content}
+                      {stripMarkup(message.reply.content)}
                     </div>
                   </div>
                 )}
@@ -257,53 +339,99 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
                   </div>
                 )}
 
-                <div className={cn(
-                  'absolute top-1/2 -translate-y-1/2 opacity-0 group-hover/message:opacity-100 transition-all duration-200 flex gap-2 pointer-events-auto',
-                  isOwn ? '-left-28 flex-row-reverse' : '-right-28'
-                )}>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <button className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/5 text-white/50">
-                        <Smile size={14} />
-                      </button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-48 bg-black/90 border-white/10 backdrop-blur-xl p-2" side="top">
-                      <div className="flex gap-1 overflow-x-auto no-scrollbar">
-                        {QUICK_EMOJIS.map(emoji => (
-                          <button
-                            key={emoji}
-                            onClick={() => handleReactionClick(emoji)}
-                            className="w-7 h-7 flex items-center justify-center hover:bg-white/10 rounded transition-colors flex-shrink-0"
-                          >
-                            {emoji}
-                          </button>
-                        ))}
-                      </div>
-                    </PopoverContent>
-                  </Popover>
+                {!isPending && (
+                  <div className={cn(
+                    'absolute top-1/2 -translate-y-1/2 opacity-0 group-hover/message:opacity-100 transition-all duration-200 flex gap-2 pointer-events-auto',
+                    isOwn ? '-left-28 flex-row-reverse' : '-right-28'
+                  )}>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <button className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/5 text-white/50">
+                          <Smile size={14} />
+                        </button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-48 bg-black/90 border-white/10 backdrop-blur-xl p-2" side="top">
+                        <div className="flex gap-1 overflow-x-auto no-scrollbar">
+                          {QUICK_EMOJIS.map(emoji => (
+                            <button
+                              key={emoji}
+                              onClick={() => handleReactionClick(emoji)}
+                              className="w-7 h-7 flex items-center justify-center hover:bg-white/10 rounded transition-colors flex-shrink-0"
+                            >
+                              {emoji}
+                            </button>
+                          ))}
+                        </div>
+                      </PopoverContent>
+                    </Popover>
+                    <button
+                      onClick={() => onReply(message.id, message.content, senderName)}
+                      className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/5 text-white/50"
+                    >
+                      <CornerUpLeft size={14} />
+                    </button>
+                    <button
+                      onClick={handleSaveToggle}
+                      className={cn(
+                        'p-1.5 rounded-lg border border-white/5 transition-all',
+                        message.is_saved ? 'bg-primary/20 text-primary' : 'bg-white/5 hover:bg-white/10 text-white/50'
+                      )}
+                    >
+                      <Bookmark size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {message.delivery_status === 'pending' && (
+                <div className="flex items-center justify-end gap-1 px-1 mt-1 text-[10px] text-white/30">
+                  <Clock size={12} />
+                  <span>Sending...</span>
+                </div>
+              )}
+              {message.delivery_status === 'failed' && (
+                <div className="flex items-center justify-end gap-2 px-1 mt-1 text-[10px]">
+                  <span className="flex items-center gap-1 text-red-400">
+                    <AlertCircle size={12} />
+                    Not sent
+                  </span>
                   <button
-                    onClick={() => onReply(message.id, message.content, senderName)}
-                    className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/5 text-white/50"
+                    onClick={() => retryPendingMessage(message.id)}
+                    className="flex items-center gap-1 font-semibold text-primary hover:text-primary/80 transition-colors"
                   >
-                    <CornerUpLeft size={14} />
+                    <RotateCw size={11} />
+                    Retry
                   </button>
                   <button
-                    onClick={handleSaveToggle}
-                    className={cn(
-                      'p-1.5 rounded-lg border border-white/5 transition-all',
-                      message.is_saved ? 'bg-primary/20 text-primary' : 'bg-white/5 hover:bg-white/10 text-white/50'
-                    )}
+                    onClick={() => discardPendingMessage(message.id)}
+                    className="flex items-center gap-1 font-semibold text-white/40 hover:text-red-400 transition-colors"
                   >
-                    <Bookmark size={14} />
+                    <Trash2 size={11} />
+                    Delete
                   </button>
                 </div>
-              </div>
+              )}
+              {(message.reply_count ?? 0) > 0 && (
+                <button
+                  onClick={() => onOpenThread(message.id)}
+                  className={cn(
+                    'flex items-center gap-1.5 px-1 text-[11px] font-semibold text-primary hover:text-primary/80 transition-colors',
+                    message.reactions && message.reactions.length > 0 ? 'mt-5' : 'mt-1'
+                  )}
+                >
+                  <MessageSquare size={12} />
+                  {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+                </button>
+              )}
               {isOwn && readStatus && (
                 <div className="flex items-center justify-end gap-1 px-1 mt-1 text-[10px] text-white/30">
-                  {readStatus === 'Sent' && <Check size={12} className="text-white/40" />}
-                  {readStatus === 'Delivered' && <CheckCheck size={12} className="text-white/40" />}
-                  {readStatus === 'Read' && <CheckCheck size={12} className="text-primary" />}
-                  <span>{readStatus}</span>
+                  {readStatus.state === 'sent' && <Check size={12} className="text-white/40" />}
+                  {readStatus.state === 'delivered' && <CheckCheck size={12} className="text-white/40" />}
+                  {readStatus.state === 'read' && <CheckCheck size={12} className="text-primary" />}
+                  {readStatus.showSeenBy ? (
+                    <SeenByPopover messageId={message.id}>{readStatus.label}</SeenByPopover>
+                  ) : (
+                    <span>{readStatus.label}</span>
+                  )}
                 </div>
               )}
             </div>
@@ -319,14 +447,20 @@ const MessageBubble = ({ message, isOwn, canDeleteForAll, readStatus, isPinned,
           <Bookmark size={14} className="mr-2" />
           {message.is_saved ? 'Unsave' : 'Save'}
         </ContextMenuItem>
+        <ContextMenuItem onClick={() => onOpenThread(message.id)} className="cursor-pointer text-white/80">
+          <MessageSquare size={14} className="mr-2" />
+          Reply in thread
+        </ContextMenuItem>
         <ContextMenuItem onClick={() => onForward(message.id)} className="cursor-pointer text-white/80">
           <Forward size={14} className="mr-2" />
           Forward
         </ContextMenuItem>
-        <ContextMenuItem onClick={() => onTogglePin(message.id, !!isPinned)} className="cursor-pointer text-white/80">
-          <Bookmark size={14} className="mr-2" />
-          {isPinned ? 'Unpin' : 'Pin'}
-        </ContextMenuItem>
+        {canPin && (
+          <ContextMenuItem onClick={() => onTogglePin(message.id, !!isPinned)} className="cursor-pointer text-white/80">
+            <Bookmark size={14} className="mr-2" />
+            {isPinned ? 'Unpin' : 'Pin'}
+          </ContextMenuItem>
+        )}
         {isEditable && (
           <ContextMenuItem
             onClick={() => onEdit(message.id, message.content)}
@@ -367,6 +501,24 @@ const QUICK_EMOJIS = [
   '\u{1F64F}',
 ];
 
+// The server accepts at most this many files in one album message.
+const MAX_ALBUM_FILES = 10;
+
+// Files picked for the composer upload a couple at a time; the rest wait their turn.
+const MAX_PARALLEL_UPLOADS = 2;
+const uploadQueue = createTaskQueue(MAX_PARALLEL_UPLOADS);
+
+const MAX_MENTION_SUGGESTIONS = 6;
+
+interface QueuedUpload {
+  id: string;
+  chatId: string;
+  name: string;
+  size: number;
+  loaded: number;
+  controller: AbortController;
+}
+
 const PICKER_EMOJIS = [
   '\u{1F600}', '\u{1F603}', '\u{1F604}', '\u{1F601}', '\u{1F605}', '\u{1F602}',
   '\u{1F923}', '\u{1F60A}', '\u{1F60D}', '\u{1F618}', '\u{1F60E}', '\u{1F622}',
@@ -383,22 +535,31 @@ export const ChatArea = () => {
     activeChat,
     chats,
     messages,
+    pendingMessages,
     isLoadingMessages,
+    hasOlderMessages,
+    hasNewerMessages,
+    isLoadingMoreMessages,
+    scrollTargetId,
+    loadOlderMessages,
+    loadNewerMessages,
+    jumpToMessage,
+    jumpToDate,
+    jumpToLatest,
+    clearScrollTarget,
     sendMessage,
     forwardMessage,
     pinMessage,
-    openMessageContext,
+    openThread,
     getChatDisplayName,
     getChatAvatar,
     getOtherUser,
     typingUsers,
     callStatus,
-    localStream,
-    remoteStream,
+    activeCalls,
     sendTyping,
     sendStopTyping,
     startCall,
-    endCall,
     joinCall,
     muteChat,
     deleteMessages,
@@ -415,53 +576,135 @@ export const ChatArea = () => {
   const [messageText, setMessageText] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isFormattingOpen, setIsFormattingOpen] = useState(false);
+  // The `@name` being typed at the caret, while it could still become a mention.
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const [editingMessage, setEditingMessage] = useState<{ id: string; content: string } | null>(null);
   const [replyTo, setReplyTo] = useState<{ id: string; content: string; senderName: string } | null>(null);
   const [isForwardOpen, setIsForwardOpen] = useState(false);
   const [forwardQuery, setForwardQuery] = useState('');
   const [forwardMessageId, setForwardMessageId] = useState<string | null>(null);
   const [isForwarding, setIsForwarding] = useState(false);
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [autoPlayAudioId, setAutoPlayAudioId] = useState<string | null>(null);
+  const [viewerItemId, setViewerItemId] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<QueuedUpload[]>([]);
+  // Where the reader had got to when the chat opened. Taken once per chat, before
+  // opening it marks everything read, and kept until they reply.
+  const [unreadAnchor, setUnreadAnchor] = useState<{ chatId: string; readAt: number | null } | null>(null);
+  if (activeChat && unreadAnchor?.chatId !== activeChat.id) {
+    const lastReadAt = activeChat.members.find((m) => m.id === user?.id)?.last_read_at;
+    setUnreadAnchor({ chatId: activeChat.id, readAt: lastReadAt ? new Date(lastReadAt).getTime() : 0 });
+  }
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const prependScrollHeightRef = useRef<number | null>(null);
+  const isNearBottomRef = useRef(true);
+  const hasInitialScrollRef = useRef(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  // Where the caret goes once a formatting change has been rendered.
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
   const typingTimeoutRef = useRef<number | null>(null);
   const lastTypingRef = useRef<number>(0);
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteAudioRef = useRef<HTMLAudioElement>(null);
+
+  const chatUploads = uploads.filter(item => item.chatId === activeChat?.id);
+
+  // Unsent messages sit at the end of the live timeline, after everything the server has.
+  const timeline = hasNewerMessages
+    ? messages
+    : [...messages, ...pendingMessages.filter((m) => m.chat_id === activeChat?.id && !m.thread_root_id)];
+  const lastMessageId = timeline[timeline.length - 1]?.id;
+  const lastMessageIsOwn = timeline[timeline.length - 1]?.sender_id === user?.id;
+
+  const firstUnreadId = (() => {
+    const readAt = unreadAnchor?.chatId === activeChat?.id ? unreadAnchor?.readAt : null;
+    if (readAt === null || readAt === undefined) return null;
+    const index = timeline.findIndex((m) => (
+      m.sender_id !== user?.id && m.message_type !== 'system' && new Date(m.created_at).getTime() > readAt
+    ));
+    // When the first loaded message is already unread, the real start lies further back.
+    if (index === -1 || (index === 0 && hasOlderMessages)) return null;
+    return timeline[index].id;
+  })();
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    isNearBottomRef.current = true;
+    hasInitialScrollRef.current = false;
+    setIsRecording(false);
+    setAutoPlayAudioId(null);
+    setViewerItemId(null);
+  }, [activeChat?.id]);
+
+  // Keep the viewport anchored when older messages are prepended above it.
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || prependScrollHeightRef.current === null) return;
+    container.scrollTop += container.scrollHeight - prependScrollHeightRef.current;
+    prependScrollHeightRef.current = null;
   }, [messages]);
 
   useEffect(() => {
-    if (localVideoRef.current && localStream) {
-      localVideoRef.current.srcObject = localStream;
+    if (!scrollTargetId) return;
+    const el = document.getElementById(`message-${scrollTargetId}`);
+    if (!el) return;
+    el.scrollIntoView({ block: 'center' });
+    hasInitialScrollRef.current = true;
+    setHighlightedId(scrollTargetId);
+    clearScrollTarget();
+  }, [scrollTargetId, messages, clearScrollTarget]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = window.setTimeout(() => setHighlightedId(null), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Follow new messages only when the reader is already at the bottom of the live timeline.
+  useEffect(() => {
+    if (!lastMessageId || scrollTargetId || hasNewerMessages) return;
+    // Land on the newest message instantly when a chat opens; a smooth scroll from the
+    // top would pass the load-older threshold on the way down.
+    if (!hasInitialScrollRef.current) {
+      hasInitialScrollRef.current = true;
+      const divider = document.getElementById('unread-divider');
+      if (divider) divider.scrollIntoView({ block: 'start' });
+      else messagesEndRef.current?.scrollIntoView({ block: 'end' });
+      return;
     }
-  }, [localStream]);
+    if (isNearBottomRef.current || lastMessageIsOwn) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [lastMessageId, lastMessageIsOwn, scrollTargetId, hasNewerMessages]);
+
+  const handleMessagesScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    isNearBottomRef.current = distanceFromBottom < 120;
+    if (isLoadingMoreMessages || !hasInitialScrollRef.current) return;
+    if (container.scrollTop < 200 && hasOlderMessages) {
+      prependScrollHeightRef.current = container.scrollHeight;
+      loadOlderMessages();
+    } else if (distanceFromBottom < 200 && hasNewerMessages) {
+      loadNewerMessages();
+    }
+  };
 
   useEffect(() => {
     setEditingMessage(null);
     setMessageText('');
     setReplyTo(null);
+    setMentionQuery(null);
   }, [activeChat?.id]);
 
-  useEffect(() => {
-    if (remoteVideoRef.current && remoteStream) {
-      remoteVideoRef.current.srcObject = remoteStream;
-    }
-    if (remoteAudioRef.current && remoteStream) {
-      remoteAudioRef.current.srcObject = remoteStream;
-    }
-  }, [remoteStream]);
-
   const handleSend = async () => {
     if (!messageText.trim() || isSending) return;
-    if (activeChat?.chat_type === 'channel' && !['admin', 'owner'].includes(activeChat?.role || '')) {
-      toast.error('Only admins can post in channels');
+    if (!activeChat?.permissions?.post) {
+      toast.error('You cannot post in this chat');
       return;
     }
     setIsSending(true);
@@ -474,6 +717,7 @@ export const ChatArea = () => {
         await sendMessage(messageText, 'text', undefined, undefined, undefined, replyTo?.id);
         setMessageText('');
         setReplyTo(null);
+        setUnreadAnchor(prev => prev && { ...prev, readAt: null });
         if (activeChat) {
           sendStopTyping(activeChat.id);
         }
@@ -552,77 +796,170 @@ export const ChatArea = () => {
   }, [activeChat, sendStopTyping]);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !activeChat) return;
-    if (activeChat.chat_type === 'channel' && !['admin', 'owner'].includes(activeChat?.role || '')) {
-      toast.error('Only admins can post in channels');
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0 || !activeChat) return;
+    if (!activeChat.permissions?.post) {
+      toast.error('You cannot post in this chat');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+    if (files.length > MAX_ALBUM_FILES) {
+      toast.error(`You can send up to ${MAX_ALBUM_FILES} files at once`);
       if (fileInputRef.current) fileInputRef.current.value = '';
       return;
     }
 
+    const typeOf = (file: File): 'image' | 'video' | 'file' => file.type.startsWith('image/')
+      ? 'image'
+      : file.type.startsWith('video/')
+        ? 'video'
+        : 'file';
+    const batch: QueuedUpload[] = files.map(file => ({
+      id: createClientMessageId(),
+      chatId: activeChat.id,
+      name: file.name,
+      size: file.size,
+      loaded: 0,
+      controller: new AbortController(),
+    }));
+    const replyId = replyTo?.id;
+    setUploads(prev => [...prev, ...batch]);
+    setReplyTo(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    const results = await Promise.allSettled(files.map((file, i) => uploadQueue(() => uploadMedia(file, {
+      signal: batch[i].controller.signal,
+      onProgress: (loaded) => setUploads(prev => prev.map(item => item.id === batch[i].id ? { ...item, loaded } : item)),
+    })).finally(() => setUploads(prev => prev.filter(item => item.id !== batch[i].id)))));
+
+    // Whatever was cancelled or failed is left out; the rest still goes out together.
+    const uploaded = files.flatMap((file, i) => {
+      const result = results[i];
+      if (result.status === 'fulfilled') return [{ file, upload: result.value }];
+      if (!isAbortError(result.reason)) toast.error(`Failed to upload ${file.name}`);
+      return [];
+    });
     try {
-      const { url } = await api.uploadFile(file);
-      const type = file.type.startsWith('image/')
-        ? 'image'
-        : file.type.startsWith('video/')
-          ? 'video'
-          : 'file';
-      await sendMessage(url, type, url, file.name, file.size, replyTo?.id);
-      setReplyTo(null);
+      if (uploaded.length === 1) {
+        const [{ file, upload }] = uploaded;
+        await sendMessage(upload.url, typeOf(file), upload.url, file.name, file.size, replyId, mediaMetadataOf(upload));
+      } else if (uploaded.length > 1) {
+        // Files picked together go out as one album message.
+        const attachments = uploaded.map(({ file, upload }) => ({
+          mediaType: typeOf(file),
+          fileUrl: upload.url,
+          fileName: file.name,
+          fileSize: file.size,
+          ...mediaMetadataOf(upload),
+        }));
+        await sendMessage('', 'album', undefined, undefined, undefined, replyId, { attachments });
+      }
     } catch (e) {
-      toast.error('Failed to upload file');
+      toast.error('Failed to send files');
     }
-    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const startRecording = async () => {
-    if (activeChat?.chat_type === 'channel' && !['admin', 'owner'].includes(activeChat?.role || '')) {
-      toast.error('Only admins can post in channels');
+  const cancelUpload = (uploadId: string) => {
+    uploads.find(item => item.id === uploadId)?.controller.abort();
+    setUploads(prev => prev.filter(item => item.id !== uploadId));
+  };
+
+  const closeViewer = useCallback(() => setViewerItemId(null), []);
+
+  const startRecording = () => {
+    if (!activeChat?.permissions?.post) {
+      toast.error('You cannot post in this chat');
       return;
     }
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
+    setIsRecording(true);
+  };
 
-      mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        const file = new File([audioBlob], 'voice-message.webm', { type: 'audio/webm' });
-        try {
-          const { url } = await api.uploadFile(file);
-          if (activeChat) {
-            await sendMessage(url, 'audio', url, file.name, file.size, replyTo?.id);
-            setReplyTo(null);
-          }
-        } catch (e) {
-          toast.error('Failed to send voice message');
-        }
-        stream.getTracks().forEach(track => track.stop());
-      };
+  const sendVoiceMessage = async (file: File, waveform?: number[], duration?: number) => {
+    const { url } = await api.uploadFile(file);
+    await sendMessage(url, 'audio', url, file.name, file.size, replyTo?.id, { waveform, duration });
+    setReplyTo(null);
+  };
 
-      mediaRecorder.start();
-      setIsRecording(true);
-    } catch (e) {
-      toast.error('Microphone access denied');
-    }
+  // A finished voice message hands playback on to the next one in the timeline.
+  const playNextAudio = (messageId: string) => {
+    const audioIds = timeline.filter(m => m.message_type === 'audio' && !m.delivery_status).map(m => m.id);
+    const index = audioIds.indexOf(messageId);
+    setAutoPlayAudioId(index >= 0 ? audioIds[index + 1] ?? null : null);
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
+  // The composer grows with its text up to its max height, then scrolls.
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.style.height = 'auto';
+    input.style.height = `${input.scrollHeight}px`;
+    const selection = pendingSelectionRef.current;
+    if (selection) {
+      pendingSelectionRef.current = null;
+      input.focus();
+      input.setSelectionRange(selection.start, selection.end);
     }
+  }, [messageText]);
+
+  const handleFormat = (format: MarkupFormat) => {
+    const input = inputRef.current;
+    if (!input) return;
+    const next = applyFormat({ text: messageText, start: input.selectionStart, end: input.selectionEnd }, format);
+    pendingSelectionRef.current = { start: next.start, end: next.end };
+    setMessageText(next.text);
+  };
+
+  const updateMentionQuery = (input: HTMLTextAreaElement) => {
+    const caret = input.selectionStart;
+    const match = input.selectionEnd === caret ? input.value.slice(0, caret).match(/(?:^|\s)@([^\s@]{0,50})$/) : null;
+    setMentionQuery(match ? { start: caret - match[1].length - 1, query: match[1] } : null);
+  };
+
+  const mentionCandidates = (() => {
+    if (!mentionQuery || !activeChat) return [];
+    const query = mentionQuery.query.toLowerCase();
+    return activeChat.members
+      .filter(member => member.id !== user?.id && member.username.toLowerCase().includes(query))
+      .sort((a, b) => Number(b.username.toLowerCase().startsWith(query)) - Number(a.username.toLowerCase().startsWith(query)))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  })();
+  const activeMentionIndex = Math.min(mentionIndex, mentionCandidates.length - 1);
+
+  const insertMention = (username: string) => {
+    const input = inputRef.current;
+    if (!input || !mentionQuery) return;
+    const before = `${messageText.slice(0, mentionQuery.start)}@${username} `;
+    pendingSelectionRef.current = { start: before.length, end: before.length };
+    setMessageText(before + messageText.slice(input.selectionStart));
+    setMentionQuery(null);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionCandidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex((activeMentionIndex + step + mentionCandidates.length) % mentionCandidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(mentionCandidates[activeMentionIndex].username);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+    const format = formatForShortcut(e);
+    if (format) {
+      e.preventDefault();
+      handleFormat(format);
+      return;
+    }
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
       e.preventDefault();
       handleSend();
     }
@@ -650,12 +987,15 @@ export const ChatArea = () => {
 
   const displayName = getChatDisplayName(activeChat);
   const displayAvatar = getChatAvatar(activeChat);
+  // A call running in this chat that we aren't part of yet.
+  const ongoingCall = activeCalls[activeChat.id] && activeCalls[activeChat.id].id !== callStatus.callId ? activeCalls[activeChat.id] : null;
   const otherUser = getOtherUser(activeChat);
   const isOnline = activeChat.is_group ? false : otherUser?.is_online || false;
   const onlineMembers = activeChat.members?.filter((m) => m.is_online).length || 0;
   const isChannel = activeChat.chat_type === 'channel';
-  const canPost = !isChannel || ['admin', 'owner'].includes(activeChat.role || '');
-  const canPin = activeChat.chat_type === 'direct' || ['admin', 'owner'].includes(activeChat.role || '');
+  const permissions = activeChat.permissions;
+  const canPost = !!permissions?.post;
+  const canPin = !!permissions?.pin;
   const lastOwnMessageId = (() => {
     if (!user) return null;
     for (let i = messages.length - 1; i >= 0; i -= 1) {
@@ -665,34 +1005,33 @@ export const ChatArea = () => {
   })();
 
   const getReadStatus = (msg: typeof messages[number]) => {
-    if (!user || !activeChat || msg.sender_id !== user.id) return null;
+    if (!user || !activeChat || msg.sender_id !== user.id || msg.delivery_status) return null;
     if (lastOwnMessageId && msg.id !== lastOwnMessageId) return null;
     const messageTime = new Date(msg.created_at).getTime();
     if (Number.isNaN(messageTime)) return null;
 
-    if (activeChat.is_group) {
-      const total = Math.max((activeChat.members?.length || 0) - 1, 0);
-      if (total === 0) return null;
-      const readers = activeChat.members.filter((m) => (
-        m.id !== user.id &&
-        m.last_read_at &&
-        new Date(m.last_read_at).getTime() >= messageTime
-      )).length;
-      if (readers > 0) return `Read by ${readers}/${total}`;
-      return onlineMembers > 0 ? 'Delivered' : 'Sent';
-    }
+    const reached = (at?: string | null) => !!at && new Date(at).getTime() >= messageTime;
+    const recipients = (activeChat.members || []).filter((m) => m.id !== user.id);
+    if (recipients.length === 0) return null;
+    const readers = recipients.filter((m) => reached(m.last_read_at)).length;
+    const delivered = recipients.filter((m) => reached(m.last_read_at) || reached(m.last_delivered_at)).length;
+    const state: ReadState = readers === recipients.length ? 'read' : delivered === recipients.length ? 'delivered' : 'sent';
 
-    const otherReadAt = otherUser?.last_read_at ? new Date(otherUser.last_read_at).getTime() : null;
-    if (otherReadAt && otherReadAt >= messageTime) {
-      return 'Read';
+    if (activeChat.is_group) {
+      // Channels count views instead, and nobody there shares who read what.
+      return {
+        state,
+        label: readers > 0 && state !== 'read' ? `Read by ${readers}/${recipients.length}` : READ_STATE_LABELS[state],
+        showSeenBy: !isChannel,
+      };
     }
-    return otherUser?.is_online ? 'Delivered' : 'Sent';
+    return { state, label: READ_STATE_LABELS[state], showSeenBy: false };
   };
 
   const groupedMessages: { date: string; messages: typeof messages }[] = [];
   let currentDate = '';
 
-  messages.forEach((msg) => {
+  timeline.forEach((msg) => {
     const msgDate = new Date(msg.created_at).toLocaleDateString('en-US', {
       weekday: 'long',
       day: 'numeric',
@@ -714,74 +1053,20 @@ export const ChatArea = () => {
     if (pinned.message_type === 'video') return 'Video';
     if (pinned.message_type === 'audio') return 'Voice message';
     if (pinned.message_type === 'file') return 'File';
-    return pinned.content || 'Message';
+    if (pinned.message_type === 'album') return stripMarkup(pinned.content) || 'Album';
+    return stripMarkup(pinned.content) || 'Message';
   })();
 
   const chatTypingUsers = typingUsers.get(activeChat.id) || [];
-  const canDeleteForAll = ['admin', 'owner'].includes(activeChat.role || '');
+  const canDeleteForAll = !!permissions?.delete_messages;
 
   return (
     <div className="flex-1 flex flex-col messenger-chat">
       <div className="messenger-chat-bg" />
 
-      {/* Call Overlay */}
-      {callStatus.isActive && callStatus.chatId === activeChat.id && (
-        <div className="absolute inset-0 z-50 bg-background/95 backdrop-blur-xl flex flex-col items-center justify-center animate-in fade-in duration-500">
-          {callStatus.isVideo && (
-            <div className="absolute inset-0">
-              <video ref={remoteVideoRef} autoPlay playsInline className="w-full h-full object-cover" />
-              {localStream && (
-                <video
-                  ref={localVideoRef}
-                  autoPlay
-                  muted
-                  playsInline
-                  className="absolute bottom-6 right-6 w-44 h-32 rounded-2xl border border-white/10 object-cover shadow-2xl"
-                />
-              )}
-            </div>
-          )}
-
-          {!callStatus.isVideo && (
-            <div className="relative mb-12">
-              <div className="absolute inset-0 bg-primary/20 blur-[100px] animate-pulse rounded-full" />
-              <div className="relative w-40 h-40 rounded-full overflow-hidden border-4 border-white/10 p-1">
-                <AvatarImage
-                  src={displayAvatar}
-                  alt={displayName}
-                  className="w-full h-full rounded-full"
-                  fallback={(
-                    <div className="w-full h-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center rounded-full">
-                      <span className="text-white text-5xl font-bold">{displayName.charAt(0).toUpperCase()}</span>
-                    </div>
-                  )}
-                />
-              </div>
-            </div>
-          )}
-
-          <div className="relative z-10 flex flex-col items-center">
-            <h2 className="text-3xl font-bold text-white mb-2">{displayName}</h2>
-            <p className="text-primary animate-pulse mb-12 text-lg font-medium tracking-wide">
-              {callStatus.isIncoming ? 'INCOMING CALL...' : (remoteStream ? 'IN CALL' : 'CALLING...')}
-            </p>
-
-            <div className="flex items-center gap-12">
-              {callStatus.isIncoming && (
-                <button onClick={joinCall} className="w-20 h-20 rounded-full bg-green-500 hover:bg-green-600 flex items-center justify-center text-white transition-all hover:scale-110 hover:shadow-[0_0_40px_rgba(34,197,94,0.4)]">
-                  <Phone size={36} />
-                </button>
-              )}
-              <button onClick={endCall} className="w-20 h-20 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center text-white transition-all hover:scale-110 hover:shadow-[0_0_40px_rgba(239,68,68,0.4)]">
-                <Phone size={36} className="rotate-[135deg]" />
-              </button>
-            </div>
-          </div>
-
-          {!callStatus.isVideo && remoteStream && (
-            <audio ref={remoteAudioRef} autoPlay className="hidden" />
-          )}
-        </div>
+      <CallOverlay />
+      {viewerItemId && (
+        <MediaViewer chatId={activeChat.id} initialItemId={viewerItemId} onClose={closeViewer} />
       )}
 
       <div className="flex items-center justify-between px-4 md:px-8 2xl:px-12 py-4 md:py-5 border-b border-border/60 bg-messenger-bg/80 backdrop-blur-xl z-20">
@@ -816,7 +1101,7 @@ export const ChatArea = () => {
                       : 'Several people are typing...'}
                 </span>
               ) : activeChat.chat_type === 'channel' ? (
-                <span className="text-white/40">Channel {'\u2022'} {activeChat.members?.length || 0} Subscribers</span>
+                <span className="text-white/40">Channel {'\u2022'} {activeChat.member_count ?? activeChat.members?.length ?? 0} Subscribers</span>
               ) : activeChat.is_group ? (
                 <span className="text-white/40">{activeChat.members?.length || 0} Members {'\u2022'} {onlineMembers} Online</span>
               ) : isOnline ? (
@@ -829,19 +1114,54 @@ export const ChatArea = () => {
         </div>
 
         <div className="flex items-center gap-2">
-          <button
-            onClick={() => startCall(activeChat.id, false)}
-            className="p-3 rounded-2xl hover:bg-white/5 transition-all group"
-          >
-            <Phone size={20} className="text-white/40 group-hover:text-white" />
-          </button>
-          <button
-            onClick={() => startCall(activeChat.id, true)}
-            className="p-3 rounded-2xl hover:bg-white/5 transition-all group"
-          >
-            <Video size={20} className="text-white/40 group-hover:text-white" />
-          </button>
-          <div className="w-px h-6 bg-white/5 mx-2" />
+          <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+            <PopoverTrigger asChild>
+              <button className="p-3 rounded-2xl hover:bg-white/5 transition-all group" title="Jump to date">
+                <CalendarDays size={20} className="text-white/40 group-hover:text-white" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto bg-[#1a1a24] border-white/10 backdrop-blur-xl p-0 rounded-2xl shadow-2xl" align="end">
+              <Calendar
+                mode="single"
+                onSelect={(date) => {
+                  if (!date) return;
+                  setIsDatePickerOpen(false);
+                  jumpToDate(date);
+                }}
+                disabled={(date) => date > new Date()}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          {ongoingCall && (
+            <>
+              <button
+                onClick={() => joinCall(ongoingCall)}
+                className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-green-500/15 border border-green-500/30 text-green-400 hover:bg-green-500/25 text-xs font-semibold transition-all"
+              >
+                {ongoingCall.is_video ? <Video size={16} /> : <Phone size={16} />}
+                Join call · {ongoingCall.participants.length}
+              </button>
+              <div className="w-px h-6 bg-white/5 mx-2" />
+            </>
+          )}
+          {permissions?.start_call && !ongoingCall && (
+            <>
+              <button
+                onClick={() => startCall(activeChat.id, false)}
+                className="p-3 rounded-2xl hover:bg-white/5 transition-all group"
+              >
+                <Phone size={20} className="text-white/40 group-hover:text-white" />
+              </button>
+              <button
+                onClick={() => startCall(activeChat.id, true)}
+                className="p-3 rounded-2xl hover:bg-white/5 transition-all group"
+              >
+                <Video size={20} className="text-white/40 group-hover:text-white" />
+              </button>
+              <div className="w-px h-6 bg-white/5 mx-2" />
+            </>
+          )}
           <Popover>
             <PopoverTrigger asChild>
               <button className="p-3 rounded-2xl hover:bg-white/5 transition-all group">
@@ -853,30 +1173,32 @@ export const ChatArea = () => {
                 <button onClick={() => setShowChatInfo(!showChatInfo)} className="w-full flex items-center gap-3 px-3 py-2.5 text-sm rounded-xl hover:bg-white/5 text-white transition-colors">
                   <AtSign size={16} className="text-white/40" /> {showChatInfo ? 'Hide' : 'View'} Info
                 </button>
-                <button onClick={async () => {
-                  const data = await createInvite(activeChat.id);
-                  const url = `${window.location.origin}/join/${data.code}`;
-                  navigator.clipboard.writeText(url);
-                  toast.success('Invite link copied!');
-                }} className="w-full flex items-center gap-3 px-3 py-2.5 text-sm rounded-xl hover:bg-white/5 text-white transition-colors">
-                  <Copy size={16} className="text-white/40" /> Share Link
-                </button>
+                {permissions?.invite && (
+                  <button onClick={async () => {
+                    const data = await createInvite(activeChat.id);
+                    const url = `${window.location.origin}/join/${data.code}`;
+                    navigator.clipboard.writeText(url);
+                    toast.success('Invite link copied!');
+                  }} className="w-full flex items-center gap-3 px-3 py-2.5 text-sm rounded-xl hover:bg-white/5 text-white transition-colors">
+                    <Copy size={16} className="text-white/40" /> Share Link
+                  </button>
+                )}
                 <button onClick={() => muteChat(activeChat.id, !activeChat.muted)} className="w-full flex items-center gap-3 px-3 py-2.5 text-sm rounded-xl hover:bg-white/5 text-white transition-colors">
                   <Pause size={16} className="text-white/40" /> {activeChat.muted ? 'Unmute' : 'Mute'}
                 </button>
                 <div className="h-px bg-white/5 my-1" />
                 <button
                   onClick={() => deleteMessages(activeChat.id)}
-                  disabled={!['admin', 'owner'].includes(activeChat.role || '')}
+                  disabled={!canDeleteForAll}
                   className={cn(
                     "w-full flex items-center gap-3 px-3 py-2.5 text-sm rounded-xl transition-colors",
-                    ['admin', 'owner'].includes(activeChat.role || '')
+                    canDeleteForAll
                       ? "hover:bg-white/5 text-red-400"
                       : "opacity-50 cursor-not-allowed text-white/20"
                   )}
                 >
-                  <Square size={16} className={['admin', 'owner'].includes(activeChat.role || '') ? "text-red-400/50" : "text-white/20"} />
-                  Clear History {!['admin', 'owner'].includes(activeChat.role || '') && '(Admin only)'}
+                  <Square size={16} className={canDeleteForAll ? "text-red-400/50" : "text-white/20"} />
+                  Clear History {!canDeleteForAll && '(Admins only)'}
                 </button>
               </div>
             </PopoverContent>
@@ -886,13 +1208,15 @@ export const ChatArea = () => {
 
       <div
         key={activeChat.id}
-        className="flex-1 overflow-y-auto px-4 md:px-8 2xl:px-12 py-5 md:py-6 messenger-scrollbar relative z-10 scroll-smooth animate-in fade-in duration-200"
+        ref={scrollContainerRef}
+        onScroll={handleMessagesScroll}
+        className="flex-1 overflow-y-auto px-4 md:px-8 2xl:px-12 py-5 md:py-6 messenger-scrollbar relative z-10 animate-in fade-in duration-200"
       >
         {activeChat.pinned_message && (
           <div className="sticky top-0 z-20 mb-4">
             <div className="flex items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 backdrop-blur-md px-4 py-2">
               <button
-                onClick={() => openMessageContext(activeChat.pinned_message!.id)}
+                onClick={() => jumpToMessage(activeChat.id, activeChat.pinned_message!.id)}
                 className="flex items-center gap-3 text-left text-white/80 hover:text-white transition-colors"
               >
                 <Bookmark size={14} className="text-primary" />
@@ -919,7 +1243,7 @@ export const ChatArea = () => {
             <Loader2 className="animate-spin" size={32} />
             <p className="text-sm font-medium">Loading history...</p>
           </div>
-        ) : messages.length === 0 ? (
+        ) : timeline.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-[#6b7280]">
             <div className="w-32 h-32 rounded-full bg-white/[0.02] flex items-center justify-center mb-6">
               <Send size={48} className="text-white/5" />
@@ -928,40 +1252,91 @@ export const ChatArea = () => {
             <p className="text-sm text-white/30">Send a message to begin your journey</p>
           </div>
         ) : (
-          groupedMessages.map((group, idx) => (
-            <div key={idx}>
-              <div className="flex items-center justify-center my-10">
-                <div className="bg-white/[0.03] border border-white/5 backdrop-blur-md px-6 py-2 rounded-full">
-                  <span className="text-[10px] text-white/40 font-bold uppercase tracking-[0.2em]">{group.date}</span>
+          <>
+            {isLoadingMoreMessages && hasOlderMessages && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="animate-spin text-white/20" size={20} />
+              </div>
+            )}
+            {groupedMessages.map((group) => (
+              <div key={group.date}>
+                <div className="flex items-center justify-center my-10">
+                  <div className="bg-white/[0.03] border border-white/5 backdrop-blur-md px-6 py-2 rounded-full">
+                    <span className="text-[10px] text-white/40 font-bold uppercase tracking-[0.2em]">{group.date}</span>
+                  </div>
                 </div>
+                {group.messages.map((msg) => msg.message_type === 'system' ? (
+                  <div key={msg.id} className="flex justify-center my-3">
+                    <span className="px-3 py-1 rounded-full bg-white/5 text-[11px] text-white/50">{msg.content}</span>
+                  </div>
+                ) : (
+                  <Fragment key={msg.id}>
+                    {msg.id === firstUnreadId && (
+                      <div id="unread-divider" className="flex items-center gap-3 my-6 scroll-mt-6">
+                        <div className="flex-1 h-px bg-primary/30" />
+                        <span className="text-[10px] text-primary font-bold uppercase tracking-[0.2em]">Unread messages</span>
+                        <div className="flex-1 h-px bg-primary/30" />
+                      </div>
+                    )}
+                    <MessageBubble
+                      message={msg}
+                      isOwn={msg.sender_id === user?.id}
+                      canDeleteForAll={canDeleteForAll}
+                      canPin={canPin}
+                      readStatus={getReadStatus(msg)}
+                      isPinned={activeChat.pinned_message?.id === msg.id}
+                      isHighlighted={highlightedId === msg.id}
+                      showViews={isChannel}
+                      onEdit={startEditMessage}
+                      onDeleteForMe={deleteMessageForMe}
+                      onDeleteForAll={deleteMessage}
+                      onReply={startReplyMessage}
+                      onForward={handleForward}
+                      onTogglePin={handleTogglePin}
+                      onOpenThread={openThread}
+                      autoPlayAudio={autoPlayAudioId === msg.id}
+                      onAudioEnded={playNextAudio}
+                      onOpenMedia={setViewerItemId}
+                    />
+                  </Fragment>
+                ))}
               </div>
-              {group.messages.map((msg) => (
-                <MessageBubble
-                  key={msg.id}
-                  message={msg}
-                  isOwn={msg.sender_id === user?.id}
-                  canDeleteForAll={canDeleteForAll}
-                  readStatus={getReadStatus(msg)}
-                  isPinned={activeChat.pinned_message?.id === msg.id}
-                  onEdit={startEditMessage}
-                  onDeleteForMe={deleteMessageForMe}
-                  onDeleteForAll={deleteMessage}
-                  onReply={startReplyMessage}
-                  onForward={handleForward}
-                  onTogglePin={handleTogglePin}
-                />
-              ))}
-            </div>
-          ))
+            ))}
+            {isLoadingMoreMessages && hasNewerMessages && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="animate-spin text-white/20" size={20} />
+              </div>
+            )}
+          </>
         )}
         <div ref={messagesEndRef} />
       </div>
 
-      <div className="px-4 md:px-8 2xl:px-12 py-5 md:py-6 z-20">
+      {hasNewerMessages && (
+        <div className="relative z-20">
+          <button
+            onClick={jumpToLatest}
+            className="absolute right-6 md:right-10 -top-14 w-10 h-10 rounded-full bg-[#1a1a24] border border-white/10 shadow-2xl flex items-center justify-center text-white/60 hover:text-white transition-colors"
+            title="Jump to latest"
+          >
+            <ArrowDown size={18} />
+          </button>
+        </div>
+      )}
+
+      <div className="relative px-4 md:px-8 2xl:px-12 py-5 md:py-6 z-20">
+        {mentionCandidates.length > 0 && (
+          <MentionSuggestions
+            members={mentionCandidates}
+            activeIndex={activeMentionIndex}
+            onSelect={insertMention}
+            onHover={setMentionIndex}
+          />
+        )}
         {replyTo && (
           <div className="flex items-center justify-between text-xs text-white/60 px-4 mb-2">
             <div className="truncate">
-              Replying to <span className="text-white/80">{replyTo.senderName}</span>: {replyTo.content}
+              Replying to <span className="text-white/80">{replyTo.senderName}</span>: {stripMarkup(replyTo.content)}
             </div>
             <button
               onClick={cancelReplyMessage}
@@ -972,6 +1347,34 @@ export const ChatArea = () => {
             </button>
           </div>
         )}
+        {chatUploads.length > 0 && (
+          <div className="space-y-1.5 px-4 mb-3">
+            {chatUploads.map(item => {
+              const percent = item.size > 0 ? Math.round((item.loaded / item.size) * 100) : 0;
+              return (
+                <div key={item.id} className="flex items-center gap-3 text-xs text-white/60">
+                  <Paperclip size={12} className="flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="truncate text-white/80">{item.name}</span>
+                      <span className="tabular-nums flex-shrink-0">{percent}%</span>
+                    </div>
+                    <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                      <div className="h-full bg-primary transition-[width] duration-200" style={{ width: `${percent}%` }} />
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => cancelUpload(item.id)}
+                    className="p-1 text-white/60 hover:text-white transition-colors flex-shrink-0"
+                    title="Cancel upload"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
         {editingMessage && (
           <div className="flex items-center justify-between text-xs text-white/60 px-4 mb-2">
             <span>Editing message</span>
@@ -984,84 +1387,112 @@ export const ChatArea = () => {
             </button>
           </div>
         )}
-        <div className="capsule-input w-full shadow-[0_20px_50px_rgba(0,0,0,0.5)]">
-          <Popover>
-            <PopoverTrigger asChild>
-              <button className="p-2.5 text-white/30 hover:text-white transition-all hover:bg-white/5 rounded-full">
-                <Smile size={22} />
-              </button>
-            </PopoverTrigger>
-            <PopoverContent className="w-80 bg-[#1a1a24] border-white/10 backdrop-blur-2xl p-4 rounded-3xl" side="top" align="start">
-              <div className="flex gap-2 overflow-x-auto no-scrollbar">
-                {PICKER_EMOJIS.map((emoji) => (
-                  <button
-                    key={emoji}
-                    onClick={() => setMessageText(prev => prev + emoji)}
-                    className="w-9 h-9 flex items-center justify-center text-xl hover:bg-white/10 rounded-xl transition-all hover:scale-110 flex-shrink-0"
-                  >
-                    {emoji}
-                  </button>
-                ))}
-              </div>
-            </PopoverContent>
-          </Popover>
-
-          <input
-            ref={inputRef}
-            type="text"
-            value={messageText}
-            onChange={(e) => {
-              setMessageText(e.target.value);
-              handleTyping();
-            }}
-            onKeyPress={handleKeyPress}
-            onBlur={() => activeChat && sendStopTyping(activeChat.id)}
-            placeholder={
-              !canPost
-                ? 'Only admins can post in channels'
-                : isRecording
-                  ? 'Listening...'
-                  : (editingMessage ? 'Edit message...' : 'Type a message...')
-            }
-            disabled={isRecording || !canPost}
-            className="flex-1 bg-transparent border-0 text-[15px] font-medium text-white placeholder:text-white/20 focus:outline-none px-2 disabled:opacity-60"
-          />
-
-          <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
-
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={!canPost}
-            className="p-2.5 text-white/30 hover:text-white transition-all hover:bg-white/5 rounded-full disabled:opacity-40 disabled:cursor-not-allowed"
-          >
-            <Paperclip size={22} />
-          </button>
-
-          {messageText.trim() ? (
+        {isFormattingOpen && canPost && !isRecording && <FormattingToolbar onFormat={handleFormat} />}
+        {isChannel && !canPost ? (
+          <div className="capsule-input w-full justify-center shadow-[0_20px_50px_rgba(0,0,0,0.5)]">
             <button
-              onClick={handleSend}
-              disabled={isSending || !canPost}
-              className="w-11 h-11 rounded-full bg-primary flex items-center justify-center text-white transition-all shadow-[0_10px_25px_rgba(0,0,0,0.35)] hover:scale-105 hover:shadow-[0_0_24px_rgba(20,184,166,0.35)] active:scale-95 disabled:opacity-60 disabled:hover:scale-100"
+              onClick={() => muteChat(activeChat.id, !activeChat.muted)}
+              className="flex-1 py-2 text-sm font-semibold text-primary hover:text-primary/80 transition-colors"
             >
-              {isSending ? (
-                <Loader2 size={20} className="animate-spin" />
-              ) : (
-                <Send size={20} />
-              )}
+              {activeChat.muted ? 'Unmute' : 'Mute'}
             </button>
-          ) : (
+          </div>
+        ) : isRecording ? (
+          <VoiceRecorder onSend={sendVoiceMessage} onClose={() => setIsRecording(false)} />
+        ) : (
+          <div className="capsule-input w-full shadow-[0_20px_50px_rgba(0,0,0,0.5)]">
+            <Popover>
+              <PopoverTrigger asChild>
+                <button className="p-2.5 text-white/30 hover:text-white transition-all hover:bg-white/5 rounded-full">
+                  <Smile size={22} />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 bg-[#1a1a24] border-white/10 backdrop-blur-2xl p-4 rounded-3xl" side="top" align="start">
+                <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                  {PICKER_EMOJIS.map((emoji) => (
+                    <button
+                      key={emoji}
+                      onClick={() => setMessageText(prev => prev + emoji)}
+                      className="w-9 h-9 flex items-center justify-center text-xl hover:bg-white/10 rounded-xl transition-all hover:scale-110 flex-shrink-0"
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                </div>
+              </PopoverContent>
+            </Popover>
+
             <button
-              onClick={isRecording ? stopRecording : startRecording}
+              onClick={() => setIsFormattingOpen(open => !open)}
               disabled={!canPost}
               className={cn(
-                "w-11 h-11 rounded-full flex items-center justify-center text-white transition-all shadow-[0_10px_25px_rgba(0,0,0,0.35)] active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed",
-                isRecording ? "bg-red-500 animate-pulse shadow-[0_0_20px_rgba(239,68,68,0.4)]" : "bg-primary hover:scale-105 hover:shadow-[0_0_24px_rgba(20,184,166,0.35)]"
+                'p-2.5 transition-all hover:bg-white/5 rounded-full disabled:opacity-40 disabled:cursor-not-allowed',
+                isFormattingOpen ? 'text-primary' : 'text-white/30 hover:text-white'
               )}
+              title="Formatting"
             >
-              {isRecording ? <Pause size={20} /> : <Mic size={20} />}
+              <Type size={22} />
             </button>
-          )}
-        </div>
+
+            <textarea
+              ref={inputRef}
+              rows={1}
+              value={messageText}
+              onChange={(e) => {
+                setMessageText(e.target.value);
+                setMentionIndex(0);
+                updateMentionQuery(e.target);
+                handleTyping();
+              }}
+              onSelect={(e) => updateMentionQuery(e.currentTarget)}
+              onKeyDown={handleKeyDown}
+              onBlur={() => {
+                setMentionQuery(null);
+                if (activeChat) sendStopTyping(activeChat.id);
+              }}
+              placeholder={
+                !canPost
+                  ? 'You have read-only access'
+                  : (editingMessage ? 'Edit message...' : 'Type a message...')
+              }
+              disabled={!canPost}
+              className="flex-1 max-h-40 resize-none bg-transparent border-0 text-[15px] font-medium text-white placeholder:text-white/20 focus:outline-none px-2 py-1.5 leading-snug messenger-scrollbar disabled:opacity-60"
+            />
+
+            <input type="file" ref={fileInputRef} className="hidden" multiple onChange={handleFileUpload} />
+
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canPost}
+              className="p-2.5 text-white/30 hover:text-white transition-all hover:bg-white/5 rounded-full disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Paperclip size={22} />
+            </button>
+
+            {messageText.trim() ? (
+              <button
+                onClick={handleSend}
+                disabled={isSending || !canPost}
+                className="w-11 h-11 rounded-full bg-primary flex items-center justify-center text-white transition-all shadow-[0_10px_25px_rgba(0,0,0,0.35)] hover:scale-105 hover:shadow-[0_0_24px_rgba(20,184,166,0.35)] active:scale-95 disabled:opacity-60 disabled:hover:scale-100"
+              >
+                {isSending ? (
+                  <Loader2 size={20} className="animate-spin" />
+                ) : (
+                  <Send size={20} />
+                )}
+              </button>
+            ) : (
+              <button
+                onClick={startRecording}
+                disabled={!canPost}
+                className="w-11 h-11 rounded-full bg-primary flex items-center justify-center text-white transition-all shadow-[0_10px_25px_rgba(0,0,0,0.35)] hover:scale-105 hover:shadow-[0_0_24px_rgba(20,184,166,0.35)] active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
+                title="Record voice message"
+              >
+                <Mic size={20} />
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       <Dialog
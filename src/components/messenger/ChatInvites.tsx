@@ -0,0 +1,324 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, Plus, Copy, Check, X, Trash2, ShieldCheck, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useMessenger, ChatInvite } from '@/context/MessengerContext';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { AvatarImage } from '@/components/AvatarImage';
+
+interface JoinRequest {
+  id: string;
+  username: string;
+  avatar: string | null;
+  created_at: string;
+  invite_id: string | null;
+  invite_name: string | null;
+  invite_code: string | null;
+}
+
+const EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+  { label: 'Never', hours: null },
+];
+
+const getInviteState = (invite: ChatInvite) => {
+  if (invite.revoked_at) return 'Revoked';
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) return 'Expired';
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'Used up';
+  return null;
+};
+
+export const ChatInvites = () => {
+  const { user } = useAuth();
+  const { activeChat, createInvite } = useMessenger();
+  const [invites, setInvites] = useState<ChatInvite[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [inviteName, setInviteName] = useState('');
+  const [ttlHours, setTtlHours] = useState<number | null>(24 * 7);
+  const [maxUses, setMaxUses] = useState('');
+  const [requiresApproval, setRequiresApproval] = useState(false);
+
+  const chatId = activeChat?.id;
+  const canInvite = !!activeChat?.is_group && !!activeChat.permissions?.invite;
+  const canManage = !!activeChat?.permissions?.manage_members;
+
+  const loadInvites = useCallback(() => {
+    if (!chatId || !canInvite) {
+      setInvites([]);
+      return;
+    }
+    api.getChatInvites(chatId)
+      .then((data) => setInvites(Array.isArray(data) ? data : []))
+      .catch((e) => console.error('Failed to load invites:', e));
+  }, [chatId, canInvite]);
+
+  const loadJoinRequests = useCallback(() => {
+    if (!chatId || !canManage) {
+      setJoinRequests([]);
+      return;
+    }
+    api.getJoinRequests(chatId)
+      .then((data) => setJoinRequests(Array.isArray(data) ? data : []))
+      .catch((e) => console.error('Failed to load join requests:', e));
+  }, [chatId, canManage]);
+
+  useEffect(() => {
+    loadInvites();
+    loadJoinRequests();
+  }, [loadInvites, loadJoinRequests]);
+
+  useEffect(() => {
+    const handler = (e: Event) => {
+      if ((e as CustomEvent<{ chatId: string }>).detail?.chatId !== chatId) return;
+      loadInvites();
+      loadJoinRequests();
+    };
+    window.addEventListener('chat-join-requests-changed', handler);
+    return () => window.removeEventListener('chat-join-requests-changed', handler);
+  }, [chatId, loadInvites, loadJoinRequests]);
+
+  if (!activeChat || !canInvite) return null;
+
+  const resetForm = (open: boolean) => {
+    setIsCreateOpen(open);
+    if (!open) {
+      setInviteName('');
+      setTtlHours(24 * 7);
+      setMaxUses('');
+      setRequiresApproval(false);
+    }
+  };
+
+  const copyLink = (invite: ChatInvite) => {
+    navigator.clipboard.writeText(`${window.location.origin}/join/${invite.code}`);
+    setCopiedId(invite.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleCreate = async () => {
+    const parsedMaxUses = maxUses.trim() ? parseInt(maxUses, 10) : null;
+    if (parsedMaxUses !== null && (!Number.isFinite(parsedMaxUses) || parsedMaxUses < 1)) {
+      toast.error('Max uses must be a positive number');
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const invite = await createInvite(activeChat.id, {
+        name: inviteName.trim() || undefined,
+        ttlHours,
+        maxUses: parsedMaxUses,
+        requiresApproval,
+      });
+      setInvites((prev) => [invite, ...prev]);
+      copyLink(invite);
+      toast.success('Invite link created and copied');
+      resetForm(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to create invite');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: ChatInvite) => {
+    if (!confirm(`Revoke ${invite.name || invite.code}? The link will stop working.`)) return;
+    try {
+      await api.revokeInvite(activeChat.id, invite.id);
+      setInvites((prev) => prev.map((i) => (i.id === invite.id ? { ...i, revoked_at: new Date().toISOString() } : i)));
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to revoke invite');
+    }
+  };
+
+  const resolveRequest = async (request: JoinRequest, approve: boolean) => {
+    try {
+      if (approve) await api.approveJoinRequest(activeChat.id, request.id);
+      else await api.rejectJoinRequest(activeChat.id, request.id);
+      setJoinRequests((prev) => prev.filter((r) => r.id !== request.id));
+      if (approve) loadInvites();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update request');
+    }
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      {joinRequests.length > 0 && (
+        <div className="mb-4">
+          <p className="text-[10px] text-muted-foreground mb-1 uppercase tracking-wider font-bold">
+            Join requests <span className="text-primary">{joinRequests.length}</span>
+          </p>
+          <div className="space-y-1 max-h-48 overflow-y-auto messenger-scrollbar">
+            {joinRequests.map((request) => (
+              <div key={request.id} className="flex items-center gap-3 p-2 rounded-xl hover:bg-white/5">
+                <div className="w-8 h-8 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center flex-shrink-0">
+                  <AvatarImage
+                    src={request.avatar}
+                    alt={request.username}
+                    className="w-full h-full"
+                    fallback={<span className="text-white text-xs">{request.username.charAt(0).toUpperCase()}</span>}
+                  />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">{request.username}</p>
+                  <p className="text-[10px] text-[#6b7280] truncate">
+                    via {request.invite_name || request.invite_code || 'a revoked link'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => resolveRequest(request, true)}
+                  className="p-1.5 rounded-lg text-green-500 hover:bg-green-500/10 transition-colors"
+                  title="Approve"
+                >
+                  <Check size={16} />
+                </button>
+                <button
+                  onClick={() => resolveRequest(request, false)}
+                  className="p-1.5 rounded-lg text-red-400 hover:bg-red-500/10 transition-colors"
+                  title="Decline"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-white">
+          Invite links <span className="text-[#6b7280]">{invites.filter((i) => !getInviteState(i)).length}</span>
+        </span>
+        <button
+          onClick={() => setIsCreateOpen(true)}
+          className="p-1.5 rounded-xl hover:bg-white/5 transition-colors text-[#6b7280] hover:text-white"
+          title="New invite link"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {invites.length === 0 ? (
+        <button
+          onClick={() => setIsCreateOpen(true)}
+          className="w-full py-2.5 bg-primary/10 hover:bg-primary/20 text-primary border border-primary/20 rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-all"
+        >
+          <Link size={16} />
+          Create invite link
+        </button>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto messenger-scrollbar">
+          {invites.map((invite) => {
+            const state = getInviteState(invite);
+            const canRevoke = !invite.revoked_at && (canManage || invite.created_by === user?.id);
+            return (
+              <div key={invite.id} className={cn('p-2 rounded-xl hover:bg-white/5 group', state && 'opacity-50')}>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">
+                      {invite.name || <code className="font-mono tracking-widest text-primary">{invite.code}</code>}
+                      {invite.requires_approval && (
+                        <ShieldCheck size={12} className="inline ml-1.5 text-[#6b7280]" />
+                      )}
+                    </p>
+                    <p className="text-[10px] text-[#6b7280] truncate">
+                      {invite.use_count}{invite.max_uses !== null ? `/${invite.max_uses}` : ''} {invite.use_count === 1 && invite.max_uses === null ? 'use' : 'uses'}
+                      {invite.pending_count > 0 && ` • ${invite.pending_count} pending`}
+                      {' • '}
+                      {state || (invite.expires_at
+                        ? `expires ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}`
+                        : 'never expires')}
+                      {canManage && invite.creator_username && ` • by ${invite.creator_username}`}
+                    </p>
+                  </div>
+                  {!state && (
+                    <button
+                      onClick={() => copyLink(invite)}
+                      className="p-1.5 rounded-lg text-primary hover:bg-primary/20 transition-all"
+                      title="Copy link"
+                    >
+                      {copiedId === invite.id ? <Check size={14} /> : <Copy size={14} />}
+                    </button>
+                  )}
+                  {canRevoke && (
+                    <button
+                      onClick={() => handleRevoke(invite)}
+                      className="p-1.5 rounded-lg text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Revoke"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={resetForm}>
+        <DialogContent className="messenger-panel border-white/10">
+          <DialogHeader>
+            <DialogTitle>New Invite Link</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Name (optional), e.g. Newsletter"
+              value={inviteName}
+              onChange={(e) => setInviteName(e.target.value)}
+              maxLength={100}
+              className="messenger-input border-white/10"
+            />
+            <div>
+              <p className="text-[10px] text-muted-foreground mb-2 uppercase tracking-wider font-bold">Expires after</p>
+              <div className="flex flex-wrap gap-1">
+                {EXPIRY_OPTIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => setTtlHours(option.hours)}
+                    className={cn(
+                      'px-3 py-1 text-[11px] font-semibold rounded-full border border-white/10 transition-all',
+                      ttlHours === option.hours ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <Input
+              type="number"
+              min={1}
+              placeholder="Max uses (leave empty for unlimited)"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              className="messenger-input border-white/10"
+            />
+            <label className="flex items-center justify-between text-sm text-white cursor-pointer">
+              <span>
+                Request to join
+                <span className="block text-[10px] text-[#6b7280]">An admin approves everyone who uses this link</span>
+              </span>
+              <Switch checked={requiresApproval} onCheckedChange={setRequiresApproval} />
+            </label>
+            <Button onClick={handleCreate} className="w-full" disabled={isCreating}>
+              {isCreating ? <Loader2 size={16} className="animate-spin" /> : 'Create Link'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
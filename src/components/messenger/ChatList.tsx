@@ -1,17 +1,63 @@
 import { useEffect, useRef, useState } from 'react';
-import { Search, Plus, MessageCircle, Loader2, Phone, Video, Megaphone } from 'lucide-react';
+import { Search, Plus, MessageCircle, Loader2, Phone, Video, Megaphone, MailOpen, Mail } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useMessenger } from '@/context/MessengerContext';
+import { useMessenger, type MessageSearchFilters, type MessageSearchResult } from '@/context/MessengerContext';
 import { useAuth } from '@/context/AuthContext';
 import { api } from '@/lib/api';
+import { stripMarkup } from '@/lib/markup';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from '@/components/ui/context-menu';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { AvatarImage } from '@/components/AvatarImage';
+import { MessageSearchFilterBar } from './MessageSearchFilterBar';
 
 type ChatTab = 'all' | 'groups' | 'channels' | 'contacts';
 
+type SearchMode = 'chats' | 'users' | 'messages' | 'channels';
+
+const SEARCH_MODES: SearchMode[] = ['chats', 'users', 'messages', 'channels'];
+
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  chats: 'Chats',
+  users: 'Users',
+  messages: 'Messages',
+  channels: 'Channels',
+};
+
+const hasActiveFilters = (filters: MessageSearchFilters) =>
+  Object.values(filters).some((value) => value !== undefined && value !== false);
+
+// Search snippets arrive with matches wrapped in STX/ETX control characters.
+const HighlightedSnippet = ({ text }: { text: string }) => {
+  const [lead, ...chunks] = text.split('\u0002');
+  return (
+    <>
+      {lead}
+      {chunks.map((chunk, i) => {
+        const [match, rest = ''] = chunk.split('\u0003');
+        return (
+          <span key={i}>
+            <mark className="bg-primary/25 text-white rounded px-0.5">{match}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+interface ChannelSearchResult {
+  id: string;
+  name: string;
+  avatar: string | null;
+  description: string | null;
+  member_count: number;
+  is_member: boolean;
+}
+
 interface ChatItemProps {
   chat: {
     id: string;
@@ -21,15 +67,20 @@ interface ChatItemProps {
     avatar: string | null;
     members: { id: string; username: string; avatar: string | null; is_online: boolean }[];
     last_message: { content: string; created_at: string; message_type?: string } | null;
+    muted?: boolean;
+    unread_mentions?: number;
+    unread_count?: number;
+    marked_unread?: boolean;
   };
   isActive: boolean;
   onClick: () => void;
+  onToggleUnread: (hasUnread: boolean) => void;
   displayName: string;
   displayAvatar: string | null;
   isOnline: boolean;
 }
 
-const ChatItem = ({ chat, isActive, onClick, displayName, displayAvatar, isOnline }: ChatItemProps) => {
+const ChatItem = ({ chat, isActive, onClick, onToggleUnread, displayName, displayAvatar, isOnline }: ChatItemProps) => {
   const formatTime = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -43,47 +94,81 @@ const ChatItem = ({ chat, isActive, onClick, displayName, displayAvatar, isOnlin
     if (isImageMessage) return '\u{1F5BC}\u{FE0F} Photo';
     if (chat.last_message?.message_type === 'file') return '\u{1F4CE} File';
     if (chat.last_message?.message_type === 'video') return '\u{1F3AC} Video';
-    return chat.last_message?.content || 'No messages yet';
+    if (chat.last_message?.message_type === 'album') return `\u{1F5BC}\u{FE0F} ${stripMarkup(chat.last_message.content) || 'Album'}`;
+    return (chat.last_message && stripMarkup(chat.last_message.content)) || 'No messages yet';
   };
 
+  const unreadCount = chat.unread_count || 0;
+  const hasUnread = unreadCount > 0 || !!chat.marked_unread;
+
   return (
-    <div
-      onClick={onClick}
-      className={cn(
-        'flex items-center gap-3 p-3 rounded-2xl cursor-pointer transition-all duration-200',
-        isActive ? 'bg-white/10' : 'hover:bg-white/5'
-      )}
-    >
-      <div className="relative">
-        <div className="w-12 h-12 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
-          <AvatarImage
-            src={displayAvatar}
-            alt={displayName}
-            className="w-full h-full"
-            fallback={<span className="text-white font-semibold text-lg">{displayName.charAt(0).toUpperCase()}</span>}
-          />
-        </div>
-        {isOnline && (
-          <div className="absolute bottom-0 right-0 w-3.5 h-3.5 bg-green-500 rounded-full border-2 border-transparent" />
-        )}
-      </div>
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-1.5">
-          <span className="font-semibold text-sm truncate text-white/90">{displayName}</span>
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          onClick={onClick}
+          className={cn(
+            'flex items-center gap-3 p-3 rounded-2xl cursor-pointer transition-all duration-200',
+            isActive ? 'bg-white/10' : 'hover:bg-white/5'
+          )}
+        >
+          <div className="relative">
+            <div className="w-12 h-12 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+              <AvatarImage
+                src={displayAvatar}
+                alt={displayName}
+                className="w-full h-full"
+                fallback={<span className="text-white font-semibold text-lg">{displayName.charAt(0).toUpperCase()}</span>}
+              />
+            </div>
+            {isOnline && (
+              <div className="absolute bottom-0 right-0 w-3.5 h-3.5 bg-green-500 rounded-full border-2 border-transparent" />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1.5">
+              <span className="font-semibold text-sm truncate text-white/90">{displayName}</span>
+            </div>
+            <p className={cn(
+              "text-xs truncate mt-0.5 text-white/55",
+              isVoiceMessage ? "text-primary" : ""
+            )}>
+              {getMessagePreview()}
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <span className="text-[9px] text-white/30">
+              {chat.last_message?.created_at ? formatTime(chat.last_message.created_at) : ''}
+            </span>
+            {!!chat.unread_mentions && (
+              <span
+                className="w-5 h-5 rounded-full bg-primary flex items-center justify-center text-[11px] font-bold text-white"
+                title={`${chat.unread_mentions} unread ${chat.unread_mentions === 1 ? 'mention' : 'mentions'}`}
+              >
+                @
+              </span>
+            )}
+            {hasUnread && (
+              <span
+                className={cn(
+                  'rounded-full flex items-center justify-center text-[11px] font-bold text-white',
+                  unreadCount > 0 ? 'min-w-5 h-5 px-1.5' : 'w-2.5 h-2.5 my-[5px]',
+                  chat.muted ? 'bg-white/20' : 'bg-primary'
+                )}
+                title={unreadCount > 0 ? `${unreadCount} unread ${unreadCount === 1 ? 'message' : 'messages'}` : 'Marked as unread'}
+              >
+                {unreadCount > 99 ? '99+' : unreadCount || ''}
+              </span>
+            )}
+          </div>
         </div>
-        <p className={cn(
-          "text-xs truncate mt-0.5 text-white/55",
-          isVoiceMessage ? "text-primary" : ""
-        )}>
-          {getMessagePreview()}
-        </p>
-      </div>
-      <div className="flex flex-col items-end gap-1">
-        <span className="text-[9px] text-white/30">
-          {chat.last_message?.created_at ? formatTime(chat.last_message.created_at) : ''}
-        </span>
-      </div>
-    </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="bg-[#1a1a24] border-white/10 backdrop-blur-xl">
+        <ContextMenuItem onClick={() => onToggleUnread(hasUnread)} className="cursor-pointer text-white/80">
+          {hasUnread ? <MailOpen size={14} className="mr-2" /> : <Mail size={14} className="mr-2" />}
+          {hasUnread ? 'Mark as read' : 'Mark as unread'}
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
   );
 };
 
@@ -101,12 +186,16 @@ export const ChatList = () => {
     createDirectChat,
     createGroupChat,
     createChannelChat,
+    subscribeChannel,
     searchMessagesGlobal,
-    openMessageContext,
+    jumpToMessage,
     getChatDisplayName,
     getChatAvatar,
     getOtherUser,
+    markChatRead,
+    markChatUnread,
     callStatus,
+    activeCalls,
     startCall,
     joinCall
   } = useMessenger();
@@ -116,10 +205,15 @@ export const ChatList = () => {
   const [isNewChannelOpen, setIsNewChannelOpen] = useState(false);
   const [isNewCallOpen, setIsNewCallOpen] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
-  const [searchMode, setSearchMode] = useState<'chats' | 'users' | 'messages'>('chats');
+  const [searchMode, setSearchMode] = useState<SearchMode>('chats');
   const [searchInput, setSearchInput] = useState('');
   const [panelUserResults, setPanelUserResults] = useState<{ id: string; username: string; avatar: string | null; is_online: boolean }[]>([]);
-  const [panelMessageResults, setPanelMessageResults] = useState<{ id: string; chat_id: string; chat_name: string | null; chat_type?: string; content: string; message_type: string; created_at: string; sender?: { username: string | null } }[]>([]);
+  const [panelMessageResults, setPanelMessageResults] = useState<MessageSearchResult[]>([]);
+  const [messageFilters, setMessageFilters] = useState<MessageSearchFilters>({});
+  const [messageNextOffset, setMessageNextOffset] = useState<number | null>(null);
+  const [isLoadingMoreResults, setIsLoadingMoreResults] = useState(false);
+  const messageSearchIdRef = useRef(0);
+  const [panelChannelResults, setPanelChannelResults] = useState<ChannelSearchResult[]>([]);
   const [isPanelSearching, setIsPanelSearching] = useState(false);
   const [userSearchQuery, setUserSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<{ id: string; username: string; avatar: string | null; is_online: boolean }[]>([]);
@@ -128,6 +222,7 @@ export const ChatList = () => {
   const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
   const [channelName, setChannelName] = useState('');
   const [channelMembers, setChannelMembers] = useState<string[]>([]);
+  const [channelIsPublic, setChannelIsPublic] = useState(false);
 
   const tabs: { key: ChatTab; label: string }[] = [
     { key: 'all', label: 'All Chats' },
@@ -208,13 +303,62 @@ export const ChatList = () => {
     if (message.message_type === 'video') return 'Video';
     if (message.message_type === 'audio') return 'Voice message';
     if (message.message_type === 'file') return 'File';
-    return message.content || 'Message';
+    if (message.message_type === 'album') return stripMarkup(message.content) || 'Album';
+    return stripMarkup(message.content) || 'Message';
   };
 
-  const runPanelSearch = async (value: string, mode: 'chats' | 'users' | 'messages') => {
+  const hasMessageFilters = hasActiveFilters(messageFilters);
+
+  // Filter chips re-run the search, so only the latest request may write results.
+  const runMessageSearch = async (value: string, filters: MessageSearchFilters) => {
+    const searchId = ++messageSearchIdRef.current;
+    if (!value.trim() && !hasActiveFilters(filters)) {
+      setPanelMessageResults([]);
+      setMessageNextOffset(null);
+      setIsPanelSearching(false);
+      return;
+    }
+    setIsPanelSearching(true);
+    try {
+      const page = await searchMessagesGlobal(value, filters);
+      if (searchId !== messageSearchIdRef.current) return;
+      setPanelMessageResults(page.messages);
+      setMessageNextOffset(page.nextOffset);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      if (searchId === messageSearchIdRef.current) setIsPanelSearching(false);
+    }
+  };
+
+  const loadMoreMessageResults = async () => {
+    if (messageNextOffset === null || isLoadingMoreResults) return;
+    const searchId = messageSearchIdRef.current;
+    setIsLoadingMoreResults(true);
+    try {
+      const page = await searchMessagesGlobal(searchInput, messageFilters, messageNextOffset);
+      if (searchId !== messageSearchIdRef.current) return;
+      setPanelMessageResults((prev) => [...prev, ...page.messages]);
+      setMessageNextOffset(page.nextOffset);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Search failed');
+    } finally {
+      setIsLoadingMoreResults(false);
+    }
+  };
+
+  const runPanelSearch = async (value: string, mode: SearchMode) => {
+    if (mode === 'messages') {
+      setSearchQuery('');
+      setPanelUserResults([]);
+      setPanelChannelResults([]);
+      return runMessageSearch(value, messageFilters);
+    }
+
     if (!value.trim()) {
       setPanelUserResults([]);
       setPanelMessageResults([]);
+      setPanelChannelResults([]);
       if (mode === 'chats') setSearchQuery('');
       return;
     }
@@ -231,10 +375,12 @@ export const ChatList = () => {
         const results = await api.searchUsers(value);
         setPanelUserResults(results);
         setPanelMessageResults([]);
+        setPanelChannelResults([]);
       } else {
-        const results = await searchMessagesGlobal(value);
-        setPanelMessageResults(results);
+        const results = await api.searchChannels(value);
+        setPanelChannelResults(Array.isArray(results) ? results : []);
         setPanelUserResults([]);
+        setPanelMessageResults([]);
       }
     } catch (e) {
       console.error(e);
@@ -250,6 +396,7 @@ export const ChatList = () => {
       setSearchQuery('');
       setPanelUserResults([]);
       setPanelMessageResults([]);
+      setPanelChannelResults([]);
       window.setTimeout(() => {
         searchInputRef.current?.focus();
       }, 0);
@@ -259,23 +406,29 @@ export const ChatList = () => {
   }, [setSearchQuery]);
 
   useEffect(() => {
+    if (searchMode === 'messages') {
+      runPanelSearch(searchInput, searchMode);
+      return;
+    }
     if (!searchInput.trim()) {
       setPanelUserResults([]);
       setPanelMessageResults([]);
+      setPanelChannelResults([]);
       if (searchMode === 'chats') setSearchQuery('');
       return;
     }
     runPanelSearch(searchInput, searchMode);
-  }, [searchMode]);
+  }, [searchMode, messageFilters]);
 
   const handleCreateChannel = async () => {
     if (!channelName.trim()) return;
     try {
-      const chat = await createChannelChat(channelName, channelMembers);
+      const chat = await createChannelChat(channelName, channelMembers, channelIsPublic);
       setActiveChat(chat);
       setIsNewChannelOpen(false);
       setChannelName('');
       setChannelMembers([]);
+      setChannelIsPublic(false);
       setUserSearchQuery('');
       setSearchResults([]);
     } catch (e) {
@@ -283,6 +436,22 @@ export const ChatList = () => {
     }
   };
 
+  const handleOpenChannel = async (channel: ChannelSearchResult) => {
+    const existing = chats.find((c) => c.id === channel.id);
+    if (existing) {
+      setActiveChat(existing);
+      return;
+    }
+    try {
+      const chat = await subscribeChannel(channel.id);
+      setActiveChat(chat);
+      setPanelChannelResults((prev) => prev.map((c) => (c.id === channel.id ? { ...c, is_member: true } : c)));
+      toast.success(`Subscribed to ${channel.name}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to subscribe');
+    }
+  };
+
   const toggleMember = (userId: string) => {
     setSelectedMembers(prev =>
       prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
@@ -303,6 +472,11 @@ export const ChatList = () => {
 
   const activeCallChat = callStatus.isActive && callStatus.chatId ? chats.find(c => c.id === callStatus.chatId) : null;
   const activeCallName = activeCallChat ? getChatDisplayName(activeCallChat) : null;
+  // Running calls in the user's chats besides the one they're in or being rung for.
+  const ongoingCalls = Object.values(activeCalls).flatMap(call => {
+    const chat = chats.find(c => c.id === call.chat_id);
+    return chat && call.id !== callStatus.callId ? [{ call, chat }] : [];
+  });
 
   return (
     <div className="w-full md:w-[360px] xl:w-[380px] 2xl:w-[420px] messenger-panel flex flex-col border-r border-white/10 messenger-scrollbar overflow-hidden">
@@ -311,7 +485,7 @@ export const ChatList = () => {
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-[#6b7280]" size={16} />
           <input
             type="text"
-            placeholder={searchMode === 'chats' ? 'Search chats...' : searchMode === 'users' ? 'Search users...' : 'Search messages...'}
+            placeholder={`Search ${SEARCH_MODE_LABELS[searchMode].toLowerCase()}...`}
             value={searchInput}
             onChange={(e) => {
               const value = e.target.value;
@@ -325,7 +499,7 @@ export const ChatList = () => {
 
         <div className="flex items-center justify-between mb-2">
           <div className="flex items-center gap-1 bg-white/5 border border-white/10 rounded-full p-1">
-            {(['chats', 'users', 'messages'] as const).map((mode) => (
+            {SEARCH_MODES.map((mode) => (
               <button
                 key={mode}
                 onClick={() => setSearchMode(mode)}
@@ -334,7 +508,7 @@ export const ChatList = () => {
                   searchMode === mode ? 'bg-white/10 text-white shadow-sm' : 'text-white/40 hover:text-white'
                 )}
               >
-                {mode === 'chats' ? 'Chats' : mode === 'users' ? 'Users' : 'Messages'}
+                {SEARCH_MODE_LABELS[mode]}
               </button>
             ))}
           </div>
@@ -472,6 +646,13 @@ export const ChatList = () => {
                     onChange={(e) => setChannelName(e.target.value)}
                     className="messenger-input border-white/10"
                   />
+                  <label className="flex items-center justify-between text-sm text-white cursor-pointer">
+                    <span>
+                      Public channel
+                      <span className="block text-[10px] text-[#6b7280]">Anyone can find and subscribe</span>
+                    </span>
+                    <Switch checked={channelIsPublic} onCheckedChange={setChannelIsPublic} />
+                  </label>
                   <Input
                     placeholder="Search users to add (optional)..."
                     value={userSearchQuery}
@@ -517,6 +698,10 @@ export const ChatList = () => {
           </div>
         </div>
 
+        {searchMode === 'messages' && (
+          <MessageSearchFilterBar filters={messageFilters} onChange={setMessageFilters} />
+        )}
+
         {searchMode === 'chats' && (
           <div className="flex items-center bg-white/5 border border-white/10 rounded-full p-1 w-fit mb-2">
             {tabs.map((tab) => (
@@ -554,6 +739,7 @@ export const ChatList = () => {
                 chat={chat}
                 isActive={activeChat?.id === chat.id}
                 onClick={() => setActiveChat(chat)}
+                onToggleUnread={(hasUnread) => (hasUnread ? markChatRead(chat.id) : markChatUnread(chat.id))}
                 displayName={getChatDisplayName(chat)}
                 displayAvatar={getChatAvatar(chat)}
                 isOnline={getIsOnline(chat)}
@@ -595,43 +781,98 @@ export const ChatList = () => {
               </div>
             ))
           )
-        ) : (
+        ) : searchMode === 'channels' ? (
           isPanelSearching ? (
             <div className="flex justify-center py-8">
               <Loader2 className="animate-spin text-[#6b7280]" />
             </div>
           ) : searchInput.trim() === '' ? (
             <div className="text-center py-8 text-[#6b7280] text-sm">
-              Start typing to search messages
+              Start typing to find public channels
             </div>
-          ) : panelMessageResults.length === 0 ? (
+          ) : panelChannelResults.length === 0 ? (
             <div className="text-center py-8 text-[#6b7280] text-sm">
-              No messages found
+              No channels found
             </div>
           ) : (
-            panelMessageResults.map((m) => (
-              <button
-                key={m.id}
-                onClick={async () => {
-                  try {
-                    await openMessageContext(m.id);
-                  } catch (e) {
-                    toast.error('Failed to open message');
-                  }
-                }}
-                className="w-full text-left flex flex-col gap-1 p-3 rounded-2xl hover:bg-white/5 transition-all"
+            panelChannelResults.map((c) => (
+              <div
+                key={c.id}
+                onClick={() => handleOpenChannel(c)}
+                className="flex items-center gap-3 p-3 rounded-2xl cursor-pointer transition-all duration-200 hover:bg-white/5"
               >
-                <div className="flex items-center justify-between text-[10px] text-white/30">
-                  <span className="truncate">{m.chat_name || (m.chat_type === 'direct' ? 'Direct chat' : 'Chat')}</span>
-                  <span>{new Date(m.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                <div className="w-10 h-10 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                  <AvatarImage
+                    src={c.avatar}
+                    alt={c.name}
+                    className="w-full h-full"
+                    fallback={<span className="text-white font-semibold text-sm">{c.name.charAt(0).toUpperCase()}</span>}
+                  />
                 </div>
-                <div className="text-sm text-white/70 truncate">
-                  <span className="text-white/40">{m.sender?.username || 'Unknown'}: </span>
-                  {getMessagePreview(m)}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm text-white truncate">{c.name}</p>
+                  <p className="text-xs text-white/40 truncate">
+                    {c.member_count} {c.member_count === 1 ? 'subscriber' : 'subscribers'}
+                    {c.description && <> {'\u2022'} {c.description}</>}
+                  </p>
                 </div>
-              </button>
+                <span className={cn(
+                  'text-[11px] font-semibold px-3 py-1 rounded-full',
+                  c.is_member ? 'text-white/40' : 'bg-primary/15 text-primary'
+                )}>
+                  {c.is_member ? 'Open' : 'Subscribe'}
+                </span>
+              </div>
             ))
           )
+        ) : (
+          isPanelSearching ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="animate-spin text-[#6b7280]" />
+            </div>
+          ) : searchInput.trim() === '' && !hasMessageFilters ? (
+            <div className="text-center py-8 text-[#6b7280] text-sm">
+              Start typing or pick a filter to search messages
+            </div>
+          ) : panelMessageResults.length === 0 ? (
+            <div className="text-center py-8 text-[#6b7280] text-sm">
+              No messages found
+            </div>
+          ) : (
+            <>
+              {panelMessageResults.map((m) => (
+                <button
+                  key={m.id}
+                  onClick={async () => {
+                    try {
+                      await jumpToMessage(m.chat_id, m.id);
+                    } catch (e) {
+                      toast.error('Failed to open message');
+                    }
+                  }}
+                  className="w-full text-left flex flex-col gap-1 p-3 rounded-2xl hover:bg-white/5 transition-all"
+                >
+                  <div className="flex items-center justify-between text-[10px] text-white/30">
+                    <span className="truncate">{m.chat_name || (m.chat_type === 'direct' ? 'Direct chat' : 'Chat')}</span>
+                    <span>{new Date(m.created_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  </div>
+                  <div className="text-sm text-white/70 line-clamp-2 break-words">
+                    <span className="text-white/40">{m.sender?.username || 'Unknown'}: </span>
+                    {m.highlight ? <HighlightedSnippet text={stripMarkup(m.highlight)} /> : getMessagePreview(m)}
+                  </div>
+                </button>
+              ))}
+              {messageNextOffset !== null && (
+                <button
+                  onClick={loadMoreMessageResults}
+                  disabled={isLoadingMoreResults}
+                  className="w-full flex justify-center py-3 text-xs font-semibold text-primary hover:text-primary/80 disabled:opacity-50 transition-colors"
+                >
+                  {isLoadingMoreResults ? <Loader2 size={14} className="animate-spin" /> : 'Load more'}
+                </button>
+              )}
+            </>
+          )
         )}
       </div>
 
@@ -697,7 +938,7 @@ export const ChatList = () => {
           </Dialog>
         </div>
         <div className="space-y-1">
-          {callStatus.isActive && activeCallChat ? (
+          {callStatus.isActive && activeCallChat && (
             <div
               onClick={() => setActiveChat(activeCallChat)}
               className="flex items-center gap-3 p-2 rounded-xl bg-green-500/10 border border-green-500/20 cursor-pointer animate-pulse"
@@ -707,7 +948,9 @@ export const ChatList = () => {
               </div>
               <div className="flex-1 overflow-hidden">
                 <p className="text-sm font-medium text-white truncate">{activeCallName}</p>
-                <p className="text-xs text-green-400">Call in progress...</p>
+                <p className="text-xs text-green-400">
+                  {callStatus.isIncoming ? 'Incoming call...' : `Call in progress · ${callStatus.participants.length}`}
+                </p>
               </div>
               {callStatus.isIncoming && (
                 <button onClick={(e) => { e.stopPropagation(); joinCall(); }} className="px-2 py-1 rounded bg-green-600 text-white text-xs">
@@ -715,7 +958,28 @@ export const ChatList = () => {
                 </button>
               )}
             </div>
-          ) : (
+          )}
+          {ongoingCalls.map(({ call, chat }) => (
+            <div
+              key={call.id}
+              onClick={() => setActiveChat(chat)}
+              className="flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/10 cursor-pointer hover:bg-white/10"
+            >
+              <div className="w-8 h-8 rounded-full bg-green-500/20 flex items-center justify-center text-green-400">
+                {call.is_video ? <Video size={16} /> : <Phone size={16} />}
+              </div>
+              <div className="flex-1 overflow-hidden">
+                <p className="text-sm font-medium text-white truncate">{getChatDisplayName(chat)}</p>
+                <p className="text-xs text-white/40">{call.participants.length} in call</p>
+              </div>
+              {!callStatus.callId && (
+                <button onClick={(e) => { e.stopPropagation(); joinCall(call); }} className="px-2 py-1 rounded bg-green-600 text-white text-xs">
+                  Join
+                </button>
+              )}
+            </div>
+          ))}
+          {!callStatus.isActive && ongoingCalls.length === 0 && (
             <div className="text-center py-4 text-[#6b7280] text-xs">
               No active calls
             </div>
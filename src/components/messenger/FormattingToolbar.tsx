@@ -0,0 +1,37 @@
+import { Bold, Italic, Strikethrough, Code, EyeOff, TextQuote, SquareCode, type LucideIcon } from 'lucide-react';
+import { FORMAT_SHORTCUTS, shortcutLabel, type MarkupFormat } from '@/lib/markup';
+
+const FORMAT_ICONS: Record<MarkupFormat, LucideIcon> = {
+  bold: Bold,
+  italic: Italic,
+  strike: Strikethrough,
+  code: Code,
+  spoiler: EyeOff,
+  quote: TextQuote,
+  codeBlock: SquareCode,
+};
+
+interface FormattingToolbarProps {
+  onFormat: (format: MarkupFormat) => void;
+}
+
+export const FormattingToolbar = ({ onFormat }: FormattingToolbarProps) => (
+  <div className="flex items-center gap-1 px-4 mb-2">
+    {FORMAT_SHORTCUTS.map((shortcut) => {
+      const Icon = FORMAT_ICONS[shortcut.format];
+      return (
+        <button
+          key={shortcut.format}
+          type="button"
+          // Keeps the composer focused so its selection survives the click.
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onFormat(shortcut.format)}
+          className="p-1.5 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+          title={`${shortcut.label} (${shortcutLabel(shortcut)})`}
+        >
+          <Icon size={15} />
+        </button>
+      );
+    })}
+  </div>
+);
@@ -1,29 +1,85 @@
-import { X, Users, MessageCircle, Bell, BellOff, Image, File, Mic, Link, UserPlus, Copy, Check } from 'lucide-react';
-import { useState, useEffect } from 'react';
-import { useMessenger } from '@/context/MessengerContext';
+import { X, Users, MessageCircle, Bell, BellOff, Image, File, Mic, Link, Pencil, Camera, Loader2, Play } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useMessenger, type MediaItem } from '@/context/MessengerContext';
 import { useAuth } from '@/context/AuthContext';
 import { cn } from '@/lib/utils';
+import { api } from '@/lib/api';
+import { toast } from 'sonner';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import { AvatarImage } from '@/components/AvatarImage';
+import { GroupMembers } from './GroupMembers';
+import { ChatInvites } from './ChatInvites';
+import { MediaViewer } from './MediaViewer';
+import { MediaThumbnail } from './MediaThumbnail';
+
+const MEDIA_PAGE_SIZE = 30;
 
 type MediaTab = 'media' | 'files' | 'voice' | 'links';
 
 export const GroupInfo = () => {
   const { user } = useAuth();
-  const { activeChat, messages, setShowChatInfo, getChatDisplayName, getChatAvatar, getOtherUser, createDirectChat } = useMessenger();
+  const { activeChat, messages, setShowChatInfo, getChatDisplayName, getChatAvatar, getOtherUser, createDirectChat, fetchChatMedia } = useMessenger();
   const [activeMediaTab, setActiveMediaTab] = useState<MediaTab>('media');
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [inviteCode, setInviteCode] = useState<string | null>(null);
-  const [copied, setCopied] = useState(false);
-  const { createInvite, muteChat } = useMessenger();
+  const { muteChat, updateChat } = useMessenger();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editAvatar, setEditAvatar] = useState<string | null>(null);
+  const [editIsPublic, setEditIsPublic] = useState(false);
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  // Media comes from the server page by page, newest first, rather than from the loaded messages.
+  const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
+  const [hasOlderMedia, setHasOlderMedia] = useState(false);
+  const [isLoadingMedia, setIsLoadingMedia] = useState(false);
+  const [viewerItemId, setViewerItemId] = useState<string | null>(null);
+  const mediaRequestRef = useRef(0);
 
   useEffect(() => {
     if (!activeChat) return;
     setNotificationsEnabled(!activeChat.muted);
   }, [activeChat]);
 
+  useEffect(() => {
+    setIsEditing(false);
+    setViewerItemId(null);
+  }, [activeChat?.id]);
+
+  const loadMedia = useCallback(async (chatId: string, before?: string) => {
+    const request = ++mediaRequestRef.current;
+    setIsLoadingMedia(true);
+    try {
+      const page = await fetchChatMedia(chatId, { before, limit: MEDIA_PAGE_SIZE });
+      // A chat switch or refresh meanwhile makes this page stale.
+      if (request !== mediaRequestRef.current) return;
+      const newestFirst = [...page.items].reverse();
+      setMediaItems(prev => before ? [...prev, ...newestFirst] : newestFirst);
+      setHasOlderMedia(!!page.hasOlder);
+    } catch (e) {
+      console.error('Failed to load media:', e);
+    } finally {
+      if (request === mediaRequestRef.current) setIsLoadingMedia(false);
+    }
+  }, [fetchChatMedia]);
+
+  // New or deleted media in the open chat refreshes the first page.
+  const loadedMediaKey = messages
+    .filter(m => m.message_type === 'image' || m.message_type === 'video' || m.message_type === 'album')
+    .map(m => m.id)
+    .join();
+  useEffect(() => {
+    if (activeChat?.id) loadMedia(activeChat.id);
+  }, [activeChat?.id, loadedMediaKey, loadMedia]);
+
+  const closeViewer = useCallback(() => setViewerItemId(null), []);
+
   if (!activeChat) return null;
 
-  const mediaMessages = messages.filter(m => m.message_type === 'image' || m.message_type === 'video');
   const fileMessages = messages.filter(m => m.message_type === 'file');
   const voiceMessages = messages.filter(m => m.message_type === 'audio');
   // Simple regex for links
@@ -45,21 +101,53 @@ export const GroupInfo = () => {
     }
   };
 
-  const handleCreateInvite = async () => {
+  const isChannel = activeChat.chat_type === 'channel';
+  const canEditInfo = activeChat.is_group && !!activeChat.permissions?.edit_info;
+
+  const startEditing = () => {
+    setEditName(activeChat.name || '');
+    setEditDescription(activeChat.description || '');
+    setEditAvatar(activeChat.avatar);
+    setEditIsPublic(!!activeChat.is_public);
+    setIsEditing(true);
+  };
+
+  const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (avatarInputRef.current) avatarInputRef.current.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image');
+      return;
+    }
+    setIsUploadingAvatar(true);
     try {
-      const { code } = await createInvite(activeChat.id);
-      setInviteCode(code);
-    } catch (e) {
-      console.error('Failed to create invite:', e);
+      const { url } = await api.uploadFile(file);
+      setEditAvatar(url);
+    } catch (err) {
+      toast.error('Failed to upload avatar');
+    } finally {
+      setIsUploadingAvatar(false);
     }
   };
 
-  const copyInvite = () => {
-    if (!inviteCode) return;
-    const link = `${window.location.origin}/join/${inviteCode}`;
-    navigator.clipboard.writeText(link);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const handleSaveInfo = async () => {
+    if (!editName.trim()) return;
+    setIsSaving(true);
+    try {
+      await updateChat(activeChat.id, {
+        name: editName.trim(),
+        description: editDescription.trim(),
+        avatar: editAvatar || '',
+        ...(isChannel && { isPublic: editIsPublic }),
+      });
+      setIsEditing(false);
+      toast.success('Chat info updated');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to update chat');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const mediaTabs: { key: MediaTab; label: string }[] = [
@@ -72,7 +160,7 @@ export const GroupInfo = () => {
   return (
     <div className="w-[320px] xl:w-[360px] 2xl:w-[400px] messenger-panel border-l border-white/10 flex flex-col animate-in slide-in-from-right duration-300">
       <div className="flex items-center justify-between px-4 py-4 border-b border-white/10">
-        <h3 className="font-semibold text-white">Group info</h3>
+        <h3 className="font-semibold text-white">{isChannel ? 'Channel info' : 'Group info'}</h3>
         <button
           onClick={() => setShowChatInfo(false)}
           className="p-1.5 rounded-xl hover:bg-white/5 transition-colors text-[#6b7280] hover:text-white"
@@ -81,42 +169,115 @@ export const GroupInfo = () => {
         </button>
       </div>
 
-      <div className="p-4">
-        <div className="flex items-center gap-3 mb-4">
-          <div className="w-14 h-14 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
-            <AvatarImage
-              src={displayAvatar}
-              alt={displayName}
-              className="w-full h-full"
-              fallback={<span className="text-white font-bold text-xl">{displayName.charAt(0).toUpperCase()}</span>}
+      {isEditing ? (
+        <div className="p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={isUploadingAvatar}
+              className="relative w-14 h-14 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center group flex-shrink-0"
+            >
+              <AvatarImage
+                src={editAvatar}
+                alt={editName || displayName}
+                className="w-full h-full"
+                fallback={<span className="text-white font-bold text-xl">{(editName || displayName).charAt(0).toUpperCase()}</span>}
+              />
+              <span className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                {isUploadingAvatar ? <Loader2 size={18} className="animate-spin text-white" /> : <Camera size={18} className="text-white" />}
+              </span>
+            </button>
+            <input type="file" accept="image/*" ref={avatarInputRef} className="hidden" onChange={handleAvatarUpload} />
+            <Input
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              maxLength={100}
+              placeholder={isChannel ? 'Channel name' : 'Group name'}
+              className="messenger-input border-white/10"
             />
           </div>
-          <div>
-            <h4 className="font-semibold text-white">{displayName}</h4>
-            <p className="text-xs text-[#6b7280]">
-              {activeChat.is_group ? (
-                <>
-                  {activeChat.members?.length || 0} Members {'\u2022'} <span className="text-green-500">{onlineMembers} Online</span>
-                </>
-              ) : isOnline ? (
-                <span className="text-green-500">Online</span>
-              ) : (
-                'Offline'
-              )}
-            </p>
+          {editAvatar && (
+            <button onClick={() => setEditAvatar(null)} className="text-[10px] text-[#6b7280] hover:text-white transition-colors">
+              Remove photo
+            </button>
+          )}
+          <Textarea
+            value={editDescription}
+            onChange={(e) => setEditDescription(e.target.value)}
+            maxLength={500}
+            placeholder="Description"
+            className="messenger-input border-white/10 text-sm min-h-[72px]"
+          />
+          {isChannel && (
+            <label className="flex items-center justify-between text-sm text-white cursor-pointer">
+              <span>
+                Public channel
+                <span className="block text-[10px] text-[#6b7280]">Anyone can find and subscribe</span>
+              </span>
+              <Switch checked={editIsPublic} onCheckedChange={setEditIsPublic} />
+            </label>
+          )}
+          <div className="flex gap-2">
+            <Button variant="ghost" className="flex-1" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleSaveInfo} disabled={!editName.trim() || isSaving || isUploadingAvatar}>
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : 'Save'}
+            </Button>
           </div>
         </div>
+      ) : (
+        <div className="p-4">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-14 h-14 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+              <AvatarImage
+                src={displayAvatar}
+                alt={displayName}
+                className="w-full h-full"
+                fallback={<span className="text-white font-bold text-xl">{displayName.charAt(0).toUpperCase()}</span>}
+              />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h4 className="font-semibold text-white truncate">{displayName}</h4>
+              <p className="text-xs text-[#6b7280]">
+                {isChannel ? (
+                  <>
+                    {activeChat.member_count ?? activeChat.members?.length ?? 0} Subscribers
+                    {activeChat.is_public && <> {'\u2022'} Public</>}
+                  </>
+                ) : activeChat.is_group ? (
+                  <>
+                    {activeChat.members?.length || 0} Members {'\u2022'} <span className="text-green-500">{onlineMembers} Online</span>
+                  </>
+                ) : isOnline ? (
+                  <span className="text-green-500">Online</span>
+                ) : (
+                  'Offline'
+                )}
+              </p>
+            </div>
+            {canEditInfo && (
+              <button
+                onClick={startEditing}
+                className="p-1.5 rounded-xl hover:bg-white/5 transition-colors text-[#6b7280] hover:text-white"
+                title="Edit info"
+              >
+                <Pencil size={16} />
+              </button>
+            )}
+          </div>
 
-        {activeChat.description && (
-          <p className="text-xs text-[#6b7280] mb-4 leading-relaxed">{activeChat.description}</p>
-        )}
+          {activeChat.description && (
+            <p className="text-xs text-[#6b7280] mb-4 leading-relaxed">{activeChat.description}</p>
+          )}
 
-        {!activeChat.description && activeChat.is_group && (
-          <p className="text-xs text-[#6b7280] mb-4 leading-relaxed">
-            No description available.
-          </p>
-        )}
-      </div>
+          {!activeChat.description && activeChat.is_group && (
+            <p className="text-xs text-[#6b7280] mb-4 leading-relaxed">
+              No description available.
+            </p>
+          )}
+        </div>
+      )}
 
       <div className="px-4 pb-4">
         <div className="flex items-center justify-between py-3 border-t border-b border-white/10">
@@ -147,62 +308,11 @@ export const GroupInfo = () => {
             </button>
           </div>
         </div>
-
-        {activeChat.is_group && (
-          <div className="mt-4">
-            {!inviteCode ? (
-              <button
-                onClick={handleCreateInvite}
-                className="w-full py-2.5 bg-primary/10 hover:bg-primary/20 text-primary border border-primary/20 rounded-xl text-sm font-medium flex items-center justify-center gap-2 transition-all"
-              >
-                <UserPlus size={18} />
-                Invite to Group
-              </button>
-            ) : (
-              <div className="p-3 bg-primary/5 border border-primary/20 rounded-xl">
-                <p className="text-[10px] text-muted-foreground mb-2 uppercase tracking-wider font-bold">Invite Code</p>
-                <div className="flex items-center gap-2">
-                  <code className="flex-1 bg-black/20 p-2 rounded text-primary text-sm font-mono tracking-widest">{inviteCode}</code>
-                  <button
-                    onClick={copyInvite}
-                    className="p-2 hover:bg-primary/20 text-primary rounded-lg transition-all"
-                  >
-                    {copied ? <Check size={18} /> : <Copy size={18} />}
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
-        )}
       </div>
 
-      {activeChat.is_group && activeChat.members && (
-        <div className="px-4 pb-4">
-          <div className="flex items-center justify-between mb-3">
-            <span className="text-sm text-white">Members</span>
-            <div className="flex -space-x-1.5">
-              {activeChat.members.slice(0, 4).map((member) => (
-                <div
-                  key={member.id}
-                  className="w-6 h-6 rounded-full overflow-hidden border border-transparent bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center"
-                >
-                  <AvatarImage
-                    src={member.avatar}
-                    alt={member.username}
-                    className="w-full h-full"
-                    fallback={<span className="text-white text-[10px]">{member.username.charAt(0).toUpperCase()}</span>}
-                  />
-                </div>
-              ))}
-              {activeChat.members.length > 4 && (
-                <div className="w-6 h-6 rounded-full bg-white/8 border border-white/10 flex items-center justify-center">
-                  <span className="text-[8px] text-[#6b7280]">+{activeChat.members.length - 4}</span>
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
-      )}
+      <ChatInvites />
+
+      <GroupMembers onOpenDirectChat={handleStartDirectChat} />
 
       <div className="px-4 pb-3">
         <div className="flex gap-1 messenger-input p-1 rounded-2xl">
@@ -225,21 +335,35 @@ export const GroupInfo = () => {
 
       <div className="flex-1 overflow-y-auto px-4 pb-4 messenger-scrollbar">
         {activeMediaTab === 'media' && (
-          mediaMessages.length > 0 ? (
-            <div className="grid grid-cols-3 gap-1.5">
-              {mediaMessages.map((msg) => (
-                <div
-                  key={msg.id}
-                  className="aspect-square rounded-xl overflow-hidden bg-white/8 border border-white/10 cursor-pointer hover:opacity-80 transition-opacity"
-                  onClick={() => window.open(msg.content, '_blank')}
+          mediaItems.length > 0 ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-1.5">
+                {mediaItems.map((item) => (
+                  <div
+                    key={item.id}
+                    className="relative aspect-square rounded-xl overflow-hidden bg-white/8 border border-white/10 cursor-pointer hover:opacity-80 transition-opacity"
+                    onClick={() => setViewerItemId(item.id)}
+                  >
+                    <MediaThumbnail item={item} className="w-full h-full" />
+                    {item.media_type === 'video' && (
+                      <Play size={16} className="absolute bottom-1.5 left-1.5 text-white drop-shadow" />
+                    )}
+                  </div>
+                ))}
+              </div>
+              {hasOlderMedia && (
+                <button
+                  onClick={() => loadMedia(activeChat.id, mediaItems[mediaItems.length - 1]?.id)}
+                  disabled={isLoadingMedia}
+                  className="w-full py-2 text-xs font-semibold text-primary hover:text-primary/80 transition-colors disabled:opacity-60"
                 >
-                  {msg.message_type === 'video' ? (
-                    <video src={msg.file_url || msg.content} className="w-full h-full object-cover" muted />
-                  ) : (
-                    <img src={msg.content} alt="Shared media" className="w-full h-full object-cover" />
-                  )}
-                </div>
-              ))}
+                  {isLoadingMedia ? <Loader2 size={16} className="animate-spin mx-auto" /> : 'Load more'}
+                </button>
+              )}
+            </div>
+          ) : isLoadingMedia ? (
+            <div className="flex justify-center py-8">
+              <Loader2 size={20} className="animate-spin text-muted-foreground" />
             </div>
           ) : (
             <div className="flex flex-col items-center justify-center py-8 text-[#6b7280]">
@@ -327,6 +451,10 @@ export const GroupInfo = () => {
           )
         )}
       </div>
+
+      {viewerItemId && (
+        <MediaViewer chatId={activeChat.id} initialItemId={viewerItemId} onClose={closeViewer} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react';
+import { MoreHorizontal, UserPlus, LogOut, Shield, ShieldOff, UserMinus, Ban, Crown, Loader2 } from 'lucide-react';
+import { useMessenger, ChatRole } from '@/context/MessengerContext';
+import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AvatarImage } from '@/components/AvatarImage';
+
+// Mirrors the rank rules in server/policy.js so the menu only offers what the server accepts.
+const ROLE_RANK: Record<ChatRole, number> = { owner: 4, admin: 3, moderator: 2, member: 1, readonly: 0 };
+
+const ROLE_LABELS: Record<ChatRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  moderator: 'Moderator',
+  member: 'Member',
+  readonly: 'Read-only',
+};
+
+const ASSIGNABLE_ROLES: ChatRole[] = ['admin', 'moderator', 'member', 'readonly'];
+
+const canAssignRole = (actor: ChatRole, role: ChatRole) => {
+  if (role === 'owner') return actor === 'owner';
+  if (role === 'admin') return actor === 'owner' || actor === 'admin';
+  return ROLE_RANK[actor] > ROLE_RANK[role];
+};
+
+interface SearchUser {
+  id: string;
+  username: string;
+  avatar: string | null;
+}
+
+interface BannedUser extends SearchUser {
+  banned_at: string;
+}
+
+interface GroupMembersProps {
+  onOpenDirectChat: (userId: string) => void;
+}
+
+export const GroupMembers = ({ onOpenDirectChat }: GroupMembersProps) => {
+  const { user } = useAuth();
+  const { activeChat, addMembers, changeMemberRole, removeMember, banMember, unbanMember, leaveChat } = useMessenger();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [userSearchQuery, setUserSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchUser[]>([]);
+  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [bannedUsers, setBannedUsers] = useState<BannedUser[]>([]);
+
+  const chatId = activeChat?.id;
+  const canManage = !!activeChat?.permissions?.manage_members;
+  const memberCount = activeChat?.members.length;
+
+  useEffect(() => {
+    if (!chatId || !canManage) {
+      setBannedUsers([]);
+      return;
+    }
+    api.getChatBans(chatId)
+      .then((data) => setBannedUsers(Array.isArray(data) ? data : []))
+      .catch((e) => console.error('Failed to load banned users:', e));
+  }, [chatId, canManage, memberCount]);
+
+  if (!activeChat || !activeChat.is_group) return null;
+
+  const myRole: ChatRole = activeChat.role || 'member';
+  const isChannel = activeChat.chat_type === 'channel';
+  // Channel subscribers only get the admins back from the server, not the full subscriber list.
+  const listTitle = isChannel && !canManage ? 'Admins' : isChannel ? 'Subscribers' : 'Members';
+  const listCount = isChannel && canManage ? activeChat.member_count ?? activeChat.members.length : activeChat.members.length;
+  const canInvite = !!activeChat.permissions?.invite;
+  const members = [...activeChat.members].sort((a, b) => (
+    ROLE_RANK[b.role || 'member'] - ROLE_RANK[a.role || 'member'] || a.username.localeCompare(b.username)
+  ));
+
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Something went wrong');
+    }
+  };
+
+  const searchUsers = async (q: string) => {
+    if (!q.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    setIsSearching(true);
+    try {
+      const results = await api.searchUsers(q);
+      const memberIds = new Set(activeChat.members.map((m) => m.id));
+      setSearchResults((Array.isArray(results) ? results : []).filter((u: SearchUser) => !memberIds.has(u.id)));
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const toggleMember = (userId: string) => {
+    setSelectedMembers((prev) => (
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    ));
+  };
+
+  const closeAddDialog = (open: boolean) => {
+    setIsAddOpen(open);
+    if (!open) {
+      setUserSearchQuery('');
+      setSearchResults([]);
+      setSelectedMembers([]);
+    }
+  };
+
+  const handleAddMembers = async () => {
+    if (selectedMembers.length === 0) return;
+    setIsAdding(true);
+    await runAction(() => addMembers(activeChat.id, selectedMembers), 'Members added');
+    setIsAdding(false);
+    closeAddDialog(false);
+  };
+
+  const handleRemove = (userId: string, username: string) => {
+    if (!confirm(`Remove ${username} from the group?`)) return;
+    runAction(() => removeMember(activeChat.id, userId), `${username} removed`);
+  };
+
+  const handleBan = (userId: string, username: string) => {
+    if (!confirm(`Ban ${username}? They won't be able to rejoin with an invite link.`)) return;
+    runAction(() => banMember(activeChat.id, userId), `${username} banned`);
+  };
+
+  const handleTransferOwnership = (userId: string, username: string) => {
+    if (!confirm(`Make ${username} the owner? You will become an admin.`)) return;
+    runAction(() => changeMemberRole(activeChat.id, userId, 'owner'), `${username} is now the owner`);
+  };
+
+  const handleLeave = () => {
+    const isLastAdmin = ['owner', 'admin'].includes(myRole)
+      && !activeChat.members.some((m) => m.id !== user?.id && ['owner', 'admin'].includes(m.role || ''));
+    const warning = isLastAdmin && activeChat.members.length > 1
+      ? ' Admin rights will pass to the most senior remaining member.'
+      : '';
+    const noun = isChannel ? 'channel' : 'group';
+    if (!confirm(`Leave this ${noun}?${warning}`)) return;
+    runAction(() => leaveChat(activeChat.id), `You left the ${noun}`);
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-white">
+          {listTitle} <span className="text-[#6b7280]">{listCount}</span>
+        </span>
+        {canInvite && (
+          <button
+            onClick={() => setIsAddOpen(true)}
+            className="p-1.5 rounded-xl hover:bg-white/5 transition-colors text-[#6b7280] hover:text-white"
+            title="Add members"
+          >
+            <UserPlus size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto messenger-scrollbar">
+        {members.map((member) => {
+          const memberRole: ChatRole = member.role || 'member';
+          const isSelf = member.id === user?.id;
+          const manageable = canManage && !isSelf && ROLE_RANK[myRole] > ROLE_RANK[memberRole];
+          const roleOptions = ASSIGNABLE_ROLES.filter((role) => role !== memberRole && canAssignRole(myRole, role));
+
+          return (
+            <div key={member.id} className="flex items-center gap-3 p-2 rounded-xl hover:bg-white/5 group">
+              <button
+                onClick={() => onOpenDirectChat(member.id)}
+                disabled={isSelf}
+                className="flex items-center gap-3 flex-1 min-w-0 text-left disabled:cursor-default"
+              >
+                <div className="relative w-8 h-8 flex-shrink-0">
+                  <div className="w-8 h-8 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                    <AvatarImage
+                      src={member.avatar}
+                      alt={member.username}
+                      className="w-full h-full"
+                      fallback={<span className="text-white text-xs">{member.username.charAt(0).toUpperCase()}</span>}
+                    />
+                  </div>
+                  {member.is_online && (
+                    <span className="absolute bottom-0 right-0 w-2.5 h-2.5 rounded-full bg-green-500 ring-2 ring-[#12121a]" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {member.username}
+                    {isSelf && <span className="text-[#6b7280]"> (you)</span>}
+                  </p>
+                </div>
+              </button>
+              {memberRole !== 'member' && (
+                <span
+                  className={cn(
+                    'text-[10px] font-medium px-2 py-0.5 rounded-full',
+                    memberRole === 'owner' || memberRole === 'admin'
+                      ? 'bg-primary/15 text-primary'
+                      : 'bg-white/5 text-[#6b7280]'
+                  )}
+                >
+                  {ROLE_LABELS[memberRole]}
+                </span>
+              )}
+              {manageable && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button className="p-1 rounded-lg text-[#6b7280] hover:text-white hover:bg-white/5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <MoreHorizontal size={16} />
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-52 bg-[#1a1a24] border-white/10 backdrop-blur-xl p-2 rounded-2xl shadow-2xl" align="end">
+                    <div className="space-y-1">
+                      {roleOptions.map((role) => (
+                        <button
+                          key={role}
+                          onClick={() => runAction(
+                            () => changeMemberRole(activeChat.id, member.id, role),
+                            `${member.username} is now ${ROLE_LABELS[role].toLowerCase()}`
+                          )}
+                          className="w-full flex items-center gap-3 px-3 py-2 text-sm rounded-xl hover:bg-white/5 text-white transition-colors"
+                        >
+                          {ROLE_RANK[role] > ROLE_RANK[memberRole]
+                            ? <Shield size={14} className="text-white/40" />
+                            : <ShieldOff size={14} className="text-white/40" />}
+                          Make {ROLE_LABELS[role].toLowerCase()}
+                        </button>
+                      ))}
+                      {myRole === 'owner' && (
+                        <button
+                          onClick={() => handleTransferOwnership(member.id, member.username)}
+                          className="w-full flex items-center gap-3 px-3 py-2 text-sm rounded-xl hover:bg-white/5 text-white transition-colors"
+                        >
+                          <Crown size={14} className="text-white/40" /> Transfer ownership
+                        </button>
+                      )}
+                      <div className="h-px bg-white/5 my-1" />
+                      <button
+                        onClick={() => handleRemove(member.id, member.username)}
+                        className="w-full flex items-center gap-3 px-3 py-2 text-sm rounded-xl hover:bg-white/5 text-red-400 transition-colors"
+                      >
+                        <UserMinus size={14} className="text-red-400/50" /> Remove
+                      </button>
+                      <button
+                        onClick={() => handleBan(member.id, member.username)}
+                        className="w-full flex items-center gap-3 px-3 py-2 text-sm rounded-xl hover:bg-white/5 text-red-400 transition-colors"
+                      >
+                        <Ban size={14} className="text-red-400/50" /> Ban
+                      </button>
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && bannedUsers.length > 0 && (
+        <div className="mt-3">
+          <p className="text-[10px] text-muted-foreground mb-1 uppercase tracking-wider font-bold">Banned</p>
+          {bannedUsers.map((banned) => (
+            <div key={banned.id} className="flex items-center justify-between px-2 py-1.5">
+              <span className="text-xs text-[#6b7280] truncate">{banned.username}</span>
+              <button
+                onClick={() => runAction(async () => {
+                  await unbanMember(activeChat.id, banned.id);
+                  setBannedUsers((prev) => prev.filter((b) => b.id !== banned.id));
+                }, `${banned.username} unbanned`)}
+                className="text-[10px] text-primary hover:underline"
+              >
+                Unban
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleLeave}
+        className="mt-3 w-full py-2 rounded-xl text-sm text-red-400 hover:bg-red-500/10 flex items-center justify-center gap-2 transition-colors"
+      >
+        <LogOut size={16} />
+        Leave {isChannel ? 'channel' : 'group'}
+      </button>
+
+      <Dialog open={isAddOpen} onOpenChange={closeAddDialog}>
+        <DialogContent className="messenger-panel border-white/10">
+          <DialogHeader>
+            <DialogTitle>Add Members</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Search users to add..."
+              value={userSearchQuery}
+              onChange={(e) => {
+                setUserSearchQuery(e.target.value);
+                searchUsers(e.target.value);
+              }}
+              className="messenger-input border-white/10"
+            />
+            {selectedMembers.length > 0 && (
+              <p className="text-sm text-[#6b7280]">
+                {selectedMembers.length} member(s) selected
+              </p>
+            )}
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {isSearching && <Loader2 size={16} className="animate-spin mx-auto text-[#6b7280]" />}
+              {searchResults.map((u) => (
+                <div
+                  key={u.id}
+                  onClick={() => toggleMember(u.id)}
+                  className={cn(
+                    'flex items-center gap-3 p-2 rounded-xl cursor-pointer',
+                    selectedMembers.includes(u.id) ? 'bg-primary/20' : 'hover:bg-white/5'
+                  )}
+                >
+                  <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                    <AvatarImage
+                      src={u.avatar}
+                      alt={u.username}
+                      className="w-full h-full rounded-full"
+                      fallback={<span className="text-white text-sm">{u.username.charAt(0).toUpperCase()}</span>}
+                    />
+                  </div>
+                  <span className="text-sm">{u.username}</span>
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleAddMembers} className="w-full" disabled={selectedMembers.length === 0 || isAdding}>
+              {isAdding ? <Loader2 size={16} className="animate-spin" /> : 'Add'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { LinkPreview } from '@/context/MessengerContext';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  className?: string;
+}
+
+// The image comes straight from the linked site, so it is dropped quietly when it fails.
+export const LinkPreviewCard = ({ preview, className }: LinkPreviewCardProps) => {
+  const [imageFailed, setImageFailed] = useState(false);
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className={cn('mt-2 block max-w-[320px] rounded-lg border-l-2 border-primary/60 bg-black/20 overflow-hidden hover:bg-black/30 transition-colors', className)}
+    >
+      {preview.image_url && !imageFailed && (
+        <img
+          src={preview.image_url}
+          alt=""
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={() => setImageFailed(true)}
+          className="w-full max-h-[180px] object-cover"
+        />
+      )}
+      <div className="px-3 py-2 space-y-0.5">
+        {preview.site_name && (
+          <div className="text-[10px] text-primary/80 font-semibold uppercase tracking-wider truncate">{preview.site_name}</div>
+        )}
+        {preview.title && <div className="text-[13px] font-semibold text-white line-clamp-2">{preview.title}</div>}
+        {preview.description && <div className="text-[12px] text-white/60 line-clamp-3">{preview.description}</div>}
+      </div>
+    </a>
+  );
+};
@@ -0,0 +1,65 @@
+import { useState, useRef, useEffect } from 'react';
+import { decode } from 'blurhash';
+import { cn } from '@/lib/utils';
+import type { MediaMetadata } from '@/context/MessengerContext';
+
+// Blurhashes are decoded at a tiny size and stretched by CSS; the blur hides the pixels.
+const BLURHASH_DECODE_SIZE = 32;
+
+interface BlurhashCanvasProps {
+  hash: string;
+  className?: string;
+}
+
+export const BlurhashCanvas = ({ hash, className }: BlurhashCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    try {
+      const pixels = decode(hash, BLURHASH_DECODE_SIZE, BLURHASH_DECODE_SIZE);
+      const image = context.createImageData(BLURHASH_DECODE_SIZE, BLURHASH_DECODE_SIZE);
+      image.data.set(pixels);
+      context.putImageData(image, 0, 0);
+    } catch (e) {
+      // A malformed hash just leaves the placeholder blank.
+    }
+  }, [hash]);
+
+  return <canvas ref={canvasRef} width={BLURHASH_DECODE_SIZE} height={BLURHASH_DECODE_SIZE} className={cn('w-full h-full', className)} />;
+};
+
+interface MediaThumbnailProps {
+  item: MediaMetadata & { media_type: string; file_url: string; file_name?: string | null };
+  className?: string;
+  // Single photos keep their own shape; album tiles and grids crop to their cell.
+  reserveAspect?: boolean;
+}
+
+// Shows the server-made thumbnail over its blurhash, so the layout is reserved and
+// something is on screen before the image arrives. Videos fall back to their first
+// frame when no poster was uploaded with them.
+export const MediaThumbnail = ({ item, className, reserveAspect }: MediaThumbnailProps) => {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const src = item.thumbnail_url || (item.media_type === 'image' ? item.file_url : null);
+  const aspectRatio = reserveAspect && item.width && item.height ? item.width / item.height : undefined;
+
+  return (
+    <span className={cn('relative block overflow-hidden bg-white/5', className)} style={{ aspectRatio }}>
+      {item.blurhash && !isLoaded && <BlurhashCanvas hash={item.blurhash} className="absolute inset-0" />}
+      {src ? (
+        <img
+          src={src}
+          alt={item.file_name || (item.media_type === 'video' ? 'Shared video' : 'Shared image')}
+          loading="lazy"
+          onLoad={() => setIsLoaded(true)}
+          className={cn('relative w-full h-full object-cover transition-opacity duration-300', isLoaded ? 'opacity-100' : 'opacity-0')}
+        />
+      ) : (
+        <video src={item.file_url} className="w-full h-full object-cover" muted preload="metadata" />
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,364 @@
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Download, MessageSquare, Loader2 } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { useMessenger, type MediaItem } from '@/context/MessengerContext';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { AvatarImage } from '@/components/AvatarImage';
+import { MediaThumbnail } from './MediaThumbnail';
+
+interface MediaViewerProps {
+  chatId: string;
+  initialItemId: string;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 30;
+// Start loading the next page this many items before the end of what is loaded.
+const PREFETCH_DISTANCE = 3;
+const SWIPE_DISTANCE = 60;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+
+const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+
+const fileNameOf = (item: MediaItem) =>
+  item.file_name || decodeURIComponent(item.file_url.split('/').pop() || '') || (item.media_type === 'video' ? 'video' : 'photo');
+
+export const MediaViewer = ({ chatId, initialItemId, onClose }: MediaViewerProps) => {
+  const { fetchChatMedia, jumpToMessage } = useMessenger();
+  const [items, setItems] = useState<MediaItem[]>([]);
+  const [index, setIndex] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const onCloseRef = useRef(onClose);
+  const loadingSideRef = useRef<'older' | 'newer' | null>(null);
+  const dragRef = useRef<{ x: number; y: number; pan: { x: number; y: number } } | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+
+  const current = items[index];
+  const canZoom = current?.media_type === 'image';
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchChatMedia(chatId, { around: initialItemId, limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setItems(page.items);
+        setIndex(Math.max(0, page.items.findIndex(item => item.id === initialItemId)));
+        setOffset(page.offset);
+        setTotal(page.total);
+        setHasOlder(!!page.hasOlder);
+        setHasNewer(!!page.hasNewer);
+        setIsLoading(false);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.error('Failed to load media:', e);
+        toast.error('Failed to load media');
+        onCloseRef.current();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, initialItemId, fetchChatMedia]);
+
+  // Pages load as the viewer approaches either end of what it has.
+  useEffect(() => {
+    if (isLoading || loadingSideRef.current || items.length === 0) return;
+    if (hasOlder && index < PREFETCH_DISTANCE) {
+      loadingSideRef.current = 'older';
+      fetchChatMedia(chatId, { before: items[0].id, limit: PAGE_SIZE })
+        .then((page) => {
+          setItems(prev => [...page.items, ...prev]);
+          setIndex(prev => prev + page.items.length);
+          setOffset(page.offset);
+          setTotal(page.total);
+          setHasOlder(!!page.hasOlder);
+        })
+        .catch((e) => console.error('Failed to load older media:', e))
+        .finally(() => {
+          loadingSideRef.current = null;
+        });
+    } else if (hasNewer && index >= items.length - PREFETCH_DISTANCE) {
+      loadingSideRef.current = 'newer';
+      fetchChatMedia(chatId, { after: items[items.length - 1].id, limit: PAGE_SIZE })
+        .then((page) => {
+          setItems(prev => [...prev, ...page.items]);
+          setTotal(page.total);
+          setHasNewer(!!page.hasNewer);
+        })
+        .catch((e) => console.error('Failed to load newer media:', e))
+        .finally(() => {
+          loadingSideRef.current = null;
+        });
+    }
+  }, [chatId, index, items, hasOlder, hasNewer, isLoading, fetchChatMedia]);
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    setSwipeOffset(0);
+  };
+
+  const goTo = useCallback((next: number) => {
+    if (next < 0 || next >= items.length) return;
+    setIndex(next);
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    setSwipeOffset(0);
+  }, [items.length]);
+
+  const changeZoom = useCallback((factor: number) => {
+    if (!canZoom) return;
+    setZoom(prev => {
+      const next = clampZoom(prev * factor);
+      if (next === 1) setPan({ x: 0, y: 0 });
+      return next;
+    });
+  }, [canZoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') goTo(index - 1);
+      else if (e.key === 'ArrowRight') goTo(index + 1);
+      else if (e.key === '+' || e.key === '=') changeZoom(ZOOM_STEP);
+      else if (e.key === '-') changeZoom(1 / ZOOM_STEP);
+      else if (e.key === '0') {
+        setZoom(1);
+        setPan({ x: 0, y: 0 });
+      } else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, goTo, changeZoom, onClose]);
+
+  useEffect(() => {
+    const thumb = stripRef.current?.querySelector<HTMLElement>(`[data-media-id="${current?.id}"]`);
+    thumb?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }, [current?.id]);
+
+  // Dragging pans a zoomed photo; otherwise a horizontal swipe moves to the neighbour.
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('video')) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, pan };
+    setIsDragging(true);
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (zoom > 1) setPan({ x: drag.pan.x + dx, y: drag.pan.y + dy });
+    else setSwipeOffset(dx);
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    setIsDragging(false);
+    if (zoom === 1 && Math.abs(swipeOffset) > SWIPE_DISTANCE) {
+      goTo(swipeOffset < 0 ? index + 1 : index - 1);
+    }
+    setSwipeOffset(0);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    changeZoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+  };
+
+  const handleDoubleClick = () => {
+    if (!canZoom) return;
+    if (zoom > 1) resetView();
+    else setZoom(2);
+  };
+
+  const handleDownload = async () => {
+    if (!current) return;
+    try {
+      // Stored files check the session cookie before redirecting to the signed URL.
+      const res = await fetch(current.file_url, { credentials: 'include' });
+      if (!res.ok) throw new Error('Download failed');
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileNameOf(current);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      // Cross-origin files without CORS can still be opened directly.
+      window.open(current.file_url, '_blank');
+    }
+  };
+
+  const handleJumpToMessage = async () => {
+    if (!current) return;
+    onClose();
+    try {
+      await jumpToMessage(chatId, current.message_id);
+    } catch (e) {
+      toast.error('Message is no longer available');
+    }
+  };
+
+  const senderName = current?.sender?.username || 'Unknown';
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col animate-in fade-in duration-200 select-none">
+      <div className="flex items-center gap-3 px-4 py-3 text-white">
+        {current && (
+          <>
+            <div className="w-9 h-9 rounded-full bg-primary/20 flex-shrink-0 flex items-center justify-center overflow-hidden">
+              <AvatarImage
+                src={current.sender?.avatar}
+                alt={senderName}
+                className="w-full h-full rounded-full"
+                fallback={<span className="text-primary text-sm font-bold">{senderName.charAt(0).toUpperCase()}</span>}
+              />
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm font-semibold truncate">{senderName}</p>
+              <p className="text-xs text-white/50">{format(new Date(current.created_at), 'MMM d, yyyy HH:mm')}</p>
+            </div>
+          </>
+        )}
+        <span className="flex-1 text-center text-sm text-white/60 tabular-nums">
+          {current && total > 0 ? `${offset + index + 1} of ${total}` : ''}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => changeZoom(1 / ZOOM_STEP)}
+            disabled={!canZoom || zoom <= MIN_ZOOM}
+            className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+            title="Zoom out"
+          >
+            <ZoomOut size={20} />
+          </button>
+          <button
+            onClick={() => changeZoom(ZOOM_STEP)}
+            disabled={!canZoom || zoom >= MAX_ZOOM}
+            className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+            title="Zoom in"
+          >
+            <ZoomIn size={20} />
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!current}
+            className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+            title="Download"
+          >
+            <Download size={20} />
+          </button>
+          <button
+            onClick={handleJumpToMessage}
+            disabled={!current}
+            className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+            title="Show in chat"
+          >
+            <MessageSquare size={20} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors"
+            title="Close"
+          >
+            <X size={22} />
+          </button>
+        </div>
+      </div>
+
+      <div
+        className={cn('relative flex-1 min-h-0 flex items-center justify-center overflow-hidden touch-none', zoom > 1 && 'cursor-grab active:cursor-grabbing')}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onWheel={handleWheel}
+        onDoubleClick={handleDoubleClick}
+      >
+        {isLoading || !current ? (
+          <Loader2 size={32} className="animate-spin text-white/40" />
+        ) : current.media_type === 'video' ? (
+          <video
+            key={current.id}
+            src={current.file_url}
+            poster={current.thumbnail_url || undefined}
+            controls
+            autoPlay
+            playsInline
+            className="max-w-full max-h-full"
+            style={{ transform: `translateX(${swipeOffset}px)` }}
+          />
+        ) : (
+          <img
+            key={current.id}
+            src={current.file_url}
+            alt={fileNameOf(current)}
+            draggable={false}
+            className={cn('max-w-full max-h-full object-contain', !isDragging && 'transition-transform duration-150')}
+            style={{ transform: `translate(${pan.x + swipeOffset}px, ${pan.y}px) scale(${zoom})` }}
+          />
+        )}
+
+        {index > 0 && (
+          <button
+            onClick={() => goTo(index - 1)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="absolute left-4 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 text-white hidden sm:flex items-center justify-center transition-colors"
+            title="Previous"
+          >
+            <ChevronLeft size={24} />
+          </button>
+        )}
+        {index < items.length - 1 && (
+          <button
+            onClick={() => goTo(index + 1)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="absolute right-4 top-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-white/10 hover:bg-white/20 text-white hidden sm:flex items-center justify-center transition-colors"
+            title="Next"
+          >
+            <ChevronRight size={24} />
+          </button>
+        )}
+      </div>
+
+      {items.length > 1 && (
+        <div ref={stripRef} className="flex gap-1.5 max-w-full mx-auto px-4 py-3 overflow-x-auto no-scrollbar">
+          {items.map((item, i) => (
+            <button
+              key={item.id}
+              data-media-id={item.id}
+              onClick={() => goTo(i)}
+              className={cn(
+                'w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden ring-2 transition-all',
+                i === index ? 'ring-primary opacity-100' : 'ring-transparent opacity-50 hover:opacity-80'
+              )}
+            >
+              <MediaThumbnail item={item} className="w-full h-full" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>,
+    document.body
+  );
+};
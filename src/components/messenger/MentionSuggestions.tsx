@@ -0,0 +1,40 @@
+import { cn } from '@/lib/utils';
+import { AvatarImage } from '@/components/AvatarImage';
+
+interface MentionSuggestionsProps {
+  members: { id: string; username: string; avatar: string | null }[];
+  activeIndex: number;
+  onSelect: (username: string) => void;
+  onHover: (index: number) => void;
+}
+
+export const MentionSuggestions = ({ members, activeIndex, onSelect, onHover }: MentionSuggestionsProps) => (
+  <div className="absolute bottom-full left-4 right-4 md:left-8 md:right-8 2xl:left-12 2xl:right-12 mb-1 max-w-sm rounded-2xl bg-[#1a1a24] border border-white/10 shadow-2xl p-1.5 z-30" role="listbox">
+    {members.map((member, i) => (
+      <button
+        key={member.id}
+        type="button"
+        role="option"
+        aria-selected={i === activeIndex}
+        // Keeps the composer focused so the caret position survives the click.
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onSelect(member.username)}
+        onMouseEnter={() => onHover(i)}
+        className={cn(
+          'w-full flex items-center gap-2.5 px-2.5 py-1.5 rounded-xl text-left transition-colors',
+          i === activeIndex ? 'bg-white/10' : 'hover:bg-white/5'
+        )}
+      >
+        <div className="w-7 h-7 rounded-full overflow-hidden flex-shrink-0 bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center">
+          <AvatarImage
+            src={member.avatar}
+            alt={member.username}
+            className="w-full h-full"
+            fallback={<span className="text-white text-[10px] font-bold">{member.username.charAt(0).toUpperCase()}</span>}
+          />
+        </div>
+        <span className="text-sm text-white/90 truncate">@{member.username}</span>
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,129 @@
+import { useState, useEffect, useMemo, Fragment, type ReactNode } from 'react';
+import type { Root, RootContent } from 'hast';
+import { cn } from '@/lib/utils';
+import { parseMarkup, type InlineNode } from '@/lib/markup';
+import { useAuth } from '@/context/AuthContext';
+import type { MessageEntity } from '@/context/MessengerContext';
+
+const renderHighlighted = (nodes: RootContent[]): ReactNode[] => nodes.map((node, i) => {
+  if (node.type === 'text') return node.value;
+  if (node.type !== 'element') return null;
+  const { className } = node.properties;
+  return (
+    <span key={i} className={Array.isArray(className) ? className.join(' ') : undefined}>
+      {renderHighlighted(node.children)}
+    </span>
+  );
+});
+
+const CodeBlock = ({ language, text }: { language: string | null; text: string }) => {
+  const [highlighted, setHighlighted] = useState<Root | null>(null);
+
+  useEffect(() => {
+    setHighlighted(null);
+    if (!language) return;
+    let cancelled = false;
+    import('@/lib/highlight')
+      .then(({ highlightCode }) => {
+        if (!cancelled) setHighlighted(highlightCode(text, language));
+      })
+      .catch(() => {
+        // Without the grammars the block just stays plain.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [language, text]);
+
+  return (
+    <pre className="message-code-block messenger-scrollbar">
+      <code>{highlighted ? renderHighlighted(highlighted.children) : text}</code>
+    </pre>
+  );
+};
+
+const Spoiler = ({ children }: { children: ReactNode }) => {
+  const [isRevealed, setIsRevealed] = useState(false);
+  return (
+    <span
+      role={isRevealed ? undefined : 'button'}
+      tabIndex={isRevealed ? undefined : 0}
+      onClick={(e) => {
+        e.stopPropagation();
+        setIsRevealed(true);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') setIsRevealed(true);
+      }}
+      className={cn(
+        'rounded px-0.5 transition-colors duration-300',
+        isRevealed ? 'bg-white/10' : 'bg-white/30 text-transparent [&_*]:text-transparent [&_*]:bg-transparent cursor-pointer select-none'
+      )}
+      title={isRevealed ? undefined : 'Show spoiler'}
+    >
+      {children}
+    </span>
+  );
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const renderInline = (nodes: InlineNode[], renderText: (text: string) => ReactNode): ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text':
+      return <Fragment key={i}>{renderText(node.text)}</Fragment>;
+    case 'code':
+      return <code key={i} className="message-code">{node.text}</code>;
+    case 'bold':
+      return <strong key={i} className="font-semibold">{renderInline(node.children, renderText)}</strong>;
+    case 'italic':
+      return <em key={i}>{renderInline(node.children, renderText)}</em>;
+    case 'strike':
+      return <s key={i}>{renderInline(node.children, renderText)}</s>;
+    case 'spoiler':
+      return <Spoiler key={i}>{renderInline(node.children, renderText)}</Spoiler>;
+  }
+});
+
+interface MessageMarkupProps {
+  content: string;
+  entities?: MessageEntity[] | null;
+  // Applied to paragraphs and quotes, which carry the text styling of the surrounding view.
+  className?: string;
+}
+
+export const MessageMarkup = ({ content, entities, className }: MessageMarkupProps) => {
+  const { user } = useAuth();
+  const blocks = useMemo(() => parseMarkup(content), [content]);
+
+  // Formatting shifts text away from the entity offsets, so mentions are found again
+  // by the names the entities point at.
+  const renderText = useMemo(() => {
+    const mentions = new Map<string, string>();
+    entities?.forEach((entity) => {
+      if (entity.type === 'mention') mentions.set(content.slice(entity.offset, entity.offset + entity.length).toLowerCase(), entity.user_id);
+    });
+    if (mentions.size === 0) return (text: string) => text;
+    const names = [...mentions.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}_.])(${names.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+    return (text: string) => text.split(pattern).map((part, i) => {
+      const userId = i % 2 === 1 ? mentions.get(part.toLowerCase()) : undefined;
+      if (!userId) return part;
+      return (
+        <span key={i} className={cn('font-semibold text-primary', userId === user?.id && 'rounded bg-primary/20 px-0.5')}>
+          {part}
+        </span>
+      );
+    });
+  }, [content, entities, user?.id]);
+
+  return (
+    <>
+      {blocks.map((block, i) => {
+        if (block.type === 'codeBlock') return <CodeBlock key={i} language={block.language} text={block.text} />;
+        if (block.type === 'quote') return <blockquote key={i} className={cn(className, 'message-quote')}>{renderInline(block.children, renderText)}</blockquote>;
+        return <p key={i} className={className}>{renderInline(block.children, renderText)}</p>;
+      })}
+    </>
+  );
+};
@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { User, MessageCircle, CalendarDays, Image, Paperclip, Mic, Link2, SmilePlus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMessenger, type MessageSearchFilters, type MessageSearchType } from '@/context/MessengerContext';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { AvatarImage } from '@/components/AvatarImage';
+
+const TYPE_CHIPS: { type: MessageSearchType; label: string; icon: typeof Image }[] = [
+  { type: 'image', label: 'Photos', icon: Image },
+  { type: 'file', label: 'Files', icon: Paperclip },
+  { type: 'audio', label: 'Voice', icon: Mic },
+  { type: 'link', label: 'Links', icon: Link2 },
+];
+
+interface MessageSearchFilterBarProps {
+  filters: MessageSearchFilters;
+  onChange: (filters: MessageSearchFilters) => void;
+}
+
+const chipClass = (active: boolean) => cn(
+  'flex items-center gap-1.5 px-3 py-1 text-[11px] font-semibold rounded-full border transition-all whitespace-nowrap',
+  active ? 'bg-primary/15 border-primary/30 text-primary' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'
+);
+
+export const MessageSearchFilterBar = ({ filters, onChange }: MessageSearchFilterBarProps) => {
+  const { chats, getChatDisplayName } = useMessenger();
+  const [openPicker, setOpenPicker] = useState<'sender' | 'chat' | 'date' | null>(null);
+  const [pickerQuery, setPickerQuery] = useState('');
+
+  const update = (patch: Partial<MessageSearchFilters>) => onChange({ ...filters, ...patch });
+
+  // Senders come from the chats the user is in, narrowed to one chat once it's picked.
+  const senders = useMemo(() => {
+    const byId = new Map<string, { id: string; username: string; avatar: string | null }>();
+    chats
+      .filter((chat) => !filters.chatId || chat.id === filters.chatId)
+      .forEach((chat) => chat.members.forEach((member) => byId.set(member.id, member)));
+    return Array.from(byId.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }, [chats, filters.chatId]);
+
+  const selectedSender = senders.find((s) => s.id === filters.senderId);
+  const selectedChat = chats.find((c) => c.id === filters.chatId);
+  const range: DateRange | undefined = filters.from ? { from: new Date(filters.from), to: filters.to ? new Date(filters.to) : undefined } : undefined;
+  const hasFilters = Object.values(filters).some((value) => value !== undefined && value !== false);
+
+  const query = pickerQuery.trim().toLowerCase();
+  const senderOptions = senders.filter((s) => s.username.toLowerCase().includes(query));
+  const chatOptions = chats.filter((c) => getChatDisplayName(c).toLowerCase().includes(query));
+
+  const handlePickerOpen = (picker: typeof openPicker) => (open: boolean) => {
+    setOpenPicker(open ? picker : null);
+    setPickerQuery('');
+  };
+
+  const formatRange = () => {
+    if (!range?.from) return 'Date';
+    const from = format(range.from, 'MMM d');
+    return range.to && format(range.to, 'MMM d') !== from ? `${from} – ${format(range.to, 'MMM d')}` : from;
+  };
+
+  const pickerInput = (
+    <input
+      autoFocus
+      value={pickerQuery}
+      onChange={(e) => setPickerQuery(e.target.value)}
+      placeholder="Filter..."
+      className="w-full mb-2 messenger-input rounded-xl px-3 py-1.5 text-xs placeholder:text-[#6b7280] focus:outline-none text-white"
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-2">
+      <Popover open={openPicker === 'sender'} onOpenChange={handlePickerOpen('sender')}>
+        <PopoverTrigger asChild>
+          <button className={chipClass(!!filters.senderId)}>
+            <User size={12} />
+            {selectedSender ? `From ${selectedSender.username}` : 'From'}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 bg-[#1a1a24] border-white/10 backdrop-blur-xl p-2 rounded-2xl shadow-2xl" align="start">
+          {pickerInput}
+          <div className="max-h-60 overflow-y-auto messenger-scrollbar space-y-0.5">
+            {senderOptions.map((sender) => (
+              <button
+                key={sender.id}
+                onClick={() => {
+                  update({ senderId: sender.id === filters.senderId ? undefined : sender.id });
+                  setOpenPicker(null);
+                }}
+                className={cn(
+                  'w-full flex items-center gap-2 px-2 py-1.5 rounded-xl text-left text-xs transition-colors',
+                  sender.id === filters.senderId ? 'bg-white/10 text-white' : 'text-white/70 hover:bg-white/5'
+                )}
+              >
+                <div className="w-6 h-6 rounded-full overflow-hidden bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shrink-0">
+                  <AvatarImage
+                    src={sender.avatar}
+                    alt={sender.username}
+                    className="w-full h-full"
+                    fallback={<span className="text-white font-semibold text-[10px]">{sender.username.charAt(0).toUpperCase()}</span>}
+                  />
+                </div>
+                <span className="truncate">{sender.username}</span>
+              </button>
+            ))}
+            {senderOptions.length === 0 && <p className="text-center py-3 text-xs text-white/30">No people found</p>}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={openPicker === 'chat'} onOpenChange={handlePickerOpen('chat')}>
+        <PopoverTrigger asChild>
+          <button className={chipClass(!!filters.chatId)}>
+            <MessageCircle size={12} />
+            <span className="max-w-[120px] truncate">{selectedChat ? `In ${getChatDisplayName(selectedChat)}` : 'In'}</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 bg-[#1a1a24] border-white/10 backdrop-blur-xl p-2 rounded-2xl shadow-2xl" align="start">
+          {pickerInput}
+          <div className="max-h-60 overflow-y-auto messenger-scrollbar space-y-0.5">
+            {chatOptions.map((chat) => (
+              <button
+                key={chat.id}
+                onClick={() => {
+                  const chatId = chat.id === filters.chatId ? undefined : chat.id;
+                  // A sender outside the chosen chat would make the search empty.
+                  const keepsSender = !chatId || chat.members.some((m) => m.id === filters.senderId);
+                  update({ chatId, senderId: keepsSender ? filters.senderId : undefined });
+                  setOpenPicker(null);
+                }}
+                className={cn(
+                  'w-full px-2 py-1.5 rounded-xl text-left text-xs truncate transition-colors',
+                  chat.id === filters.chatId ? 'bg-white/10 text-white' : 'text-white/70 hover:bg-white/5'
+                )}
+              >
+                {getChatDisplayName(chat)}
+              </button>
+            ))}
+            {chatOptions.length === 0 && <p className="text-center py-3 text-xs text-white/30">No chats found</p>}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={openPicker === 'date'} onOpenChange={handlePickerOpen('date')}>
+        <PopoverTrigger asChild>
+          <button className={chipClass(!!filters.from)}>
+            <CalendarDays size={12} />
+            {formatRange()}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto bg-[#1a1a24] border-white/10 backdrop-blur-xl p-0 rounded-2xl shadow-2xl" align="start">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={(next) => {
+              if (!next?.from) {
+                update({ from: undefined, to: undefined });
+                return;
+              }
+              const to = new Date(next.to || next.from);
+              to.setHours(23, 59, 59, 999);
+              update({ from: next.from.toISOString(), to: to.toISOString() });
+            }}
+            disabled={(date) => date > new Date()}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      {TYPE_CHIPS.map(({ type, label, icon: Icon }) => (
+        <button
+          key={type}
+          onClick={() => update({ type: filters.type === type ? undefined : type })}
+          className={chipClass(filters.type === type)}
+        >
+          <Icon size={12} />
+          {label}
+        </button>
+      ))}
+
+      <button
+        onClick={() => update({ hasReactions: filters.hasReactions ? undefined : true })}
+        className={chipClass(!!filters.hasReactions)}
+      >
+        <SmilePlus size={12} />
+        Reactions
+      </button>
+
+      {hasFilters && (
+        <button
+          onClick={() => onChange({})}
+          className="flex items-center gap-1 px-2 py-1 text-[11px] font-semibold text-white/40 hover:text-white transition-colors"
+          title="Clear filters"
+        >
+          <X size={12} />
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
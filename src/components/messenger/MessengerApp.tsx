@@ -2,6 +2,8 @@ import { NavigationSidebar } from './NavigationSidebar';
 import { ChatList } from './ChatList';
 import { ChatArea } from './ChatArea';
 import { GroupInfo } from './GroupInfo';
+import { ThreadPanel } from './ThreadPanel';
+import { CallsView } from './CallsView';
 import { SavesView } from './SavesView';
 import { TrashView } from './TrashView';
 import { ShareView } from './ShareView';
@@ -10,7 +12,7 @@ import { useMessenger } from '@/context/MessengerContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 const MessengerLayout = () => {
-  const { activeChat, showChatInfo, activeView } = useMessenger();
+  const { activeChat, showChatInfo, activeThread, activeView } = useMessenger();
   const isMobile = useIsMobile();
 
   return (
@@ -20,10 +22,12 @@ const MessengerLayout = () => {
           <div className="flex-1 min-h-0 w-full overflow-hidden">
             {activeView === 'home' ? (
               activeChat ? (
-                <ChatArea />
+                activeThread ? <ThreadPanel /> : <ChatArea />
               ) : (
                 <ChatList />
               )
+            ) : activeView === 'calls' ? (
+              <CallsView />
             ) : activeView === 'saves' ? (
               <SavesView />
             ) : activeView === 'trash' ? (
@@ -45,8 +49,10 @@ const MessengerLayout = () => {
             <>
               <ChatList />
               <ChatArea />
-              {activeChat && showChatInfo && <GroupInfo />}
+              {activeChat && activeThread ? <ThreadPanel /> : activeChat && showChatInfo && <GroupInfo />}
             </>
+          ) : activeView === 'calls' ? (
+            <CallsView />
           ) : activeView === 'saves' ? (
             <SavesView />
           ) : activeView === 'trash' ? (
@@ -1,4 +1,4 @@
-import { Home, Search, Bookmark, Trash2, Share2, Settings, Moon, Sun, LogOut, User, Camera, Loader2 } from 'lucide-react';
+import { Home, Search, Phone, Bookmark, Trash2, Share2, Settings, Moon, Sun, LogOut, User, Camera, Loader2, CheckCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/context/AuthContext';
 import { useMessenger } from '@/context/MessengerContext';
@@ -19,9 +19,16 @@ interface NavItemProps {
   isActive?: boolean;
   onClick?: () => void;
   showLabel?: boolean;
+  badge?: number;
 }
 
-const NavItem = ({ icon, label, isActive, onClick, showLabel = true }: NavItemProps) => (
+const UnreadBadge = ({ count }: { count: number }) => (
+  <span className="absolute -top-1.5 -right-2.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[9px] font-bold leading-4 text-center">
+    {count > 99 ? '99+' : count}
+  </span>
+);
+
+const NavItem = ({ icon, label, isActive, onClick, showLabel = true, badge }: NavItemProps) => (
   <button
     onClick={onClick}
     className={cn(
@@ -31,14 +38,17 @@ const NavItem = ({ icon, label, isActive, onClick, showLabel = true }: NavItemPr
         : 'text-[#6b7280] hover:text-foreground'
     )}
   >
-    {icon}
+    <span className="relative">
+      {icon}
+      {!!badge && <UnreadBadge count={badge} />}
+    </span>
     {showLabel && <span className="text-[10px] font-medium">{label}</span>}
   </button>
 );
 
 export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop' | 'mobile' }) => {
   const { user, logout, updateUser } = useAuth();
-  const { activeView, setActiveView } = useMessenger();
+  const { activeView, setActiveView, chats } = useMessenger();
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window === 'undefined') return true;
     const saved = localStorage.getItem('theme');
@@ -99,21 +109,40 @@ export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop'
     }
   };
 
+  const sharesReadReceipts = user?.read_receipts !== false;
+
+  const handleToggleReadReceipts = async () => {
+    try {
+      const updated = await api.updateProfile({ readReceipts: !sharesReadReceipts });
+      updateUser(updated);
+    } catch (e) {
+      toast.error('Failed to update settings');
+    }
+  };
+
   const handleNavClick = (label: string) => {
     if (label === 'Home') setActiveView('home');
     else if (label === 'Search') {
       setActiveView('home');
       window.dispatchEvent(new CustomEvent('focus-chat-search'));
     }
+    else if (label === 'Calls') setActiveView('calls');
     else if (label === 'Saves') setActiveView('saves');
     else if (label === 'Trash') setActiveView('trash');
     else if (label === 'Settings') setIsSettingsOpen(true);
     else if (label === 'Share') setActiveView('share');
   };
 
+  // Muted chats keep their own badges but stay out of the total, and a chat marked
+  // unread without new messages counts as one.
+  const totalUnread = chats.reduce((total, chat) => (
+    chat.muted ? total : total + (chat.unread_count || (chat.marked_unread ? 1 : 0))
+  ), 0);
+
   const navItems = [
     { icon: <Home size={20} />, label: 'Home' },
     { icon: <Search size={20} />, label: 'Search' },
+    { icon: <Phone size={20} />, label: 'Calls' },
     { icon: <Bookmark size={20} />, label: 'Saves' },
     { icon: <Trash2 size={20} />, label: 'Trash' },
     { icon: <Share2 size={20} />, label: 'Share' },
@@ -124,13 +153,14 @@ export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop'
     return (
       <>
         <div className="w-full h-16 messenger-panel flex items-center justify-around border-t border-white/10 px-2">
-          {navItems.slice(0, 5).map((item) => (
+          {navItems.slice(0, 6).map((item) => (
             <button
               key={item.label}
               onClick={() => handleNavClick(item.label)}
               className={cn(
                 'flex items-center justify-center w-10 h-10 rounded-xl transition-colors',
                 (item.label === 'Home' && activeView === 'home') ||
+                  (item.label === 'Calls' && activeView === 'calls') ||
                   (item.label === 'Saves' && activeView === 'saves') ||
                   (item.label === 'Trash' && activeView === 'trash') ||
                   (item.label === 'Share' && activeView === 'share')
@@ -138,7 +168,10 @@ export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop'
                   : 'text-[#6b7280] hover:text-foreground'
               )}
             >
-              {item.icon}
+              <span className="relative">
+                {item.icon}
+                {item.label === 'Home' && !!totalUnread && <UnreadBadge count={totalUnread} />}
+              </span>
             </button>
           ))}
           <button
@@ -249,6 +282,28 @@ export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop'
                 </button>
               </div>
 
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg messenger-input border-white/10">
+                <div className="flex items-center gap-3">
+                  <CheckCheck size={20} />
+                  <div>
+                    <div>Read receipts</div>
+                    <div className="text-xs text-muted-foreground">When off, others only see that their messages were delivered.</div>
+                  </div>
+                </div>
+                <button
+                  onClick={handleToggleReadReceipts}
+                  className={cn(
+                    'w-12 h-6 flex-shrink-0 rounded-full transition-colors relative',
+                    sharesReadReceipts ? 'bg-primary' : 'bg-muted'
+                  )}
+                >
+                  <div className={cn(
+                    'w-5 h-5 rounded-full bg-white absolute top-0.5 transition-transform',
+                    sharesReadReceipts ? 'translate-x-6' : 'translate-x-0.5'
+                  )} />
+                </button>
+              </div>
+
               <div className="flex items-center justify-between p-3 rounded-lg messenger-input border-white/10">
                 <div className="flex items-center gap-3">
                   <User size={20} />
@@ -288,8 +343,10 @@ export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop'
               icon={item.icon}
               label={item.label}
               showLabel
+              badge={item.label === 'Home' ? totalUnread : undefined}
               isActive={
                 (item.label === 'Home' && activeView === 'home') ||
+                (item.label === 'Calls' && activeView === 'calls') ||
                 (item.label === 'Saves' && activeView === 'saves') ||
                 (item.label === 'Trash' && activeView === 'trash') ||
                 (item.label === 'Share' && activeView === 'share')
@@ -422,6 +479,28 @@ export const NavigationSidebar = ({ variant = 'desktop' }: { variant?: 'desktop'
               </button>
             </div>
 
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg messenger-input border-white/10">
+              <div className="flex items-center gap-3">
+                <CheckCheck size={20} />
+                <div>
+                  <div>Read receipts</div>
+                  <div className="text-xs text-muted-foreground">When off, others only see that their messages were delivered.</div>
+                </div>
+              </div>
+              <button
+                onClick={handleToggleReadReceipts}
+                className={cn(
+                  'w-12 h-6 flex-shrink-0 rounded-full transition-colors relative',
+                  sharesReadReceipts ? 'bg-primary' : 'bg-muted'
+                )}
+              >
+                <div className={cn(
+                  'w-5 h-5 rounded-full bg-white absolute top-0.5 transition-transform',
+                  sharesReadReceipts ? 'translate-x-6' : 'translate-x-0.5'
+                )} />
+              </button>
+            </div>
+
             <div className="flex items-center justify-between p-3 rounded-lg messenger-input border-white/10">
               <div className="flex items-center gap-3">
                 <User size={20} />
@@ -4,6 +4,7 @@ import { Bookmark, Search, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { AvatarImage } from '@/components/AvatarImage';
+import { MessageMarkup } from './MessageMarkup';
 
 export const SavesView = () => {
     const { saves, fetchSaves, unsaveMessage } = useMessenger();
@@ -86,9 +87,7 @@ export const SavesView = () => {
                                                 {format(new Date(msg.created_at), 'MMM d, HH:mm')}
                                             </span>
                                         </div>
-                                        <p className="text-sm text-foreground/90 leading-relaxed whitespace-pre-wrap">
-                                            {msg.content}
-                                        </p>
+                                        <MessageMarkup content={msg.content} entities={msg.entities} className="text-sm text-foreground/90 leading-relaxed whitespace-pre-wrap" />
                                         {msg.file_url && (
                                             <div className="mt-2 p-2 bg-white/5 rounded-lg border border-white/10 flex items-center gap-2">
                                                 <div className="p-2 bg-primary/20 rounded text-primary">
@@ -0,0 +1,83 @@
+import { useState, type ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+import { api, type MessageReceipts, type ReceiptMember } from '@/lib/api';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AvatarImage } from '@/components/AvatarImage';
+
+const formatReadAt = (dateStr: string) => {
+  const date = new Date(dateStr);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const ReceiptRow = ({ member, detail }: { member: ReceiptMember; detail?: string }) => (
+  <div className="flex items-center gap-2.5 px-2 py-1.5">
+    <div className="w-7 h-7 rounded-full overflow-hidden flex-shrink-0 bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center">
+      <AvatarImage
+        src={member.avatar}
+        alt={member.username}
+        className="w-full h-full"
+        fallback={<span className="text-white text-[10px] font-bold">{member.username.charAt(0).toUpperCase()}</span>}
+      />
+    </div>
+    <span className="flex-1 text-sm text-white/90 truncate">{member.username}</span>
+    {detail && <span className="text-[11px] text-white/40">{detail}</span>}
+  </div>
+);
+
+interface SeenByPopoverProps {
+  messageId: string;
+  children: ReactNode;
+}
+
+// Loaded each time it opens, so the list is current without tracking every read live.
+export const SeenByPopover = ({ messageId, children }: SeenByPopoverProps) => {
+  const [receipts, setReceipts] = useState<MessageReceipts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setError(null);
+    api.getMessageReceipts(messageId)
+      .then(setReceipts)
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load receipts'));
+  };
+
+  const waiting = receipts ? receipts.total - receipts.read.length - receipts.delivered.length : 0;
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" className="hover:text-white/60 transition-colors">{children}</button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-[#1a1a24] border-white/10 backdrop-blur-xl p-1.5 rounded-2xl shadow-2xl" align="end" side="top">
+        {error ? (
+          <p className="px-2 py-3 text-sm text-red-400">{error}</p>
+        ) : !receipts ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="animate-spin text-white/30" size={18} />
+          </div>
+        ) : (
+          <div className="max-h-72 overflow-y-auto messenger-scrollbar">
+            <div className="px-2 pt-1.5 pb-1 text-[10px] text-white/40 font-bold uppercase tracking-wider">Seen by</div>
+            {receipts.read.length === 0 && <p className="px-2 py-1.5 text-sm text-white/40">Nobody yet</p>}
+            {receipts.read.map((member) => <ReceiptRow key={member.id} member={member} detail={formatReadAt(member.read_at)} />)}
+            {receipts.delivered.length > 0 && (
+              <>
+                <div className="px-2 pt-3 pb-1 text-[10px] text-white/40 font-bold uppercase tracking-wider">Delivered to</div>
+                {receipts.delivered.map((member) => <ReceiptRow key={member.id} member={member} />)}
+              </>
+            )}
+            {waiting > 0 && (
+              <p className="px-2 pt-3 pb-1.5 text-[11px] text-white/40">
+                Not delivered to {waiting} {waiting === 1 ? 'member' : 'members'} yet
+              </p>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -13,11 +13,12 @@ export const ShareView = () => {
         if (!inviteCode.trim()) return;
         setIsLoading(true);
         try {
-            await joinInvite(inviteCode.trim());
+            const { pending } = await joinInvite(inviteCode.trim());
             setInviteCode('');
-            toast.success('Successfully joined the chat');
+            if (pending) toast.success('Request sent. An admin needs to approve it.');
+            else toast.success('Successfully joined the chat');
         } catch (e) {
-            toast.error('Invalid or expired invite code');
+            toast.error(e instanceof Error ? e.message : 'Invalid or expired invite code');
         } finally {
             setIsLoading(false);
         }
@@ -104,7 +105,7 @@ export const ShareView = () => {
 
                     <div className="text-center">
                         <p className="text-xs text-muted-foreground max-w-[280px] mx-auto italic">
-                            Invite codes are valid for 7 days and can be used by multiple people.
+                            Invite codes can expire, run out of uses or need an admin to approve your request.
                         </p>
                     </div>
                 </div>
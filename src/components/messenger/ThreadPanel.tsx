@@ -0,0 +1,291 @@
+import { X, Send, Loader2, Paperclip, MessageSquare, Clock, AlertCircle } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { useMessenger, type MessageAttachment, type MediaMetadata, type LinkPreview, type MessageEntity } from '@/context/MessengerContext';
+import { useAuth } from '@/context/AuthContext';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { uploadMedia, mediaMetadataOf } from '@/lib/media';
+import { AvatarImage } from '@/components/AvatarImage';
+import { AudioMessage } from './AudioMessage';
+import { MediaThumbnail } from './MediaThumbnail';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { MessageMarkup } from './MessageMarkup';
+
+interface ThreadMessageProps {
+  message: MediaMetadata & {
+    id: string;
+    content: string;
+    created_at: string;
+    message_type: string;
+    edited_at?: string | null;
+    file_url?: string;
+    file_name?: string;
+    waveform?: number[] | null;
+    attachments?: MessageAttachment[];
+    link_preview?: LinkPreview | null;
+    entities?: MessageEntity[];
+    sender?: { id: string; username: string; avatar: string | null };
+    delivery_status?: 'pending' | 'failed';
+  };
+  isRoot?: boolean;
+}
+
+const ThreadMessage = ({ message, isRoot }: ThreadMessageProps) => {
+  const { retryPendingMessage, discardPendingMessage } = useMessenger();
+  const senderName = message.sender?.username || 'Unknown';
+  const time = new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const renderContent = () => {
+    if (message.message_type === 'image') {
+      return (
+        <button
+          className="mt-1 block rounded-xl overflow-hidden ring-1 ring-white/10"
+          onClick={() => window.open(message.file_url || message.content, '_blank')}
+        >
+          <MediaThumbnail
+            item={{ ...message, media_type: 'image', file_url: message.file_url || message.content }}
+            reserveAspect
+            className={cn('max-h-[300px]', message.width && message.height ? 'w-[220px]' : 'max-w-[220px]')}
+          />
+        </button>
+      );
+    }
+    if (message.message_type === 'album') {
+      return (
+        <div className="mt-1 space-y-1">
+          <div className="grid grid-cols-3 gap-1 max-w-[240px]">
+            {message.attachments?.filter(item => item.media_type !== 'file').map(item => (
+              <div
+                key={item.id}
+                className="aspect-square rounded-lg overflow-hidden ring-1 ring-white/10 cursor-pointer"
+                onClick={() => window.open(item.file_url, '_blank')}
+              >
+                <MediaThumbnail item={item} className="w-full h-full" />
+              </div>
+            ))}
+          </div>
+          {message.attachments?.filter(item => item.media_type === 'file').map(item => (
+            <a
+              key={item.id}
+              href={item.file_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-sm text-primary hover:underline"
+            >
+              <Paperclip size={14} />
+              {item.file_name || item.file_url.split('/').pop() || 'File'}
+            </a>
+          ))}
+          {message.content && <MessageMarkup content={message.content} entities={message.entities} className="text-sm text-white/80 whitespace-pre-wrap break-words" />}
+        </div>
+      );
+    }
+    if (message.message_type === 'video') {
+      return (
+        <video
+          src={message.file_url || message.content}
+          controls
+          poster={message.thumbnail_url || undefined}
+          preload={message.thumbnail_url ? 'none' : 'metadata'}
+          className="mt-1 max-w-[240px] rounded-xl ring-1 ring-white/10"
+        />
+      );
+    }
+    if (message.message_type === 'audio') {
+      return <AudioMessage src={message.file_url || message.content} waveform={message.waveform} duration={message.duration} className="mt-1 min-w-0" />;
+    }
+    if (message.message_type === 'file') {
+      return (
+        <a
+          href={message.file_url || message.content}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-1 flex items-center gap-2 text-sm text-primary hover:underline"
+        >
+          <Paperclip size={14} />
+          {message.file_name || message.content.split('/').pop() || 'File'}
+        </a>
+      );
+    }
+    return (
+      <>
+        <MessageMarkup content={message.content} entities={message.entities} className="text-sm text-white/80 whitespace-pre-wrap break-words" />
+        {message.link_preview && <LinkPreviewCard preview={message.link_preview} />}
+      </>
+    );
+  };
+
+  return (
+    <div id={`thread-message-${message.id}`} className={cn('flex gap-3 py-2', isRoot && 'pb-4')}>
+      <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0 ring-1 ring-white/10">
+        <AvatarImage
+          src={message.sender?.avatar}
+          alt={senderName}
+          className="w-full h-full"
+          fallback={(
+            <div className="w-full h-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center">
+              <span className="text-white text-[10px] font-bold">{senderName.charAt(0).toUpperCase()}</span>
+            </div>
+          )}
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-[12px] font-semibold text-white/90">{senderName}</span>
+          <span className="text-[9px] text-white/30">{time}</span>
+          {message.edited_at && <span className="text-[9px] text-white/30">edited</span>}
+          {message.delivery_status === 'pending' && <Clock size={10} className="text-white/30" />}
+        </div>
+        <div className={cn(message.delivery_status && 'opacity-60')}>{renderContent()}</div>
+        {message.delivery_status === 'failed' && (
+          <div className="flex items-center gap-2 mt-1 text-[10px]">
+            <span className="flex items-center gap-1 text-red-400">
+              <AlertCircle size={11} />
+              Not sent
+            </span>
+            <button onClick={() => retryPendingMessage(message.id)} className="font-semibold text-primary hover:text-primary/80">
+              Retry
+            </button>
+            <button onClick={() => discardPendingMessage(message.id)} className="font-semibold text-white/40 hover:text-red-400">
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ThreadPanel = () => {
+  const { user } = useAuth();
+  const { activeChat, activeThread, isLoadingThread, closeThread, loadOlderThreadReplies, sendThreadReply, pendingMessages } = useMessenger();
+  const [replyText, setReplyText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingReplies = pendingMessages.filter((m) => m.thread_root_id === activeThread?.root.id);
+  const lastReplyId = pendingReplies[pendingReplies.length - 1]?.id ?? activeThread?.replies[activeThread.replies.length - 1]?.id;
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastReplyId]);
+
+  useEffect(() => {
+    setReplyText('');
+  }, [activeThread?.root.id]);
+
+  if (!activeThread || !activeChat) return null;
+
+  const { root, replies, hasMore } = activeThread;
+  const replyCount = root.reply_count ?? replies.length;
+  const canPost = !!activeChat.permissions?.post;
+
+  const handleSend = async () => {
+    if (!replyText.trim() || isSending || !canPost) return;
+    setIsSending(true);
+    try {
+      await sendThreadReply(replyText.trim());
+      setReplyText('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !canPost) return;
+    try {
+      const upload = await uploadMedia(file);
+      const type = file.type.startsWith('image/')
+        ? 'image'
+        : file.type.startsWith('video/')
+          ? 'video'
+          : 'file';
+      await sendThreadReply(upload.url, type, upload.url, file.name, file.size, mediaMetadataOf(upload));
+    } catch (err) {
+      toast.error('Failed to upload file');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="w-full md:w-[320px] xl:w-[360px] 2xl:w-[400px] messenger-panel border-l border-white/10 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <MessageSquare size={16} className="text-primary" />
+          <h3 className="font-semibold text-white">Thread</h3>
+        </div>
+        <button
+          onClick={closeThread}
+          className="p-1.5 rounded-xl hover:bg-white/5 transition-colors text-[#6b7280] hover:text-white"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 messenger-scrollbar">
+        <ThreadMessage message={root} isRoot />
+
+        <div className="flex items-center gap-3 my-2">
+          <span className="text-[10px] text-white/40 font-bold uppercase tracking-[0.2em]">
+            {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+          </span>
+          <div className="flex-1 h-px bg-white/10" />
+        </div>
+
+        {hasMore && (
+          <button
+            onClick={loadOlderThreadReplies}
+            disabled={isLoadingThread}
+            className="w-full py-2 mb-2 text-xs text-primary hover:text-primary/80 transition-colors disabled:opacity-60"
+          >
+            {isLoadingThread ? <Loader2 size={14} className="animate-spin mx-auto" /> : 'Load earlier replies'}
+          </button>
+        )}
+
+        {[...replies, ...pendingReplies].map((reply) => (
+          <ThreadMessage key={reply.id} message={reply} />
+        ))}
+
+        {replies.length === 0 && pendingReplies.length === 0 && !isLoadingThread && (
+          <p className="text-center text-xs text-[#6b7280] py-6">No replies yet. Start the thread!</p>
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <div className="p-4 border-t border-white/10">
+        <div className="flex items-center gap-2 messenger-input rounded-2xl px-3 py-2">
+          <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileUpload} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!canPost}
+            className="p-1.5 text-white/30 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Paperclip size={16} />
+          </button>
+          <input
+            type="text"
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder={canPost ? `Reply as ${user?.username || 'you'}...` : 'You have read-only access'}
+            disabled={!canPost}
+            className="flex-1 bg-transparent border-0 text-sm text-white placeholder:text-white/30 focus:outline-none disabled:opacity-60"
+          />
+          <button
+            onClick={handleSend}
+            disabled={!replyText.trim() || isSending || !canPost}
+            className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-white transition-all disabled:opacity-40"
+          >
+            {isSending ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { Trash2, Search, RotateCcw, AlertCircle } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { AvatarImage } from '@/components/AvatarImage';
+import { stripMarkup } from '@/lib/markup';
 
 export const TrashView = () => {
     const { trash, fetchTrash, restoreMessage, permanentDeleteMessage } = useMessenger();
@@ -104,7 +105,7 @@ export const TrashView = () => {
                                             </span>
                                         </div>
                                         <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap line-clamp-3">
-                                            {msg.content}
+                                            {stripMarkup(msg.content)}
                                         </p>
                                     </div>
                                     <div className="flex items-center gap-1">
@@ -0,0 +1,310 @@
+import { Mic, Pause, Send, Square, Trash2, Loader2, ChevronLeft } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { computeWaveform, formatDuration } from '@/lib/voice';
+import { AudioMessage } from './AudioMessage';
+
+type RecorderPhase = 'starting' | 'recording' | 'paused' | 'preview';
+
+interface RecordedVoice {
+  file: File;
+  url: string;
+  waveform?: number[];
+  duration: number;
+}
+
+interface VoiceRecorderProps {
+  onSend: (file: File, waveform?: number[], duration?: number) => Promise<void>;
+  onClose: () => void;
+}
+
+// Dragging the recording indicator this far to the left throws the recording away.
+const SWIPE_CANCEL_DISTANCE = 120;
+const LEVEL_HISTORY = 32;
+const LEVEL_SAMPLE_MS = 80;
+
+export const VoiceRecorder = ({ onSend, onClose }: VoiceRecorderProps) => {
+  const [phase, setPhase] = useState<RecorderPhase>('starting');
+  const [elapsed, setElapsed] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+  const [dragOffset, setDragOffset] = useState(0);
+  const [recorded, setRecorded] = useState<RecordedVoice | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number>();
+  // Recording time is kept across pauses: finished segments plus the running one.
+  const recordedMsRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  const discardRef = useRef(false);
+  const sendOnStopRef = useRef(false);
+  const dragStartRef = useRef<number | null>(null);
+  const onSendRef = useRef(onSend);
+  const onCloseRef = useRef(onClose);
+
+  useEffect(() => {
+    onSendRef.current = onSend;
+    onCloseRef.current = onClose;
+  }, [onSend, onClose]);
+
+  const releaseInput = useCallback(() => {
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+  }, []);
+
+  const send = useCallback(async (voice: RecordedVoice) => {
+    setIsSending(true);
+    try {
+      await onSendRef.current(voice.file, voice.waveform, voice.duration);
+      URL.revokeObjectURL(voice.url);
+      onCloseRef.current();
+    } catch (e) {
+      toast.error('Failed to send voice message');
+      setRecorded(voice);
+      setPhase('preview');
+      setIsSending(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    discardRef.current = false;
+
+    const start = async () => {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (e) {
+        toast.error('Microphone access denied');
+        onCloseRef.current();
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+
+      const recorder = new MediaRecorder(stream);
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = async () => {
+        releaseInput();
+        if (discardRef.current) return;
+        // The upload filter matches bare mime types, so codec parameters are dropped.
+        const type = (recorder.mimeType || 'audio/webm').split(';')[0];
+        const blob = new Blob(chunksRef.current, { type });
+        const file = new File([blob], `voice-message.${type === 'audio/mp4' ? 'm4a' : 'webm'}`, { type });
+        const voice = {
+          file,
+          url: URL.createObjectURL(blob),
+          waveform: await computeWaveform(blob),
+          duration: recordedMsRef.current / 1000,
+        };
+        if (sendOnStopRef.current) {
+          send(voice);
+        } else {
+          setRecorded(voice);
+          setPhase('preview');
+        }
+      };
+
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 512;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Uint8Array(analyser.fftSize);
+      let lastSample = 0;
+
+      const tick = (now: number) => {
+        frameRef.current = requestAnimationFrame(tick);
+        if (now - lastSample < LEVEL_SAMPLE_MS) return;
+        lastSample = now;
+        const segmentStart = segmentStartRef.current;
+        setElapsed((recordedMsRef.current + (segmentStart !== null ? Date.now() - segmentStart : 0)) / 1000);
+        if (segmentStart === null) return;
+        analyser.getByteTimeDomainData(samples);
+        let sum = 0;
+        for (const sample of samples) sum += ((sample - 128) / 128) ** 2;
+        const level = Math.min(1, Math.sqrt(sum / samples.length) * 4);
+        setLevels(prev => [...prev.slice(-(LEVEL_HISTORY - 1)), level]);
+      };
+
+      recorder.start();
+      segmentStartRef.current = Date.now();
+      frameRef.current = requestAnimationFrame(tick);
+      setPhase('recording');
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      discardRef.current = true;
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') recorderRef.current.stop();
+      releaseInput();
+    };
+  }, [releaseInput, send]);
+
+  useEffect(() => {
+    return () => {
+      if (recorded) URL.revokeObjectURL(recorded.url);
+    };
+  }, [recorded]);
+
+  const pauseRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    recorder.pause();
+    if (segmentStartRef.current !== null) recordedMsRef.current += Date.now() - segmentStartRef.current;
+    segmentStartRef.current = null;
+    setPhase('paused');
+  };
+
+  const resumeRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    recorder.resume();
+    segmentStartRef.current = Date.now();
+    setPhase('recording');
+  };
+
+  const stopRecording = (sendImmediately: boolean) => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+    sendOnStopRef.current = sendImmediately;
+    if (sendImmediately) setIsSending(true);
+    if (segmentStartRef.current !== null) recordedMsRef.current += Date.now() - segmentStartRef.current;
+    segmentStartRef.current = null;
+    recorder.stop();
+  };
+
+  const cancel = () => {
+    discardRef.current = true;
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') recorderRef.current.stop();
+    releaseInput();
+    onClose();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (phase !== 'recording' && phase !== 'paused') return;
+    dragStartRef.current = e.clientX;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStartRef.current === null) return;
+    const offset = Math.min(0, e.clientX - dragStartRef.current);
+    if (offset <= -SWIPE_CANCEL_DISTANCE) {
+      dragStartRef.current = null;
+      cancel();
+      return;
+    }
+    setDragOffset(offset);
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setDragOffset(0);
+  };
+
+  if (phase === 'preview' && recorded) {
+    return (
+      <div className="capsule-input w-full gap-2 shadow-[0_20px_50px_rgba(0,0,0,0.5)]">
+        <button
+          onClick={cancel}
+          disabled={isSending}
+          className="p-2.5 text-white/40 hover:text-red-400 transition-all hover:bg-white/5 rounded-full disabled:opacity-40"
+          title="Discard"
+        >
+          <Trash2 size={20} />
+        </button>
+        <AudioMessage src={recorded.url} waveform={recorded.waveform} duration={recorded.duration} className="flex-1 min-w-0 bg-transparent border-0 p-1" />
+        <button
+          onClick={() => send(recorded)}
+          disabled={isSending}
+          className="w-11 h-11 flex-shrink-0 rounded-full bg-primary flex items-center justify-center text-white transition-all shadow-[0_10px_25px_rgba(0,0,0,0.35)] hover:scale-105 active:scale-95 disabled:opacity-60 disabled:hover:scale-100"
+          title="Send voice message"
+        >
+          {isSending ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
+        </button>
+      </div>
+    );
+  }
+
+  const isPaused = phase === 'paused';
+  const swipeProgress = Math.min(1, -dragOffset / SWIPE_CANCEL_DISTANCE);
+
+  return (
+    <div className="capsule-input w-full gap-2 shadow-[0_20px_50px_rgba(0,0,0,0.5)] overflow-hidden">
+      <button
+        onClick={cancel}
+        disabled={isSending}
+        className="p-2.5 text-white/40 hover:text-red-400 transition-all hover:bg-white/5 rounded-full disabled:opacity-40"
+        title="Cancel recording"
+      >
+        <Trash2 size={20} />
+      </button>
+
+      <div
+        className="flex-1 min-w-0 flex items-center gap-3 px-2 touch-none select-none cursor-grab active:cursor-grabbing"
+        style={{ transform: `translateX(${dragOffset}px)`, opacity: 1 - swipeProgress * 0.6 }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <span className={cn('w-2.5 h-2.5 rounded-full flex-shrink-0', isPaused ? 'bg-white/30' : 'bg-red-500 animate-pulse')} />
+        <span className="text-sm font-medium text-white tabular-nums min-w-[40px]">{formatDuration(elapsed)}</span>
+        <div className="flex-1 h-7 flex items-center justify-end gap-[2px] overflow-hidden">
+          {levels.map((level, i) => (
+            <div
+              key={i}
+              className={cn('w-[3px] rounded-full flex-shrink-0', isPaused ? 'bg-white/25' : 'bg-red-400')}
+              style={{ height: `${Math.max(level * 100, 8)}%` }}
+            />
+          ))}
+        </div>
+        <span className="hidden sm:flex items-center text-xs text-white/30 whitespace-nowrap">
+          <ChevronLeft size={14} />
+          Slide to cancel
+        </span>
+      </div>
+
+      <button
+        onClick={isPaused ? resumeRecording : pauseRecording}
+        disabled={phase === 'starting' || isSending}
+        className="p-2.5 text-white/60 hover:text-white transition-all hover:bg-white/5 rounded-full disabled:opacity-40"
+        title={isPaused ? 'Resume recording' : 'Pause recording'}
+      >
+        {isPaused ? <Mic size={20} /> : <Pause size={20} />}
+      </button>
+      <button
+        onClick={() => stopRecording(false)}
+        disabled={phase === 'starting' || isSending}
+        className="p-2.5 text-white/60 hover:text-white transition-all hover:bg-white/5 rounded-full disabled:opacity-40"
+        title="Stop and review"
+      >
+        <Square size={18} />
+      </button>
+      <button
+        onClick={() => stopRecording(true)}
+        disabled={phase === 'starting' || isSending}
+        className="w-11 h-11 flex-shrink-0 rounded-full bg-primary flex items-center justify-center text-white transition-all shadow-[0_10px_25px_rgba(0,0,0,0.35)] hover:scale-105 active:scale-95 disabled:opacity-60 disabled:hover:scale-100"
+        title="Send voice message"
+      >
+        {isSending ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
+      </button>
+    </div>
+  );
+};
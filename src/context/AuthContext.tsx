@@ -7,6 +7,7 @@ interface User {
   username: string;
   avatar: string | null;
   is_online: boolean;
+  read_receipts?: boolean;
 }
 
 interface AuthContextType {
@@ -1,18 +1,68 @@
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
 import { useAuth } from './AuthContext';
-import { api } from '@/lib/api';
+import { api, ApiError, type MessageMedia, type MediaMetadata as ApiMediaMetadata } from '@/lib/api';
+import { outbox, createClientMessageId, type OutboxEntry, type OutboxStatus } from '@/lib/outbox';
+import { stripMarkup } from '@/lib/markup';
 import { toast } from 'sonner';
 import { useWebSocket, WSMessage } from '@/hooks/useWebSocket';
 
+export type ChatRole = 'owner' | 'admin' | 'moderator' | 'member' | 'readonly';
+
+interface ChatPermissions {
+  post: boolean;
+  pin: boolean;
+  invite: boolean;
+  delete_messages: boolean;
+  edit_info: boolean;
+  start_call: boolean;
+  manage_members: boolean;
+}
+
 interface User {
   id: string;
   username: string;
   avatar: string | null;
   is_online: boolean;
   last_read_at?: string | null;
+  last_delivered_at?: string | null;
+  role?: ChatRole;
+}
+
+// Filled in from the upload for photos and videos, and from the recorder for voice messages.
+export interface MediaMetadata {
+  width?: number | null;
+  height?: number | null;
+  duration?: number | null;
+  thumbnail_url?: string | null;
+  blurhash?: string | null;
+}
+
+export interface MessageAttachment extends MediaMetadata {
+  id: string;
+  media_type: 'image' | 'video' | 'file';
+  file_url: string;
+  file_name?: string | null;
+  file_size?: number | null;
+}
+
+// A member named in a message with `@username`; offsets index into `content`.
+export interface MessageEntity {
+  type: 'mention';
+  offset: number;
+  length: number;
+  user_id: string;
+}
+
+// Open Graph details of the first link in a text message, fetched by the server.
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
 }
 
-interface Message {
+interface Message extends MediaMetadata {
   id: string;
   chat_id: string;
   sender_id: string;
@@ -21,16 +71,49 @@ interface Message {
   file_url?: string;
   file_name?: string;
   file_size?: number;
+  waveform?: number[] | null;
+  attachments?: MessageAttachment[];
+  link_preview?: LinkPreview | null;
+  entities?: MessageEntity[];
   created_at: string;
   edited_at?: string | null;
   updated_at?: string;
   reply_to?: string | null;
   reply?: { id: string; content: string; sender_id: string; sender_username: string } | null;
+  thread_root_id?: string | null;
+  reply_count?: number;
+  view_count?: number;
   forwarded_from?: { message_id: string; chat_id: string; chat_name: string | null; sender_id: string; sender_username: string | null } | null;
   sender?: User;
   reactions?: { emoji: string; user_id: string; username: string }[];
   is_saved?: boolean;
   chat_name?: string;
+  client_message_id?: string | null;
+  // Set only on messages still in the outbox.
+  delivery_status?: OutboxStatus;
+}
+
+export type MessageSearchType = 'image' | 'file' | 'audio' | 'link';
+
+export interface MessageSearchFilters {
+  chatId?: string;
+  senderId?: string;
+  from?: string;
+  to?: string;
+  type?: MessageSearchType;
+  hasReactions?: boolean;
+}
+
+// `highlight` marks matches with \u0002…\u0003; it's null when searching by filters alone.
+export interface MessageSearchResult extends Message {
+  chat_name: string | null;
+  chat_type: 'direct' | 'group' | 'channel';
+  highlight: string | null;
+}
+
+export interface MessageSearchPage {
+  messages: MessageSearchResult[];
+  nextOffset: number | null;
 }
 
 interface Chat {
@@ -42,23 +125,142 @@ interface Chat {
   description: string | null;
   pinned_message?: { id: string; content: string; created_at: string; sender_id: string; sender_username: string | null; message_type?: string } | null;
   muted?: boolean;
-  role?: string;
+  role?: ChatRole;
+  permissions?: ChatPermissions;
+  is_public?: boolean;
+  member_count?: number;
   members: User[];
   last_message: { id: string; content: string; created_at: string; sender_id: string; message_type?: string } | null;
+  unread_mentions?: number;
+  unread_count?: number;
+  marked_unread?: boolean;
+}
+
+export interface ActiveCall {
+  id: string;
+  chat_id: string;
+  initiator_id: string;
+  is_video: boolean;
+  started_at: string;
+  participants: string[];
+}
+
+export interface CallLogEntry {
+  id: string;
+  chat_id: string;
+  initiator_id: string;
+  initiator_username: string;
+  initiator_avatar: string | null;
+  is_video: boolean;
+  status: 'active' | 'ended' | 'missed' | 'rejected';
+  started_at: string;
+  ended_at: string | null;
+  direction: 'incoming' | 'outgoing';
+  participant_status: 'joined' | 'left' | 'declined' | null;
+  duration: number | null;
+}
+
+export interface CallHistoryPage {
+  calls: CallLogEntry[];
+  hasMore: boolean;
+}
+
+// A photo or video in a chat; `id` is the message id, or the attachment id inside an album.
+export interface MediaItem extends MediaMetadata {
+  id: string;
+  message_id: string;
+  position: number;
+  media_type: 'image' | 'video';
+  file_url: string;
+  file_name: string | null;
+  file_size: number | null;
+  created_at: string;
+  sender_id: string;
+  sender: User | null;
 }
 
+export interface MediaPage {
+  items: MediaItem[];
+  hasOlder?: boolean;
+  hasNewer?: boolean;
+  // Position of the first item among all `total` items of the chat.
+  offset: number;
+  total: number;
+}
+
+export type MediaCursor = { before?: string; after?: string; around?: string; limit?: number };
+
 interface CallStatus {
   isActive: boolean;
+  callId: string | null;
   chatId: string | null;
   participants: string[];
   isIncoming: boolean;
   isVideo?: boolean;
   callerId?: string;
-  incomingOffer?: RTCSessionDescriptionInit;
+}
+
+export interface CallMediaState {
+  audio: boolean;
+  video: boolean;
+  screen: boolean;
+}
+
+export type CallDeviceKind = 'audioinput' | 'videoinput';
+
+interface CallSignal {
+  callId: string;
+  senderId: string;
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+  renegotiate?: boolean;
+}
+
+type ChatInfoUpdate = Partial<Pick<Chat, 'name' | 'avatar' | 'description' | 'is_public'>>;
+
+export interface ChatInvite {
+  id: string;
+  code: string;
+  name: string | null;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  requires_approval: boolean;
+  revoked_at: string | null;
+  created_at: string;
+  created_by: string | null;
+  creator_username: string | null;
+  pending_count: number;
+}
+
+export interface InviteOptions {
+  name?: string;
+  ttlHours?: number | null;
+  maxUses?: number | null;
+  requiresApproval?: boolean;
+}
+
+interface ThreadState {
+  root: Message;
+  replies: Message[];
+  hasMore: boolean;
+}
+
+interface EventCursor {
+  epoch: string;
+  seq: number;
+}
+
+// `reset` means the missed events are gone and state has to be reloaded instead.
+interface EventReplay {
+  reset: boolean;
+  epoch: string | null;
+  seq: number;
+  events?: WSMessage[];
 }
 
 type ChatTab = 'all' | 'groups' | 'channels' | 'contacts';
-type MessengerView = 'home' | 'saves' | 'trash' | 'settings' | 'share';
+type MessengerView = 'home' | 'calls' | 'saves' | 'trash' | 'settings' | 'share';
 
 interface MessengerContextType {
   chats: Chat[];
@@ -69,13 +271,24 @@ interface MessengerContextType {
   searchQuery: string;
   isLoadingChats: boolean;
   isLoadingMessages: boolean;
+  hasOlderMessages: boolean;
+  hasNewerMessages: boolean;
+  isLoadingMoreMessages: boolean;
+  scrollTargetId: string | null;
   typingUsers: Map<string, string[]>;
   showChatInfo: boolean;
+  activeThread: ThreadState | null;
+  isLoadingThread: boolean;
   saves: Message[];
   trash: Message[];
   callStatus: CallStatus;
   localStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  screenStream: MediaStream | null;
+  remoteStreams: Record<string, MediaStream>;
+  callMedia: CallMediaState;
+  remoteCallMedia: Record<string, CallMediaState>;
+  callDevices: Partial<Record<CallDeviceKind, string>>;
+  activeCalls: Record<string, ActiveCall>;
   sendTyping: (chatId: string) => void;
   sendStopTyping: (chatId: string) => void;
   setShowChatInfo: (show: boolean) => void;
@@ -83,20 +296,38 @@ interface MessengerContextType {
   setActiveChatTab: (tab: ChatTab) => void;
   setActiveView: (view: MessengerView) => void;
   setSearchQuery: (query: string) => void;
-  sendMessage: (content: string, type?: string, fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string | null) => Promise<void>;
+  sendMessage: (content: string, type?: string, fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string | null, media?: MessageMedia) => Promise<void>;
   forwardMessage: (messageId: string, chatId: string) => Promise<void>;
   pinMessage: (chatId: string, messageId?: string | null) => Promise<void>;
-  openMessageContext: (messageId: string) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
+  loadNewerMessages: () => Promise<void>;
+  jumpToMessage: (chatId: string, messageId: string) => Promise<void>;
+  jumpToDate: (date: Date) => Promise<void>;
+  jumpToLatest: () => Promise<void>;
+  clearScrollTarget: () => void;
+  openThread: (messageId: string) => Promise<void>;
+  closeThread: () => void;
+  loadOlderThreadReplies: () => Promise<void>;
+  sendThreadReply: (content: string, type?: string, fileUrl?: string, fileName?: string, fileSize?: number, media?: MessageMedia) => Promise<void>;
+  pendingMessages: Message[];
+  retryPendingMessage: (clientMessageId: string) => void;
+  discardPendingMessage: (clientMessageId: string) => void;
   createDirectChat: (userId: string) => Promise<Chat>;
   createGroupChat: (name: string, memberIds: string[]) => Promise<Chat>;
-  createChannelChat: (name: string, memberIds: string[]) => Promise<Chat>;
+  createChannelChat: (name: string, memberIds: string[], isPublic?: boolean) => Promise<Chat>;
   refreshChats: () => Promise<void>;
   getChatDisplayName: (chat: Chat) => string;
   getChatAvatar: (chat: Chat) => string | null;
   getOtherUser: (chat: Chat) => User | null;
   startCall: (chatId: string, isVideo?: boolean) => void;
   endCall: () => void;
-  joinCall: () => void;
+  joinCall: (call?: ActiveCall) => void;
+  fetchCallHistory: (before?: string) => Promise<CallHistoryPage>;
+  fetchChatMedia: (chatId: string, cursor?: MediaCursor) => Promise<MediaPage>;
+  toggleMute: () => void;
+  toggleCamera: () => Promise<void>;
+  toggleScreenShare: () => Promise<void>;
+  switchCallDevice: (kind: CallDeviceKind, deviceId: string) => Promise<void>;
   addReaction: (messageId: string, emoji: string) => Promise<void>;
   removeReaction: (messageId: string, emoji: string) => Promise<void>;
   saveMessage: (messageId: string) => Promise<void>;
@@ -105,24 +336,84 @@ interface MessengerContextType {
   deleteMessageForMe: (messageId: string) => Promise<void>;
   editMessage: (messageId: string, content: string) => Promise<void>;
   muteChat: (chatId: string, muted: boolean) => Promise<void>;
+  markChatRead: (chatId: string) => Promise<void>;
+  markChatUnread: (chatId: string) => Promise<void>;
+  updateChat: (chatId: string, data: Omit<ChatInfoUpdate, 'is_public'> & { isPublic?: boolean }) => Promise<void>;
+  subscribeChannel: (chatId: string) => Promise<Chat>;
   deleteMessages: (chatId: string) => Promise<void>;
   searchMessages: (chatId: string, q: string) => Promise<void>;
-  searchMessagesGlobal: (q: string) => Promise<Message[]>;
-  createInvite: (chatId: string) => Promise<{ code: string }>;
+  searchMessagesGlobal: (q: string, filters?: MessageSearchFilters, offset?: number) => Promise<MessageSearchPage>;
+  createInvite: (chatId: string, options?: InviteOptions) => Promise<ChatInvite>;
+  addMembers: (chatId: string, userIds: string[]) => Promise<void>;
+  changeMemberRole: (chatId: string, userId: string, role: ChatRole) => Promise<void>;
+  removeMember: (chatId: string, userId: string) => Promise<void>;
+  banMember: (chatId: string, userId: string) => Promise<void>;
+  unbanMember: (chatId: string, userId: string) => Promise<void>;
+  leaveChat: (chatId: string) => Promise<void>;
   fetchSaves: () => Promise<void>;
   fetchTrash: () => Promise<void>;
   restoreMessage: (messageId: string) => Promise<void>;
   permanentDeleteMessage: (messageId: string) => Promise<void>;
-  joinInvite: (code: string) => Promise<void>;
+  joinInvite: (code: string) => Promise<{ chatId: string; pending?: boolean }>;
 }
 
 const MessengerContext = createContext<MessengerContextType | undefined>(undefined);
 
-const RTC_CONFIG = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' },
-  ],
-};
+const OUTBOX_MAX_ATTEMPTS = 6;
+
+const outboxRetryDelay = (attempts: number) => Math.min(1000 * 2 ** attempts, 60000);
+
+const toMediaMetadata = (media: ApiMediaMetadata | undefined): MediaMetadata => ({
+  width: media?.width,
+  height: media?.height,
+  duration: media?.duration,
+  thumbnail_url: media?.thumbnailUrl,
+  blurhash: media?.blurhash,
+});
+
+const toPendingMessage = (entry: OutboxEntry, sender: User | undefined): Message => ({
+  id: entry.clientMessageId,
+  chat_id: entry.chatId,
+  sender_id: entry.userId,
+  content: entry.content,
+  message_type: entry.messageType,
+  file_url: entry.fileUrl,
+  file_name: entry.fileName,
+  file_size: entry.fileSize,
+  waveform: entry.media?.waveform ?? null,
+  ...toMediaMetadata(entry.media),
+  attachments: entry.media?.attachments?.map(item => ({
+    id: item.fileUrl,
+    media_type: item.mediaType,
+    file_url: item.fileUrl,
+    file_name: item.fileName,
+    file_size: item.fileSize,
+    ...toMediaMetadata(item),
+  })),
+  created_at: entry.createdAt,
+  reply_to: entry.replyTo ?? null,
+  reply: entry.reply ?? null,
+  thread_root_id: entry.threadId,
+  sender,
+  reactions: [],
+  client_message_id: entry.clientMessageId,
+  delivery_status: entry.status,
+});
+
+const IDLE_CALL_STATUS: CallStatus = { isActive: false, callId: null, chatId: null, participants: [], isIncoming: false, isVideo: false };
+const IDLE_CALL_MEDIA: CallMediaState = { audio: true, video: false, screen: false };
+
+// ICE servers come from the API; TURN credentials expire, so they're refreshed a little early.
+const ICE_CONFIG_REFRESH_MARGIN_MS = 60000;
+
+interface IceConfig {
+  iceServers: RTCIceServer[];
+  ttl: number | null;
+}
+
+const mentionsUser = (message: Message, userId?: string) => (
+  !!userId && message.sender_id !== userId && !!message.entities?.some(entity => entity.type === 'mention' && entity.user_id === userId)
+);
 
 export const MessengerProvider = ({ children }: { children: ReactNode }) => {
   const { user } = useAuth();
@@ -134,21 +425,46 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
   const [isLoadingChats, setIsLoadingChats] = useState(true);
   const [activeView, setActiveView] = useState<MessengerView>('home');
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [isLoadingMoreMessages, setIsLoadingMoreMessages] = useState(false);
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
   const [typingUsers, setTypingUsers] = useState<Map<string, string[]>>(new Map());
   const [showChatInfo, setShowChatInfo] = useState(false);
+  const [activeThread, setActiveThread] = useState<ThreadState | null>(null);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
   const [saves, setSaves] = useState<Message[]>([]);
   const [trash, setTrash] = useState<Message[]>([]);
-  const [callStatus, setCallStatus] = useState<CallStatus>({ isActive: false, chatId: null, participants: [], isIncoming: false, isVideo: false });
+  const [callStatus, setCallStatus] = useState<CallStatus>(IDLE_CALL_STATUS);
   const [localStreamState, setLocalStreamState] = useState<MediaStream | null>(null);
-  const [remoteStreamState, setRemoteStreamState] = useState<MediaStream | null>(null);
-
-  const peerConnection = useRef<RTCPeerConnection | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [activeCalls, setActiveCalls] = useState<Record<string, ActiveCall>>({});
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [callMedia, setCallMedia] = useState<CallMediaState>(IDLE_CALL_MEDIA);
+  const [remoteCallMedia, setRemoteCallMedia] = useState<Record<string, CallMediaState>>({});
+  const [callDevices, setCallDevices] = useState<Partial<Record<CallDeviceKind, string>>>({});
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+
+  const peerConnections = useRef(new Map<string, RTCPeerConnection>());
+  const pendingCandidates = useRef(new Map<string, RTCIceCandidateInit[]>());
   const localStream = useRef<MediaStream | null>(null);
-  const incomingOfferRef = useRef<RTCSessionDescriptionInit | null>(null);
+  const callIdRef = useRef<string | null>(null);
+  const callMediaRef = useRef<CallMediaState>(IDLE_CALL_MEDIA);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  const rtcConfigRef = useRef<{ config: RTCConfiguration; expiresAt: number } | null>(null);
+  const sendRef = useRef<(type: string, payload: unknown) => void>();
   const activeChatIdRef = useRef<string | null>(null);
   const loadingChatIdRef = useRef<string | null>(null);
   const loadedChatIdRef = useRef<string | null>(null);
   const messagesLengthRef = useRef<number>(0);
+  const hasNewerMessagesRef = useRef(false);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const activeThreadIdRef = useRef<string | null>(null);
+  const eventCursorRef = useRef<EventCursor | null>(null);
+  const replayBufferRef = useRef<WSMessage[] | null>(null);
+  const resyncEventsRef = useRef<(cursor: EventCursor, pending?: WSMessage[]) => Promise<void>>();
+  const refreshActiveCallsRef = useRef<() => Promise<void>>();
+  const isFlushingOutboxRef = useRef(false);
 
   useEffect(() => {
     activeChatIdRef.current = activeChat?.id ?? null;
@@ -158,19 +474,285 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     messagesLengthRef.current = messages.length;
   }, [messages.length]);
 
+  useEffect(() => {
+    hasNewerMessagesRef.current = hasNewerMessages;
+  }, [hasNewerMessages]);
+
+  useEffect(() => {
+    activeThreadIdRef.current = activeThread?.root.id ?? null;
+  }, [activeThread?.root.id]);
+
+  // The flush loop reads the outbox between awaits, so it lives in a ref mirrored into state.
+  const updateOutbox = useCallback((update: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+    outboxRef.current = update(outboxRef.current);
+    setOutboxEntries(outboxRef.current);
+  }, []);
+
+  const saveOutboxEntry = useCallback((entry: OutboxEntry) => {
+    updateOutbox(entries => entries.some(e => e.clientMessageId === entry.clientMessageId)
+      ? entries.map(e => e.clientMessageId === entry.clientMessageId ? entry : e)
+      : [...entries, entry]);
+    outbox.put(entry).catch(e => console.error('Failed to persist outbox entry:', e));
+  }, [updateOutbox]);
+
+  const dropOutboxEntry = useCallback((clientMessageId: string) => {
+    if (!outboxRef.current.some(e => e.clientMessageId === clientMessageId)) return;
+    updateOutbox(entries => entries.filter(e => e.clientMessageId !== clientMessageId));
+    outbox.remove(clientMessageId).catch(e => console.error('Failed to remove outbox entry:', e));
+  }, [updateOutbox]);
+
+  // Sends strictly in order: a message waiting out its backoff holds back the ones behind it.
+  const flushOutbox = useCallback(async () => {
+    if (isFlushingOutboxRef.current) return;
+    isFlushingOutboxRef.current = true;
+    try {
+      for (;;) {
+        const entry = outboxRef.current.find(e => e.status === 'pending');
+        if (!entry || entry.nextAttemptAt > Date.now()) break;
+        try {
+          const sent: Message = await api.sendMessage(
+            entry.chatId, entry.content, entry.messageType, entry.fileUrl, entry.fileName, entry.fileSize,
+            entry.replyTo || undefined, entry.threadId || undefined, entry.clientMessageId, entry.media
+          );
+          dropOutboxEntry(entry.clientMessageId);
+          if (!sent.thread_root_id && sent.chat_id === activeChatIdRef.current && !hasNewerMessagesRef.current) {
+            setMessages(prev => prev.some(m => m.id === sent.id) ? prev : [...prev, sent]);
+          }
+        } catch (e) {
+          // The websocket may have delivered it already, or the user discarded it meanwhile.
+          if (!outboxRef.current.some(x => x.clientMessageId === entry.clientMessageId)) continue;
+          if (e instanceof ApiError && e.status === 409) {
+            dropOutboxEntry(entry.clientMessageId);
+            continue;
+          }
+          // A rejected request fails the same way on retry; anything else means the server is unreachable.
+          const rejected = e instanceof ApiError && e.status < 500;
+          const attempts = entry.attempts + 1;
+          saveOutboxEntry({
+            ...entry,
+            attempts,
+            status: rejected || attempts >= OUTBOX_MAX_ATTEMPTS ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + outboxRetryDelay(attempts),
+            error: e instanceof Error ? e.message : undefined,
+          });
+          if (!rejected) break;
+        }
+      }
+    } finally {
+      isFlushingOutboxRef.current = false;
+    }
+  }, [dropOutboxEntry, saveOutboxEntry]);
+
+  const retryOutboxNow = useCallback(() => {
+    if (!outboxRef.current.some(e => e.status === 'pending')) return;
+    updateOutbox(entries => entries.map(e => e.status === 'pending' ? { ...e, nextAttemptAt: Date.now() } : e));
+  }, [updateOutbox]);
+
   const cleanupCall = useCallback(() => {
     if (localStream.current) {
       localStream.current.getTracks().forEach(track => track.stop());
       localStream.current = null;
     }
-    if (peerConnection.current) {
-      peerConnection.current.close();
-      peerConnection.current = null;
+    if (screenTrackRef.current) {
+      screenTrackRef.current.onended = null;
+      screenTrackRef.current.stop();
+      screenTrackRef.current = null;
     }
-    setCallStatus({ isActive: false, chatId: null, participants: [], isIncoming: false, incomingOffer: undefined, isVideo: false });
+    peerConnections.current.forEach(pc => pc.close());
+    peerConnections.current.clear();
+    pendingCandidates.current.clear();
+    callIdRef.current = null;
+    callMediaRef.current = IDLE_CALL_MEDIA;
+    setCallStatus(IDLE_CALL_STATUS);
     setLocalStreamState(null);
-    setRemoteStreamState(null);
-    incomingOfferRef.current = null;
+    setScreenStream(null);
+    setRemoteStreams({});
+    setCallMedia(IDLE_CALL_MEDIA);
+    setRemoteCallMedia({});
+  }, []);
+
+  const closePeer = useCallback((userId: string) => {
+    peerConnections.current.get(userId)?.close();
+    peerConnections.current.delete(userId);
+    pendingCandidates.current.delete(userId);
+    setRemoteStreams(prev => {
+      if (!prev[userId]) return prev;
+      const next = { ...prev };
+      delete next[userId];
+      return next;
+    });
+    setRemoteCallMedia(prev => {
+      if (!prev[userId]) return prev;
+      const next = { ...prev };
+      delete next[userId];
+      return next;
+    });
+  }, []);
+
+  // One connection per participant. Candidates that arrive before it exists stay queued.
+  const createPeer = useCallback((userId: string) => {
+    const callId = callIdRef.current;
+    peerConnections.current.get(userId)?.close();
+    const pc = new RTCPeerConnection(rtcConfigRef.current?.config);
+    const stream = localStream.current;
+    if (stream) {
+      const video = screenTrackRef.current ?? stream.getVideoTracks()[0];
+      [...stream.getAudioTracks(), ...(video ? [video] : [])].forEach(track => pc.addTrack(track, stream));
+    }
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendRef.current?.('call_ice_candidate', { callId, targetUserId: userId, candidate: event.candidate });
+      }
+    };
+
+    // A fresh stream object each time, so a video track added mid-call re-renders the tile.
+    pc.ontrack = (event) => {
+      setRemoteStreams(prev => {
+        const [remote] = event.streams;
+        const tracks = remote
+          ? remote.getTracks()
+          : [...(prev[userId]?.getTracks() || []).filter(track => track.kind !== event.track.kind), event.track];
+        return { ...prev, [userId]: new MediaStream(tracks) };
+      });
+    };
+
+    peerConnections.current.set(userId, pc);
+    return pc;
+  }, []);
+
+  // Fetched before any connection is created. If it can't be loaded, an earlier copy is reused,
+  // or the connection goes without STUN/TURN and only works on the local network.
+  const loadRtcConfig = useCallback(async () => {
+    const cached = rtcConfigRef.current;
+    if (cached && cached.expiresAt - ICE_CONFIG_REFRESH_MARGIN_MS > Date.now()) return;
+    try {
+      const { iceServers, ttl }: IceConfig = await api.getIceConfig();
+      rtcConfigRef.current = { config: { iceServers }, expiresAt: ttl ? Date.now() + ttl * 1000 : Infinity };
+    } catch (e) {
+      console.error('Failed to load ICE servers:', e);
+    }
+  }, []);
+
+  const acceptRemoteDescription = useCallback(async (userId: string, pc: RTCPeerConnection, sdp: RTCSessionDescriptionInit) => {
+    await pc.setRemoteDescription(new RTCSessionDescription(sdp));
+    const queued = pendingCandidates.current.get(userId) || [];
+    pendingCandidates.current.delete(userId);
+    for (const candidate of queued) {
+      await pc.addIceCandidate(new RTCIceCandidate(candidate));
+    }
+  }, []);
+
+  const renegotiate = useCallback(async (userId: string, pc: RTCPeerConnection) => {
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    sendRef.current?.('call_offer', { callId: callIdRef.current, targetUserId: userId, sdp: offer, renegotiate: true });
+  }, []);
+
+  // Whoever joins later offers to everyone already there, so two peers never offer to each other.
+  // Later offers on an existing connection renegotiate it; if both sides do that at once, the
+  // peer with the lower id rolls its own offer back and repeats it after answering.
+  const handleCallSignal = useCallback(async (type: string, signal: CallSignal) => {
+    const { callId, senderId, sdp, candidate, renegotiate: isRenegotiation } = signal;
+    if (callIdRef.current !== callId) return;
+    try {
+      if (type === 'call_offer' && sdp) {
+        const existing = peerConnections.current.get(senderId);
+        let pc: RTCPeerConnection;
+        let rolledBack = false;
+        if (isRenegotiation && existing) {
+          if (existing.signalingState !== 'stable') {
+            if ((user?.id ?? '') > senderId) return;
+            await existing.setLocalDescription({ type: 'rollback' });
+            rolledBack = true;
+          }
+          pc = existing;
+        } else {
+          await loadRtcConfig();
+          pc = createPeer(senderId);
+        }
+        await acceptRemoteDescription(senderId, pc, sdp);
+        const answer = await pc.createAnswer();
+        await pc.setLocalDescription(answer);
+        sendRef.current?.('call_answer', { callId, targetUserId: senderId, sdp: answer });
+        if (rolledBack) await renegotiate(senderId, pc);
+      } else if (type === 'call_answer' && sdp) {
+        const pc = peerConnections.current.get(senderId);
+        if (pc) await acceptRemoteDescription(senderId, pc, sdp);
+      } else if (type === 'call_ice_candidate' && candidate) {
+        const pc = peerConnections.current.get(senderId);
+        if (pc?.remoteDescription) {
+          await pc.addIceCandidate(new RTCIceCandidate(candidate));
+        } else {
+          pendingCandidates.current.set(senderId, [...(pendingCandidates.current.get(senderId) || []), candidate]);
+        }
+      }
+    } catch (e) {
+      console.error('Failed to handle call signal:', e);
+    }
+  }, [user?.id, createPeer, loadRtcConfig, acceptRemoteDescription, renegotiate]);
+
+  const updateCallMedia = useCallback((patch: Partial<CallMediaState>, targetUserId?: string) => {
+    const next = { ...callMediaRef.current, ...patch };
+    callMediaRef.current = next;
+    setCallMedia(next);
+    if (callIdRef.current) {
+      sendRef.current?.('call_media_state', { callId: callIdRef.current, targetUserId, ...next });
+    }
+  }, []);
+
+  // Swaps what we send on every connection. An audio-only connection has nowhere to put
+  // video yet, so the track is added and the connection renegotiated.
+  const replaceOutgoingTrack = useCallback(async (kind: 'audio' | 'video', track: MediaStreamTrack | null) => {
+    const stream = localStream.current;
+    for (const [userId, pc] of peerConnections.current) {
+      const transceiver = pc.getTransceivers().find(t => t.receiver.track.kind === kind);
+      if (!transceiver) {
+        if (track && stream) {
+          pc.addTrack(track, stream);
+          await renegotiate(userId, pc);
+        }
+        continue;
+      }
+      await transceiver.sender.replaceTrack(track);
+      if (track && stream) transceiver.sender.setStreams?.(stream);
+      if (track && transceiver.direction !== 'sendrecv') {
+        transceiver.direction = 'sendrecv';
+        await renegotiate(userId, pc);
+      }
+    }
+  }, [renegotiate]);
+
+  // Call events aren't replayed, so the list is refetched whenever the socket (re)connects.
+  const refreshActiveCalls = useCallback(async () => {
+    try {
+      const calls: ActiveCall[] = await api.getActiveCalls();
+      setActiveCalls(Object.fromEntries(calls.map(call => [call.chat_id, call])));
+      const current = calls.find(call => call.id === callIdRef.current);
+      if (callIdRef.current && (!current || !current.participants.includes(user?.id ?? ''))) {
+        cleanupCall();
+      }
+    } catch (e) {
+      console.error('Failed to load calls:', e);
+    }
+  }, [user?.id, cleanupCall]);
+
+  // Mentions notify even when the chat is muted. Nothing is shown for the chat being
+  // looked at; in a background tab a system notification is used when allowed.
+  const notifyMention = useCallback((mention: Message) => {
+    if (mention.chat_id === activeChatIdRef.current && !document.hidden) return;
+    const title = `${mention.sender?.username || 'Someone'} mentioned you`;
+    const body = stripMarkup(mention.content);
+    if (document.hidden && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(title, { body, tag: mention.id });
+      return;
+    }
+    // Permission can only be asked for from a click, so the toast offers it.
+    const canAsk = 'Notification' in window && Notification.permission === 'default';
+    toast.info(title, {
+      description: body,
+      action: canAsk ? { label: 'Enable notifications', onClick: () => Notification.requestPermission() } : undefined,
+    });
   }, []);
 
   const handleWSMessage = useCallback(async (message: WSMessage) => {
@@ -180,10 +762,20 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       case 'new_message': {
         const newMsg = message.payload as Message;
         if (!newMsg?.id) break;
-        setMessages(prev => {
-          if (prev.some(m => m.id === newMsg.id)) return prev;
-          return [...prev, newMsg];
-        });
+        if (newMsg.client_message_id) dropOutboxEntry(newMsg.client_message_id);
+        // While browsing history the loaded window doesn't reach the present, so
+        // appending would leave a gap; the message shows up on the way back down.
+        if (newMsg.chat_id === activeChatIdRef.current && !hasNewerMessagesRef.current) {
+          setMessages(prev => {
+            if (prev.some(m => m.id === newMsg.id)) return prev;
+            return [...prev, newMsg];
+          });
+        }
+        const isMention = mentionsUser(newMsg, user?.id);
+        // The open chat is marked read as soon as the message lands, so only the others count up.
+        // System notices never count, matching the unread divider.
+        const isUnread = newMsg.sender_id !== user?.id && newMsg.message_type !== 'system'
+          && newMsg.chat_id !== activeChatIdRef.current;
         setChats(prev => prev.map(chat => {
           if (chat.id === newMsg.chat_id) {
             return {
@@ -195,10 +787,31 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
                 sender_id: newMsg.sender_id,
                 message_type: newMsg.message_type,
               },
+              unread_mentions: (chat.unread_mentions || 0) + (isMention ? 1 : 0),
+              unread_count: (chat.unread_count || 0) + (isUnread ? 1 : 0),
             };
           }
           return chat;
         }));
+        if (isMention) notifyMention(newMsg);
+        break;
+      }
+      case 'thread_reply': {
+        const { chatId, threadId, replyCount, message: reply } = (message.payload as { chatId?: string; threadId?: string; replyCount?: number; message?: Message }) || {};
+        if (!chatId || !threadId || !reply?.id) break;
+        if (reply.client_message_id) dropOutboxEntry(reply.client_message_id);
+        setMessages(prev => prev.map(m => m.id === threadId ? { ...m, reply_count: replyCount } : m));
+        setActiveThread(prev => {
+          if (!prev || prev.root.id !== threadId) return prev;
+          if (prev.replies.some(r => r.id === reply.id)) return { ...prev, root: { ...prev.root, reply_count: replyCount } };
+          return { ...prev, root: { ...prev.root, reply_count: replyCount }, replies: [...prev.replies, reply] };
+        });
+        if (mentionsUser(reply, user?.id)) {
+          setChats(prev => prev.map(chat => (
+            chat.id === chatId ? { ...chat, unread_mentions: (chat.unread_mentions || 0) + 1 } : chat
+          )));
+          notifyMention(reply);
+        }
         break;
       }
       case 'user_status': {
@@ -240,38 +853,81 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
         });
         break;
       }
-      case 'call_offer': {
-        const { chatId, senderId, sdp, isVideo } = message.payload as { chatId: string; senderId: string; sdp: RTCSessionDescriptionInit; isVideo?: boolean };
-        if (senderId !== user?.id) {
-          incomingOfferRef.current = sdp;
+      case 'call_started': {
+        const call = message.payload as ActiveCall;
+        setActiveCalls(prev => ({ ...prev, [call.chat_id]: call }));
+        // Someone already in a call isn't interrupted; the chat shows the call to join instead.
+        if (call.initiator_id !== user?.id && !callIdRef.current) {
           setCallStatus({
             isActive: true,
-            chatId,
-            participants: [senderId],
+            callId: call.id,
+            chatId: call.chat_id,
+            participants: call.participants,
             isIncoming: true,
-            callerId: senderId,
-            incomingOffer: sdp,
-            isVideo: !!isVideo
+            callerId: call.initiator_id,
+            isVideo: call.is_video,
           });
         }
         break;
       }
-      case 'call_answer': {
-        const { sdp } = message.payload as { sdp: RTCSessionDescriptionInit };
-        if (peerConnection.current) {
-          await peerConnection.current.setRemoteDescription(new RTCSessionDescription(sdp));
+      case 'call_participant_joined':
+      case 'call_participant_left': {
+        const { callId, chatId, userId, participants } = message.payload as { callId: string; chatId: string; userId: string; participants: string[] };
+        setActiveCalls(prev => prev[chatId]?.id === callId ? { ...prev, [chatId]: { ...prev[chatId], participants } } : prev);
+        if (callIdRef.current === callId) {
+          if (message.type === 'call_participant_left') {
+            // Leaving from another tab or after a dropped connection ends it here too.
+            if (userId === user?.id) {
+              cleanupCall();
+              break;
+            }
+            closePeer(userId);
+          } else if (userId !== user?.id) {
+            updateCallMedia({}, userId);
+          }
+          setCallStatus(prev => ({ ...prev, participants }));
+        } else if (userId === user?.id) {
+          // Answered on another device.
+          setCallStatus(prev => prev.callId === callId && prev.isIncoming ? IDLE_CALL_STATUS : prev);
+        } else {
+          setCallStatus(prev => prev.callId === callId ? { ...prev, participants } : prev);
         }
         break;
       }
-      case 'call_ice_candidate': {
-        const { candidate } = message.payload as { candidate: RTCIceCandidateInit };
-        if (peerConnection.current && candidate) {
-          await peerConnection.current.addIceCandidate(new RTCIceCandidate(candidate));
+      case 'call_declined': {
+        const { callId, userId } = message.payload as { callId: string; userId: string };
+        // Declined on another device.
+        if (userId === user?.id) {
+          setCallStatus(prev => prev.callId === callId && prev.isIncoming ? IDLE_CALL_STATUS : prev);
         }
         break;
       }
-      case 'call_end': {
-        cleanupCall();
+      case 'call_ended': {
+        const { callId, chatId } = message.payload as { callId: string; chatId: string };
+        setActiveCalls(prev => {
+          if (prev[chatId]?.id !== callId) return prev;
+          const next = { ...prev };
+          delete next[chatId];
+          return next;
+        });
+        if (callIdRef.current === callId) {
+          cleanupCall();
+        } else {
+          setCallStatus(prev => prev.callId === callId ? IDLE_CALL_STATUS : prev);
+        }
+        break;
+      }
+      case 'call_media_state': {
+        const { callId, senderId, audio, video, screen } = message.payload as CallMediaState & { callId: string; senderId: string };
+        if (callIdRef.current === callId) {
+          setRemoteCallMedia(prev => ({ ...prev, [senderId]: { audio, video, screen } }));
+        }
+        break;
+      }
+      case 'call_offer':
+      case 'call_answer':
+      case 'call_ice_candidate': {
+        await handleCallSignal(message.type, message.payload as CallSignal);
         break;
       }
       case 'reaction_added': {
@@ -297,18 +953,35 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
         break;
       }
       case 'message_deleted': {
-        const { messageId, chatId } = message.payload as { messageId: string; chatId: string };
+        const { messageId, chatId, threadId } = message.payload as { messageId: string; chatId: string; threadId?: string | null };
         if (activeChat?.id === chatId) {
-          setMessages(prev => prev.filter(m => m.id !== messageId));
+          setMessages(prev => prev
+            .filter(m => m.id !== messageId)
+            .map(m => (threadId && m.id === threadId ? { ...m, reply_count: Math.max((m.reply_count || 1) - 1, 0) } : m)));
         }
+        setActiveThread(prev => {
+          if (!prev) return prev;
+          if (prev.root.id === messageId) return null;
+          if (prev.root.id !== threadId) return prev;
+          return {
+            ...prev,
+            root: { ...prev.root, reply_count: Math.max((prev.root.reply_count || 1) - 1, 0) },
+            replies: prev.replies.filter(r => r.id !== messageId),
+          };
+        });
         break;
       }
       case 'message_edited': {
-        const { id, chatId, content, edited_at } = message.payload as { id: string; chatId: string; content: string; edited_at?: string };
+        const { id, chatId, content, entities, edited_at } = message.payload as { id: string; chatId: string; content: string; entities?: MessageEntity[]; edited_at?: string };
         if (!id || !chatId) break;
+        const apply = (m: Message) => (m.id === id ? { ...m, content, entities: entities ?? m.entities, edited_at: edited_at || m.edited_at } : m);
         if (activeChat?.id === chatId) {
-          setMessages(prev => prev.map(m => m.id === id ? { ...m, content, edited_at: edited_at || m.edited_at } : m));
+          setMessages(prev => prev.map(apply));
         }
+        setActiveThread(prev => {
+          if (!prev || prev.root.chat_id !== chatId) return prev;
+          return { ...prev, root: apply(prev.root), replies: prev.replies.map(apply) };
+        });
         setChats(prev => prev.map(chat => {
           if (chat.id === chatId && chat.last_message?.id === id) {
             return {
@@ -323,6 +996,19 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
         }));
         break;
       }
+      case 'message_preview_ready': {
+        const { messageId, chatId, preview } = message.payload as { messageId: string; chatId: string; preview: LinkPreview | null };
+        if (!messageId || !chatId) break;
+        const apply = (m: Message) => (m.id === messageId ? { ...m, link_preview: preview } : m);
+        if (activeChat?.id === chatId) {
+          setMessages(prev => prev.map(apply));
+        }
+        setActiveThread(prev => {
+          if (!prev || prev.root.chat_id !== chatId) return prev;
+          return { ...prev, root: apply(prev.root), replies: prev.replies.map(apply) };
+        });
+        break;
+      }
       case 'read_receipt': {
         const { chatId, userId, lastReadAt } = message.payload as { chatId: string; userId: string; lastReadAt: string };
         if (!chatId || !userId) break;
@@ -342,6 +1028,37 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
         }
         break;
       }
+      case 'chat_read_state': {
+        const { chatId, lastReadAt, markedUnread } = (message.payload as { chatId?: string; lastReadAt?: string; markedUnread?: boolean }) || {};
+        if (!chatId || !user?.id) break;
+        if (markedUnread) {
+          setChats(prev => prev.map(chat => chat.id === chatId ? { ...chat, marked_unread: true } : chat));
+          break;
+        }
+        setChats(prev => prev.map(chat => (
+          chat.id === chatId
+            ? {
+              ...chat,
+              unread_count: 0,
+              unread_mentions: 0,
+              marked_unread: false,
+              members: lastReadAt ? chat.members.map(m => m.id === user.id ? { ...m, last_read_at: lastReadAt } : m) : chat.members,
+            }
+            : chat
+        )));
+        break;
+      }
+      case 'messages_delivered': {
+        const { chatId, userId, lastDeliveredAt } = (message.payload as { chatId?: string; userId?: string; lastDeliveredAt?: string }) || {};
+        if (!chatId || !userId || !lastDeliveredAt) break;
+        const apply = (chat: Chat) => ({
+          ...chat,
+          members: chat.members.map(m => m.id === userId ? { ...m, last_delivered_at: lastDeliveredAt } : m),
+        });
+        setChats(prev => prev.map(chat => (chat.id === chatId ? apply(chat) : chat)));
+        setActiveChat(prev => (prev?.id === chatId ? apply(prev) : prev));
+        break;
+      }
       case 'history_cleared': {
         const { chatId } = message.payload as { chatId: string };
         if (activeChat?.id === chatId) {
@@ -349,6 +1066,62 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
         }
         break;
       }
+      case 'chat_members_changed': {
+        const { chatId, action, userIds } = (message.payload as { chatId?: string; action?: string; userIds?: string[] }) || {};
+        if (!chatId) break;
+        const lostAccess = ['removed', 'banned', 'left'].includes(action || '') && !!user?.id && !!userIds?.includes(user.id);
+        if (lostAccess) {
+          setChats(prev => prev.filter(chat => chat.id !== chatId));
+          if (activeChatIdRef.current === chatId) {
+            setActiveChat(null);
+            setMessages([]);
+          }
+          if (action !== 'left') {
+            toast.info(action === 'banned' ? 'You were banned from a chat' : 'You were removed from a chat');
+          }
+          break;
+        }
+        try {
+          const fetched = await api.getChat(chatId);
+          if (!fetched?.id) break;
+          setChats(prev => (
+            prev.some(chat => chat.id === chatId)
+              ? prev.map(chat => chat.id === chatId ? { ...chat, ...fetched } : chat)
+              : [{ last_message: null, ...fetched }, ...prev]
+          ));
+          if (activeChatIdRef.current === chatId) {
+            setActiveChat(prev => prev ? { ...prev, ...fetched } : prev);
+          }
+        } catch (e) {
+          console.error('Failed to refresh chat members:', e);
+        }
+        break;
+      }
+      case 'chat_updated': {
+        const { chatId, ...info } = (message.payload as ChatInfoUpdate & { chatId?: string }) || {};
+        if (!chatId) break;
+        setChats(prev => prev.map(chat => chat.id === chatId ? { ...chat, ...info } : chat));
+        if (activeChatIdRef.current === chatId) {
+          setActiveChat(prev => prev ? { ...prev, ...info } : prev);
+        }
+        break;
+      }
+      case 'join_requests_changed': {
+        const { chatId, action, user: requester } = (message.payload as { chatId?: string; action?: string; user?: { username: string } }) || {};
+        if (!chatId) break;
+        if (action === 'requested' && requester) {
+          toast.info(`${requester.username} asked to join a chat`);
+        }
+        window.dispatchEvent(new CustomEvent('chat-join-requests-changed', { detail: { chatId } }));
+        break;
+      }
+      case 'join_request_resolved': {
+        const { chatName, approved } = (message.payload as { chatName?: string | null; approved?: boolean }) || {};
+        const name = chatName || 'the chat';
+        if (approved) toast.success(`Your request to join ${name} was approved`);
+        else toast.info(`Your request to join ${name} was declined`);
+        break;
+      }
       case 'chat_pinned': {
         const { chatId, pinnedMessage } = message.payload as { chatId: string; pinnedMessage: Message | null };
         setChats(prev => prev.map(chat => (
@@ -360,9 +1133,110 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
         break;
       }
     }
-  }, [activeChat?.id, user?.id, cleanupCall]);
+  }, [activeChat?.id, user?.id, cleanupCall, closePeer, handleCallSignal, updateCallMedia, dropOutboxEntry, notifyMention]);
 
-  const { send } = useWebSocket(handleWSMessage);
+  const handleWSMessageRef = useRef(handleWSMessage);
+  useEffect(() => {
+    handleWSMessageRef.current = handleWSMessage;
+  }, [handleWSMessage]);
+
+  // Sequenced events advance the cursor; one at or below it has already been applied.
+  const applyEvent = useCallback((message: WSMessage) => {
+    const cursor = eventCursorRef.current;
+    if (cursor && typeof message.seq === 'number') {
+      if (message.seq <= cursor.seq) return;
+      cursor.seq = message.seq;
+    }
+    handleWSMessageRef.current(message);
+  }, []);
+
+  // Every connection opens with a `session` event carrying the server's position in this
+  // user's event stream. If it moved on while we were away, fetch what we missed; live
+  // events are held back until the replay has been applied so they stay in order.
+  const handleSocketMessage = useCallback((message: WSMessage) => {
+    if (message.type === 'session') {
+      const session = message.payload as EventCursor;
+      const cursor = eventCursorRef.current;
+      refreshActiveCallsRef.current?.();
+      if (replayBufferRef.current) return;
+      if (!cursor) {
+        eventCursorRef.current = { ...session };
+      } else if (cursor.epoch !== session.epoch || cursor.seq !== session.seq) {
+        resyncEventsRef.current?.(cursor);
+      }
+      return;
+    }
+    if (typeof message.seq === 'number') {
+      if (replayBufferRef.current) {
+        replayBufferRef.current.push(message);
+        return;
+      }
+      const cursor = eventCursorRef.current;
+      if (cursor && message.seq > cursor.seq + 1) {
+        resyncEventsRef.current?.(cursor, [message]);
+        return;
+      }
+    }
+    applyEvent(message);
+  }, [applyEvent]);
+
+  const { send, isConnected } = useWebSocket(handleSocketMessage);
+
+  useEffect(() => {
+    sendRef.current = send;
+    refreshActiveCallsRef.current = refreshActiveCalls;
+  }, [send, refreshActiveCalls]);
+
+  useEffect(() => {
+    updateOutbox(() => []);
+    if (!user?.id) return;
+    let cancelled = false;
+    outbox.list(user.id)
+      .then((stored) => {
+        if (cancelled) return;
+        updateOutbox(entries => [
+          ...stored.filter(s => !entries.some(e => e.clientMessageId === s.clientMessageId)),
+          ...entries,
+        ]);
+        retryOutboxNow();
+      })
+      .catch(e => console.error('Failed to load outbox:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, updateOutbox, retryOutboxNow]);
+
+  // Backoff stops mattering once the connection is back.
+  useEffect(() => {
+    if (isConnected) retryOutboxNow();
+  }, [isConnected, retryOutboxNow]);
+
+  useEffect(() => {
+    window.addEventListener('online', retryOutboxNow);
+    return () => window.removeEventListener('online', retryOutboxNow);
+  }, [retryOutboxNow]);
+
+  useEffect(() => {
+    const next = outboxEntries.find(e => e.status === 'pending');
+    if (!next) return;
+    const timeout = window.setTimeout(flushOutbox, Math.max(next.nextAttemptAt - Date.now(), 0));
+    return () => window.clearTimeout(timeout);
+  }, [outboxEntries, flushOutbox]);
+
+  // Tells senders their messages reached this device. The newest message in each chat
+  // stands for everything before it, and each one is acknowledged once.
+  const deliveredAckRef = useRef(new Map<string, string>());
+  useEffect(() => {
+    if (!isConnected || !user?.id) return;
+    chats.forEach((chat) => {
+      const last = chat.last_message;
+      if (!last || last.sender_id === user.id || deliveredAckRef.current.get(chat.id) === last.id) return;
+      const deliveredAt = chat.members.find(m => m.id === user.id)?.last_delivered_at;
+      if (deliveredAt && new Date(deliveredAt).getTime() >= new Date(last.created_at).getTime()) return;
+      deliveredAckRef.current.set(chat.id, last.id);
+      send('message_delivered', { chatId: chat.id, messageId: last.id });
+    });
+  }, [chats, isConnected, user?.id, send]);
 
   const sendTyping = useCallback((chatId: string) => {
     send('typing', { chatId });
@@ -402,6 +1276,60 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     refreshChats();
   }, [refreshChats]);
 
+  // For when missed events can't be replayed: reload everything they could have touched.
+  const reloadState = useCallback(async () => {
+    await refreshChats();
+    const chatId = activeChatIdRef.current;
+    // While browsing history the window doesn't include new messages anyway.
+    if (chatId && !hasNewerMessagesRef.current) {
+      try {
+        const data = await api.getMessages(chatId);
+        if (activeChatIdRef.current === chatId) {
+          setMessages(data.messages);
+          setHasOlderMessages(!!data.hasOlder);
+        }
+      } catch (e) {
+        console.error('Failed to reload messages:', e);
+      }
+    }
+    const threadId = activeThreadIdRef.current;
+    if (threadId) {
+      try {
+        const data = await api.getThread(threadId);
+        setActiveThread(prev => prev && prev.root.id === threadId
+          ? { root: data.root, replies: data.replies, hasMore: data.hasMore }
+          : prev);
+      } catch (e) {
+        console.error('Failed to reload thread:', e);
+      }
+    }
+  }, [refreshChats]);
+
+  const resyncEvents = useCallback(async (cursor: EventCursor, pending: WSMessage[] = []) => {
+    replayBufferRef.current = pending;
+    try {
+      const replay: EventReplay = await api.getEvents(cursor.epoch, cursor.seq);
+      if (replay.reset) {
+        eventCursorRef.current = replay.epoch ? { epoch: replay.epoch, seq: replay.seq } : null;
+        await reloadState();
+      } else {
+        (replay.events || []).forEach(applyEvent);
+      }
+    } catch (e) {
+      // Leave the cursor where it was; the next session or gap retries from there.
+      console.error('Failed to replay missed events:', e);
+      replayBufferRef.current = null;
+      return;
+    }
+    const buffered = replayBufferRef.current || [];
+    replayBufferRef.current = null;
+    buffered.forEach(applyEvent);
+  }, [applyEvent, reloadState]);
+
+  useEffect(() => {
+    resyncEventsRef.current = resyncEvents;
+  }, [resyncEvents]);
+
   const markChatRead = useCallback(async (chatId: string) => {
     if (!user?.id) return;
     try {
@@ -410,7 +1338,13 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       if (!lastReadAt) return;
       setChats(prev => prev.map(chat => (
         chat.id === chatId
-          ? { ...chat, members: chat.members.map(m => m.id === user.id ? { ...m, last_read_at: lastReadAt } : m) }
+          ? {
+            ...chat,
+            unread_count: 0,
+            unread_mentions: 0,
+            marked_unread: false,
+            members: chat.members.map(m => m.id === user.id ? { ...m, last_read_at: lastReadAt } : m),
+          }
           : chat
       )));
       if (activeChatIdRef.current === chatId) {
@@ -424,6 +1358,19 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [user?.id]);
 
+  const markChatUnread = useCallback(async (chatId: string) => {
+    try {
+      await api.markChatUnread(chatId);
+      setChats(prev => prev.map(chat => chat.id === chatId ? { ...chat, marked_unread: true } : chat));
+    } catch (e) {
+      console.error('Failed to mark chat unread:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    setActiveThread(prev => (prev && prev.root.chat_id !== activeChat?.id ? null : prev));
+  }, [activeChat?.id]);
+
   useEffect(() => {
     const chatId = activeChat?.id;
     if (!chatId) {
@@ -438,9 +1385,11 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       setIsLoadingMessages(true);
       try {
         const data = await api.getMessages(chatId);
-        setMessages(data);
+        setMessages(data.messages);
+        setHasOlderMessages(!!data.hasOlder);
+        setHasNewerMessages(false);
         loadedChatIdRef.current = chatId;
-        if (data && data.length > 0) {
+        if (data.messages.length > 0) {
           markChatRead(chatId);
         }
       } catch (e) {
@@ -465,13 +1414,45 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [messages.length, activeChat?.id, user?.id, markChatRead]);
 
-  const sendMessage = async (content: string, type = 'text', fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string | null) => {
+  const enqueueMessage = (chatId: string, threadId: string | null, content: string, type: string, fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string | null, media?: MessageMedia) => {
+    if (!user) return;
+    const replyTarget = replyTo ? messages.find(m => m.id === replyTo) : null;
+    saveOutboxEntry({
+      clientMessageId: createClientMessageId(),
+      userId: user.id,
+      chatId,
+      threadId,
+      content,
+      messageType: type,
+      fileUrl,
+      fileName,
+      fileSize,
+      media,
+      replyTo: replyTo || null,
+      reply: replyTarget
+        ? { id: replyTarget.id, content: replyTarget.content, sender_id: replyTarget.sender_id, sender_username: replyTarget.sender?.username || 'Unknown' }
+        : null,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      status: 'pending',
+    });
+  };
+
+  const sendMessage = async (content: string, type = 'text', fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string | null, media?: MessageMedia) => {
     if (!activeChat) return;
-    try {
-      await api.sendMessage(activeChat.id, content, type, fileUrl, fileName, fileSize, replyTo || undefined);
-    } catch (e) {
-      console.error('Failed to send message:', e);
-    }
+    enqueueMessage(activeChat.id, null, content, type, fileUrl, fileName, fileSize, replyTo, media);
+    if (hasNewerMessagesRef.current) await jumpToLatest();
+  };
+
+  const retryPendingMessage = (clientMessageId: string) => {
+    const entry = outboxRef.current.find(e => e.clientMessageId === clientMessageId);
+    if (!entry) return;
+    saveOutboxEntry({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: undefined });
+  };
+
+  const discardPendingMessage = (clientMessageId: string) => {
+    dropOutboxEntry(clientMessageId);
   };
 
   const forwardMessage = async (messageId: string, chatId: string) => {
@@ -496,36 +1477,142 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const openMessageContext = async (messageId: string) => {
+  const loadOlderMessages = async () => {
+    const chatId = activeChat?.id;
+    const oldest = messages[0];
+    if (!chatId || !oldest || !hasOlderMessages || isLoadingMoreMessages) return;
+    setIsLoadingMoreMessages(true);
+    try {
+      const data = await api.getMessages(chatId, { before: oldest.id });
+      if (activeChatIdRef.current !== chatId) return;
+      setMessages(prev => [...data.messages.filter((m: Message) => !prev.some(p => p.id === m.id)), ...prev]);
+      setHasOlderMessages(!!data.hasOlder);
+    } catch (e) {
+      console.error('Failed to load older messages:', e);
+    } finally {
+      setIsLoadingMoreMessages(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const chatId = activeChat?.id;
+    const newest = messages[messages.length - 1];
+    if (!chatId || !newest || !hasNewerMessages || isLoadingMoreMessages) return;
+    setIsLoadingMoreMessages(true);
     try {
-      const data = await api.getMessageContext(messageId);
-      let chat = chats.find(c => c.id === data.chatId) || null;
+      const data = await api.getMessages(chatId, { after: newest.id });
+      if (activeChatIdRef.current !== chatId) return;
+      setMessages(prev => [...prev, ...data.messages.filter((m: Message) => !prev.some(p => p.id === m.id))]);
+      setHasNewerMessages(!!data.hasNewer);
+    } catch (e) {
+      console.error('Failed to load newer messages:', e);
+    } finally {
+      setIsLoadingMoreMessages(false);
+    }
+  };
+
+  // Replaces the loaded window with the page around a message or a point in time.
+  const loadAround = async (chat: Chat, around: string) => {
+    const data = await api.getMessages(chat.id, { around });
+    loadedChatIdRef.current = chat.id;
+    loadingChatIdRef.current = null;
+    setActiveChat(chat);
+    setMessages(data.messages);
+    setHasOlderMessages(!!data.hasOlder);
+    setHasNewerMessages(!!data.hasNewer);
+    setScrollTargetId(data.targetId || null);
+    return data as { targetId: string | null; threadId: string | null };
+  };
+
+  const jumpToMessage = async (chatId: string, messageId: string) => {
+    try {
+      let chat = chats.find(c => c.id === chatId) || null;
       if (!chat) {
-        try {
-          const fetched = await api.getChat(data.chatId);
-          chat = fetched;
-          setChats(prev => (prev.some(c => c.id === fetched.id) ? prev : [fetched, ...prev]));
-        } catch {
-          await refreshChats();
-          chat = chats.find(c => c.id === data.chatId) || null;
-        }
+        const fetched = await api.getChat(chatId);
+        chat = fetched;
+        setChats(prev => (prev.some(c => c.id === fetched.id) ? prev : [fetched, ...prev]));
       }
-      if (chat) {
-        setActiveChat(chat);
+      const data = await loadAround(chat, messageId);
+      if (data.threadId) {
+        openThread(data.threadId);
       }
-      setMessages(data.messages);
-      loadedChatIdRef.current = data.chatId;
-      loadingChatIdRef.current = null;
-      setTimeout(() => {
-        const el = document.getElementById(`message-${messageId}`);
-        if (el) el.scrollIntoView({ block: 'center' });
-      }, 60);
-    } catch (e) {
-      console.error('Failed to open message context:', e);
+    } catch (e) {
+      console.error('Failed to jump to message:', e);
       throw e;
     }
   };
 
+  const jumpToDate = async (date: Date) => {
+    if (!activeChat) return;
+    try {
+      const data = await loadAround(activeChat, date.toISOString());
+      if (!data.targetId) toast.info('No messages around that date');
+    } catch (e) {
+      console.error('Failed to jump to date:', e);
+      toast.error('Failed to load messages for that date');
+    }
+  };
+
+  const jumpToLatest = async () => {
+    const chatId = activeChat?.id;
+    if (!chatId) return;
+    try {
+      const data = await api.getMessages(chatId);
+      if (activeChatIdRef.current !== chatId) return;
+      setMessages(data.messages);
+      setHasOlderMessages(!!data.hasOlder);
+      setHasNewerMessages(false);
+      setScrollTargetId(data.messages[data.messages.length - 1]?.id || null);
+    } catch (e) {
+      console.error('Failed to load latest messages:', e);
+    }
+  };
+
+  const clearScrollTarget = useCallback(() => setScrollTargetId(null), []);
+
+  const openThread = useCallback(async (messageId: string) => {
+    setIsLoadingThread(true);
+    setShowChatInfo(false);
+    try {
+      const data = await api.getThread(messageId);
+      setActiveThread({ root: data.root, replies: data.replies, hasMore: data.hasMore });
+    } catch (e) {
+      console.error('Failed to open thread:', e);
+      toast.error('Failed to open thread');
+    } finally {
+      setIsLoadingThread(false);
+    }
+  }, []);
+
+  const closeThread = useCallback(() => {
+    setActiveThread(null);
+  }, []);
+
+  const loadOlderThreadReplies = async () => {
+    if (!activeThread || !activeThread.hasMore || isLoadingThread) return;
+    const oldest = activeThread.replies[0];
+    if (!oldest) return;
+    setIsLoadingThread(true);
+    try {
+      const data = await api.getThread(activeThread.root.id, oldest.id);
+      setActiveThread(prev => {
+        if (!prev || prev.root.id !== activeThread.root.id) return prev;
+        const known = new Set(prev.replies.map(r => r.id));
+        const older = (data.replies as Message[]).filter(r => !known.has(r.id));
+        return { ...prev, replies: [...older, ...prev.replies], hasMore: data.hasMore };
+      });
+    } catch (e) {
+      console.error('Failed to load thread replies:', e);
+    } finally {
+      setIsLoadingThread(false);
+    }
+  };
+
+  const sendThreadReply = async (content: string, type = 'text', fileUrl?: string, fileName?: string, fileSize?: number, media?: MessageMedia) => {
+    if (!activeThread) return;
+    enqueueMessage(activeThread.root.chat_id, activeThread.root.id, content, type, fileUrl, fileName, fileSize, null, media);
+  };
+
   const createDirectChat = async (userId: string) => {
     const chat = await createDirectChatApi(userId);
     setChats(prev => {
@@ -545,8 +1632,8 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     return chat;
   };
 
-  const createChannelChat = async (name: string, memberIds: string[]) => {
-    const chat = await api.createChat({ name, chatType: 'channel', memberIds, isGroup: true });
+  const createChannelChat = async (name: string, memberIds: string[], isPublic = false) => {
+    const chat = await api.createChat({ name, chatType: 'channel', memberIds, isGroup: true, isPublic });
     setChats(prev => [chat, ...prev]);
     return chat;
   };
@@ -570,39 +1657,69 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     return other?.avatar || null;
   };
 
-  const setupPeerConnection = (chatId: string) => {
-    const pc = new RTCPeerConnection(RTC_CONFIG);
-
-    pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        send('call_ice_candidate', { chatId, candidate: event.candidate });
-      }
-    };
+  const attachLocalStream = (stream: MediaStream) => {
+    localStream.current = stream;
+    setLocalStreamState(stream);
+    callMediaRef.current = { audio: true, video: stream.getVideoTracks().length > 0, screen: false };
+    setCallMedia(callMediaRef.current);
+  };
 
-    pc.ontrack = (event) => {
-      setRemoteStreamState(event.streams[0]);
-    };
+  // Joining is what connects: the server returns who is already there and we offer to each of them.
+  const connectToCall = async (call: ActiveCall, stream: MediaStream) => {
+    callIdRef.current = call.id;
+    attachLocalStream(stream);
+
+    const joined: ActiveCall = await api.joinCall(call.id);
+    await loadRtcConfig();
+    setCallStatus({
+      isActive: true,
+      callId: call.id,
+      chatId: call.chat_id,
+      participants: joined.participants,
+      isIncoming: false,
+      callerId: call.initiator_id,
+      isVideo: call.is_video,
+    });
 
-    peerConnection.current = pc;
-    return pc;
+    for (const participantId of joined.participants) {
+      if (participantId === user!.id) continue;
+      const pc = createPeer(participantId);
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+      send('call_offer', { callId: call.id, targetUserId: participantId, sdp: offer });
+    }
+    updateCallMedia({});
   };
 
   const startCall = async (chatId: string, isVideo = false) => {
+    if (callIdRef.current) {
+      toast.info('You are already in a call');
+      return;
+    }
+    let stream: MediaStream | null = null;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: isVideo });
-      localStream.current = stream;
-      setLocalStreamState(stream);
-
-      const pc = setupPeerConnection(chatId);
-      stream.getTracks().forEach(track => pc.addTrack(track, stream));
-
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
+      stream = await navigator.mediaDevices.getUserMedia(callConstraints(isVideo));
+      await loadRtcConfig();
+      const call: ActiveCall = await api.startCall(chatId, isVideo);
+      setActiveCalls(prev => ({ ...prev, [call.chat_id]: call }));
+
+      // The chat already had a call running, so this joins it instead.
+      if (!call.participants.includes(user!.id)) {
+        await connectToCall(call, stream);
+        return;
+      }
 
-      setCallStatus({ isActive: true, chatId, participants: [user!.id], isIncoming: false, isVideo });
-      send('call_offer', { chatId, sdp: offer, isVideo });
+      callIdRef.current = call.id;
+      attachLocalStream(stream);
+      setCallStatus({ isActive: true, callId: call.id, chatId, participants: call.participants, isIncoming: false, callerId: user!.id, isVideo });
     } catch (e) {
       console.error('Failed to start call:', e);
+      toast.error(e instanceof ApiError ? e.message : 'Failed to start call');
+      if (callIdRef.current) {
+        endCall();
+      } else {
+        stream?.getTracks().forEach(track => track.stop());
+      }
     }
   };
 
@@ -685,6 +1802,23 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const updateChat = async (chatId: string, data: Omit<ChatInfoUpdate, 'is_public'> & { isPublic?: boolean }) => {
+    const updated = await api.updateChat(chatId, data);
+    const info: ChatInfoUpdate = { name: updated.name, avatar: updated.avatar, description: updated.description, is_public: updated.is_public };
+    setChats(prev => prev.map(c => c.id === chatId ? { ...c, ...info } : c));
+    if (activeChat?.id === chatId) {
+      setActiveChat(prev => prev ? { ...prev, ...info } : null);
+    }
+  };
+
+  const subscribeChannel = async (chatId: string) => {
+    await api.subscribeChannel(chatId);
+    const chat = await api.getChat(chatId);
+    const subscribed: Chat = { last_message: null, ...chat };
+    setChats(prev => prev.some(c => c.id === chatId) ? prev : [subscribed, ...prev]);
+    return subscribed;
+  };
+
   const deleteMessages = async (chatId: string) => {
     try {
       await api.deleteMessages(chatId);
@@ -704,19 +1838,49 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
 
   const searchMessages = async (chatId: string, q: string) => {
     try {
-      const results = await api.searchMessages(chatId, q);
-      setMessages(results);
+      const results: MessageSearchPage = await api.searchMessages(chatId, q);
+      setMessages(results.messages);
     } catch (e) {
       console.error('Search failed:', e);
     }
   };
 
-  const searchMessagesGlobal = async (q: string) => {
-    return await api.searchMessagesGlobal(q);
+  const searchMessagesGlobal = async (q: string, filters: MessageSearchFilters = {}, offset = 0) => {
+    return await api.searchMessagesGlobal({ ...filters, q, offset }) as MessageSearchPage;
+  };
+
+  const createInvite = async (chatId: string, options: InviteOptions = {}) => {
+    return await api.createInvite(chatId, options) as ChatInvite;
   };
 
-  const createInvite = async (chatId: string) => {
-    return await api.createInvite(chatId);
+  const addMembers = async (chatId: string, userIds: string[]) => {
+    await api.addChatMembers(chatId, userIds);
+  };
+
+  const changeMemberRole = async (chatId: string, userId: string, role: ChatRole) => {
+    await api.updateMemberRole(chatId, userId, role);
+  };
+
+  const removeMember = async (chatId: string, userId: string) => {
+    await api.removeChatMember(chatId, userId);
+  };
+
+  const banMember = async (chatId: string, userId: string) => {
+    await api.banChatMember(chatId, userId);
+  };
+
+  const unbanMember = async (chatId: string, userId: string) => {
+    await api.unbanChatMember(chatId, userId);
+  };
+
+  const leaveChat = async (chatId: string) => {
+    await api.leaveChat(chatId);
+    setChats(prev => prev.filter(c => c.id !== chatId));
+    if (activeChat?.id === chatId) {
+      setActiveChat(null);
+      setMessages([]);
+      setShowChatInfo(false);
+    }
   };
 
   const fetchSaves = useCallback(async () => {
@@ -758,43 +1922,161 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
 
   const joinInvite = useCallback(async (code: string) => {
     try {
-      await api.joinInvite(code);
-      await refreshChats();
+      const result = await api.joinInvite(code);
+      if (!result.pending) await refreshChats();
+      return result as { chatId: string; pending?: boolean };
     } catch (e) {
       console.error('Failed to join invite:', e);
       throw e;
     }
   }, [refreshChats]);
 
-  const joinCall = async () => {
-    if (!callStatus.chatId || !incomingOfferRef.current) return;
-
+  const joinCall = async (call?: ActiveCall) => {
+    const target = call ?? (callStatus.isIncoming && callStatus.callId && callStatus.chatId ? {
+      id: callStatus.callId,
+      chat_id: callStatus.chatId,
+      initiator_id: callStatus.callerId ?? '',
+      is_video: !!callStatus.isVideo,
+      started_at: '',
+      participants: callStatus.participants,
+    } : null);
+    if (!target || callIdRef.current) return;
+
+    let stream: MediaStream | null = null;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: callStatus.isVideo });
-      localStream.current = stream;
-      setLocalStreamState(stream);
-
-      const pc = setupPeerConnection(callStatus.chatId);
-      stream.getTracks().forEach(track => pc.addTrack(track, stream));
-
-      await pc.setRemoteDescription(new RTCSessionDescription(incomingOfferRef.current));
-      const answer = await pc.createAnswer();
-      await pc.setLocalDescription(answer);
-
-      setCallStatus(prev => ({ ...prev, isIncoming: false, participants: [...prev.participants, user!.id] }));
-      send('call_answer', { chatId: callStatus.chatId, sdp: answer });
+      stream = await navigator.mediaDevices.getUserMedia(callConstraints(target.is_video));
+      await connectToCall(target, stream);
     } catch (e) {
       console.error('Failed to join call:', e);
+      toast.error(e instanceof ApiError ? e.message : 'Failed to join call');
+      if (callIdRef.current) {
+        endCall();
+      } else {
+        stream?.getTracks().forEach(track => track.stop());
+      }
     }
   };
 
+  // Leaves the call, or declines it while it's still ringing.
   const endCall = () => {
-    if (callStatus.chatId) {
-      send('call_end', { chatId: callStatus.chatId });
+    const callId = callIdRef.current;
+    if (callId) {
+      api.leaveCall(callId).catch(e => console.error('Failed to leave call:', e));
+    } else if (callStatus.isIncoming && callStatus.callId) {
+      api.declineCall(callStatus.callId).catch(e => console.error('Failed to decline call:', e));
     }
     cleanupCall();
   };
 
+  const callConstraints = (video: boolean): MediaStreamConstraints => ({
+    audio: callDevices.audioinput ? { deviceId: { exact: callDevices.audioinput } } : true,
+    video: video && (callDevices.videoinput ? { deviceId: { exact: callDevices.videoinput } } : true),
+  });
+
+  const refreshLocalStream = () => {
+    const stream = localStream.current;
+    if (stream) setLocalStreamState(new MediaStream(stream.getTracks()));
+  };
+
+  const toggleMute = () => {
+    const audio = !callMediaRef.current.audio;
+    localStream.current?.getAudioTracks().forEach(track => { track.enabled = audio; });
+    updateCallMedia({ audio });
+  };
+
+  // Turning the camera off stops it entirely; turning it on in a voice call upgrades every connection.
+  const toggleCamera = async () => {
+    const stream = localStream.current;
+    if (!stream || !callIdRef.current) return;
+    const camera = stream.getVideoTracks()[0];
+    if (camera) {
+      camera.stop();
+      stream.removeTrack(camera);
+      if (!screenTrackRef.current) await replaceOutgoingTrack('video', null);
+      updateCallMedia({ video: false });
+      refreshLocalStream();
+      return;
+    }
+    try {
+      const media = await navigator.mediaDevices.getUserMedia({ video: callConstraints(true).video });
+      const [track] = media.getVideoTracks();
+      stream.addTrack(track);
+      if (!screenTrackRef.current) await replaceOutgoingTrack('video', track);
+      updateCallMedia({ video: true });
+      refreshLocalStream();
+    } catch (e) {
+      console.error('Failed to turn on camera:', e);
+      toast.error('Camera is unavailable');
+    }
+  };
+
+  const stopScreenShare = async () => {
+    const track = screenTrackRef.current;
+    if (!track) return;
+    screenTrackRef.current = null;
+    track.onended = null;
+    track.stop();
+    setScreenStream(null);
+    await replaceOutgoingTrack('video', localStream.current?.getVideoTracks()[0] ?? null);
+    updateCallMedia({ screen: false });
+  };
+
+  // The screen takes the camera's place on each connection and gives it back when sharing stops.
+  const toggleScreenShare = async () => {
+    if (!callIdRef.current) return;
+    if (screenTrackRef.current) {
+      await stopScreenShare();
+      return;
+    }
+    try {
+      const display = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      const [track] = display.getVideoTracks();
+      screenTrackRef.current = track;
+      // Sharing can also be stopped from the browser's own controls.
+      track.onended = () => { stopScreenShare(); };
+      setScreenStream(display);
+      await replaceOutgoingTrack('video', track);
+      updateCallMedia({ screen: true });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'NotAllowedError') return;
+      console.error('Failed to share screen:', e);
+      toast.error('Failed to share screen');
+    }
+  };
+
+  const switchCallDevice = async (kind: CallDeviceKind, deviceId: string) => {
+    setCallDevices(prev => ({ ...prev, [kind]: deviceId }));
+    const stream = localStream.current;
+    if (!stream) return;
+    const isAudio = kind === 'audioinput';
+    const current = isAudio ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+    // With the camera off, the choice applies the next time it's turned on.
+    if (!current) return;
+    try {
+      const constraint = { deviceId: { exact: deviceId } };
+      const media = await navigator.mediaDevices.getUserMedia(isAudio ? { audio: constraint } : { video: constraint });
+      const [track] = media.getTracks();
+      if (isAudio) track.enabled = callMediaRef.current.audio;
+      current.stop();
+      stream.removeTrack(current);
+      stream.addTrack(track);
+      if (isAudio || !screenTrackRef.current) await replaceOutgoingTrack(isAudio ? 'audio' : 'video', track);
+      refreshLocalStream();
+    } catch (e) {
+      console.error('Failed to switch device:', e);
+      toast.error('Failed to switch device');
+    }
+  };
+
+  const fetchCallHistory = useCallback((before?: string): Promise<CallHistoryPage> => api.getCallHistory(before), []);
+
+  const fetchChatMedia = useCallback((chatId: string, cursor?: MediaCursor): Promise<MediaPage> => api.getChatMedia(chatId, cursor), []);
+
+  const pendingMessages = outboxEntries.map(entry => toPendingMessage(
+    entry,
+    user ? { id: user.id, username: user.username, avatar: user.avatar, is_online: true } : undefined
+  ));
+
   return (
     <MessengerContext.Provider value={{
       chats,
@@ -805,11 +2087,22 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       searchQuery,
       isLoadingChats,
       isLoadingMessages,
+      hasOlderMessages,
+      hasNewerMessages,
+      isLoadingMoreMessages,
+      scrollTargetId,
       typingUsers,
       showChatInfo,
+      activeThread,
+      isLoadingThread,
       callStatus,
       localStream: localStreamState,
-      remoteStream: remoteStreamState,
+      screenStream,
+      remoteStreams,
+      callMedia,
+      remoteCallMedia,
+      callDevices,
+      activeCalls,
       sendTyping,
       sendStopTyping,
       setShowChatInfo,
@@ -820,7 +2113,19 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       sendMessage,
       forwardMessage,
       pinMessage,
-      openMessageContext,
+      loadOlderMessages,
+      loadNewerMessages,
+      jumpToMessage,
+      jumpToDate,
+      jumpToLatest,
+      clearScrollTarget,
+      openThread,
+      closeThread,
+      loadOlderThreadReplies,
+      sendThreadReply,
+      pendingMessages,
+      retryPendingMessage,
+      discardPendingMessage,
       createDirectChat,
       createGroupChat,
       createChannelChat,
@@ -831,6 +2136,12 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       startCall,
       endCall,
       joinCall,
+      fetchCallHistory,
+      fetchChatMedia,
+      toggleMute,
+      toggleCamera,
+      toggleScreenShare,
+      switchCallDevice,
       addReaction,
       removeReaction,
       saveMessage,
@@ -839,10 +2150,20 @@ export const MessengerProvider = ({ children }: { children: ReactNode }) => {
       deleteMessageForMe,
       editMessage,
       muteChat,
+      markChatRead,
+      markChatUnread,
+      updateChat,
+      subscribeChannel,
       deleteMessages,
       searchMessages,
       searchMessagesGlobal,
       createInvite,
+      addMembers,
+      changeMemberRole,
+      removeMember,
+      banMember,
+      unbanMember,
+      leaveChat,
       fetchSaves,
       fetchTrash,
       restoreMessage,
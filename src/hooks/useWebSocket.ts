@@ -5,6 +5,8 @@ const WS_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:3001';
 export interface WSMessage {
   type: string;
   payload: unknown;
+  // Per-user sequence number; absent on live-only events like typing and presence.
+  seq?: number;
 }
 
 export function useWebSocket(onMessage: (message: WSMessage) => void) {
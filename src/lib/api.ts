@@ -7,6 +7,77 @@ const headers = () => ({
   ...(getToken() ? { Authorization: `Bearer ${getToken()}` } : {}),
 });
 
+// Carries the HTTP status so callers can tell a rejected request from a network failure.
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Dimensions, duration and preview images of a photo, video or voice message.
+export interface MediaMetadata {
+  width?: number;
+  height?: number;
+  duration?: number;
+  thumbnailUrl?: string;
+  blurhash?: string;
+}
+
+export interface UploadedFile extends MediaMetadata {
+  url: string;
+  filename: string;
+  mimetype: string;
+}
+
+// Server-side state of a chunked upload; parts are numbered from 0.
+export interface UploadSession {
+  id: string;
+  chunkSize: number;
+  totalParts: number;
+  receivedParts: number;
+}
+
+// Attachment details stored alongside the message: a voice message's waveform or
+// the files of an album.
+export interface MessageMedia extends MediaMetadata {
+  waveform?: number[];
+  attachments?: ({ mediaType: 'image' | 'video' | 'file'; fileUrl: string; fileName?: string; fileSize?: number } & MediaMetadata)[];
+}
+
+export interface ReceiptMember {
+  id: string;
+  username: string;
+  avatar: string | null;
+}
+
+// `total` counts every recipient, so those missing from both lists haven't received it yet.
+export interface MessageReceipts {
+  total: number;
+  read: (ReceiptMember & { read_at: string })[];
+  delivered: ReceiptMember[];
+}
+
+interface MessageSearchParams {
+  q?: string;
+  chatId?: string;
+  senderId?: string;
+  from?: string;
+  to?: string;
+  type?: 'image' | 'file' | 'audio' | 'link';
+  hasReactions?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+const messageSearchUrl = (base: string, params: MessageSearchParams) => {
+  const url = new URL(base);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '' && value !== false) url.searchParams.set(key, String(value));
+  });
+  return url.toString();
+};
+
 export const api = {
   async register(email: string, username: string, password: string) {
     let res: Response;
@@ -65,7 +136,7 @@ export const api = {
     return res.json();
   },
 
-  async updateProfile(data: { username?: string; avatar?: string }) {
+  async updateProfile(data: { username?: string; avatar?: string; readReceipts?: boolean }) {
     const res = await fetch(`${API_URL}/api/users/profile`, {
       method: 'PUT',
       credentials: 'include',
@@ -83,6 +154,16 @@ export const api = {
     return res.json();
   },
 
+  async getEvents(epoch: string, since: number) {
+    const url = new URL(`${API_URL}/api/events`);
+    url.searchParams.set('epoch', epoch);
+    url.searchParams.set('since', String(since));
+    const res = await fetch(url.toString(), { headers: headers(), credentials: 'include' });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load missed events');
+    return data;
+  },
+
   async getChats() {
     const res = await fetch(`${API_URL}/api/chats`, { headers: headers(), credentials: 'include' });
     if (!res.ok) {
@@ -92,7 +173,7 @@ export const api = {
     return res.json();
   },
 
-  async createChat(data: { name?: string; isGroup?: boolean; chatType?: 'direct' | 'group' | 'channel'; memberIds?: string[]; avatar?: string; description?: string }) {
+  async createChat(data: { name?: string; isGroup?: boolean; chatType?: 'direct' | 'group' | 'channel'; memberIds?: string[]; avatar?: string; description?: string; isPublic?: boolean }) {
     const res = await fetch(`${API_URL}/api/chats`, {
       method: 'POST',
       credentials: 'include',
@@ -112,20 +193,52 @@ export const api = {
     return res.json();
   },
 
-  async getMessages(chatId: string, before?: string) {
+  // `before`, `after` and `around` take a message id or an ISO timestamp; pass at most one.
+  async getMessages(chatId: string, cursor: { before?: string; after?: string; around?: string; limit?: number } = {}) {
     const url = new URL(`${API_URL}/api/chats/${chatId}/messages`);
-    if (before) url.searchParams.set('before', before);
+    if (cursor.before) url.searchParams.set('before', cursor.before);
+    if (cursor.after) url.searchParams.set('after', cursor.after);
+    if (cursor.around) url.searchParams.set('around', cursor.around);
+    if (cursor.limit) url.searchParams.set('limit', String(cursor.limit));
     const res = await fetch(url.toString(), { headers: headers(), credentials: 'include' });
-    return res.json();
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load messages');
+    return data;
   },
 
-  async sendMessage(chatId: string, content: string, messageType = 'text', fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string) {
+  async sendMessage(chatId: string, content: string, messageType = 'text', fileUrl?: string, fileName?: string, fileSize?: number, replyTo?: string, threadId?: string, clientMessageId?: string, media?: MessageMedia) {
     const res = await fetch(`${API_URL}/api/chats/${chatId}/messages`, {
       method: 'POST',
       credentials: 'include',
       headers: headers(),
-      body: JSON.stringify({ content, messageType, fileUrl, fileName, fileSize, replyTo }),
+      body: JSON.stringify({ content, messageType, fileUrl, fileName, fileSize, replyTo, threadId, clientMessageId, ...media }),
     });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Failed to send message', res.status);
+    return data;
+  },
+
+  // Cursors are media item ids; pass at most one.
+  async getChatMedia(chatId: string, cursor: { before?: string; after?: string; around?: string; limit?: number } = {}) {
+    const url = new URL(`${API_URL}/api/chats/${chatId}/media`);
+    if (cursor.before) url.searchParams.set('before', cursor.before);
+    if (cursor.after) url.searchParams.set('after', cursor.after);
+    if (cursor.around) url.searchParams.set('around', cursor.around);
+    if (cursor.limit) url.searchParams.set('limit', String(cursor.limit));
+    const res = await fetch(url.toString(), { headers: headers(), credentials: 'include' });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load media');
+    return data;
+  },
+
+  async getThread(messageId: string, before?: string) {
+    const url = new URL(`${API_URL}/api/messages/${messageId}/thread`);
+    if (before) url.searchParams.set('before', before);
+    const res = await fetch(url.toString(), { headers: headers(), credentials: 'include' });
+    if (!res.ok) {
+      const data = await res.json();
+      throw new Error(data.error || 'Failed to load thread');
+    }
     return res.json();
   },
 
@@ -138,14 +251,47 @@ export const api = {
     return res.json();
   },
 
-  async searchMessages(chatId: string, q: string) {
-    const res = await fetch(`${API_URL}/api/chats/${chatId}/messages/search?q=${encodeURIComponent(q)}`, {
+  async searchMessages(chatId: string, q: string, filters: Omit<MessageSearchParams, 'q' | 'chatId'> = {}) {
+    const res = await fetch(messageSearchUrl(`${API_URL}/api/chats/${chatId}/messages/search`, { ...filters, q }), {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Search failed');
+    return data;
+  },
+
+  async updateChat(chatId: string, data: { name?: string; avatar?: string | null; description?: string | null; isPublic?: boolean }) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}`, {
+      method: 'PATCH',
+      credentials: 'include',
+      headers: headers(),
+      body: JSON.stringify(data),
+    });
+    const result = await res.json();
+    if (!res.ok) throw new Error(typeof result.error === 'string' ? result.error : 'Failed to update chat');
+    return result;
+  },
+
+  async searchChannels(q: string) {
+    const res = await fetch(`${API_URL}/api/channels/search?q=${encodeURIComponent(q)}`, {
       credentials: 'include',
       headers: headers(),
     });
     return res.json();
   },
 
+  async subscribeChannel(chatId: string) {
+    const res = await fetch(`${API_URL}/api/channels/${chatId}/subscribe`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to subscribe');
+    return data;
+  },
+
   async muteChat(chatId: string, muted: boolean) {
     const res = await fetch(`${API_URL}/api/chats/${chatId}/mute`, {
       method: 'PATCH',
@@ -231,26 +377,178 @@ export const api = {
     return res.json();
   },
 
-  async createInvite(chatId: string) {
+  async createInvite(chatId: string, options: { name?: string; ttlHours?: number | null; maxUses?: number | null; requiresApproval?: boolean } = {}) {
     const res = await fetch(`${API_URL}/api/chats/${chatId}/invite`, {
       method: 'POST',
       credentials: 'include',
       headers: headers(),
+      body: JSON.stringify(options),
     });
-    return res.json();
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to create invite');
+    return data;
+  },
+
+  async getChatInvites(chatId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/invites`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load invites');
+    return data;
+  },
+
+  async revokeInvite(chatId: string, inviteId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/invites/${inviteId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to revoke invite');
+    return data;
+  },
+
+  async getJoinRequests(chatId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/join-requests`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load join requests');
+    return data;
+  },
+
+  async approveJoinRequest(chatId: string, userId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/join-requests/${userId}/approve`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to approve request');
+    return data;
+  },
+
+  async rejectJoinRequest(chatId: string, userId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/join-requests/${userId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to decline request');
+    return data;
+  },
+
+  async addChatMembers(chatId: string, userIds: string[]) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/members`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+      body: JSON.stringify({ userIds }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to add members');
+    return data;
+  },
+
+  async updateMemberRole(chatId: string, userId: string, role: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/members/${userId}`, {
+      method: 'PATCH',
+      credentials: 'include',
+      headers: headers(),
+      body: JSON.stringify({ role }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to change role');
+    return data;
+  },
+
+  async removeChatMember(chatId: string, userId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/members/${userId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to remove member');
+    return data;
+  },
+
+  async getChatBans(chatId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/bans`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to load banned users');
+    return data;
+  },
+
+  async banChatMember(chatId: string, userId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/members/${userId}/ban`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to ban member');
+    return data;
+  },
+
+  async unbanChatMember(chatId: string, userId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/members/${userId}/ban`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to unban user');
+    return data;
+  },
+
+  async leaveChat(chatId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/leave`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to leave chat');
+    return data;
+  },
+
+  async getInvitePreview(code: string) {
+    const res = await fetch(`${API_URL}/api/invites/${encodeURIComponent(code)}`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Invalid or expired invite');
+    return data;
   },
 
   async joinInvite(code: string) {
-    const res = await fetch(`${API_URL}/api/invites/${code}/join`, { headers: headers(), credentials: 'include' });
-    return res.json();
+    const res = await fetch(`${API_URL}/api/invites/${encodeURIComponent(code)}/join`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to join chat');
+    return data;
   },
 
-  async searchMessagesGlobal(q: string) {
-    const res = await fetch(`${API_URL}/api/search/messages?q=${encodeURIComponent(q)}`, {
+  async searchMessagesGlobal(params: MessageSearchParams) {
+    const res = await fetch(messageSearchUrl(`${API_URL}/api/search/messages`, params), {
       credentials: 'include',
       headers: headers(),
     });
-    return res.json();
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Search failed');
+    return data;
   },
 
   async forwardMessage(messageId: string, chatId: string) {
@@ -273,13 +571,6 @@ export const api = {
     return res.json();
   },
 
-  async getMessageContext(messageId: string) {
-    const res = await fetch(`${API_URL}/api/messages/${messageId}/context`, {
-      credentials: 'include',
-      headers: headers(),
-    });
-    return res.json();
-  },
 
   async getChat(chatId: string) {
     const res = await fetch(`${API_URL}/api/chats/${chatId}`, {
@@ -289,6 +580,7 @@ export const api = {
     return res.json();
   },
 
+  // A chat has at most one running call; starting another resolves to that call instead.
   async startCall(chatId: string, isVideo = false) {
     const res = await fetch(`${API_URL}/api/calls`, {
       method: 'POST',
@@ -296,6 +588,67 @@ export const api = {
       headers: headers(),
       body: JSON.stringify({ chatId, isVideo }),
     });
+    const data = await res.json();
+    if (res.status === 409 && data.call) return data.call;
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Failed to start call', res.status);
+    return data;
+  },
+
+  async getIceConfig() {
+    const res = await fetch(`${API_URL}/api/calls/ice-config`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    if (!res.ok) throw new Error('Failed to load ICE servers');
+    return res.json();
+  },
+
+  async getActiveCalls() {
+    const res = await fetch(`${API_URL}/api/calls/active`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    if (!res.ok) throw new Error('Failed to load calls');
+    return res.json();
+  },
+
+  async joinCall(callId: string) {
+    const res = await fetch(`${API_URL}/api/calls/${callId}/join`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Failed to join call', res.status);
+    return data;
+  },
+
+  async declineCall(callId: string) {
+    const res = await fetch(`${API_URL}/api/calls/${callId}/decline`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    return res.json();
+  },
+
+  async getCallHistory(before?: string) {
+    const params = new URLSearchParams();
+    if (before) params.set('before', before);
+    const res = await fetch(`${API_URL}/api/calls?${params.toString()}`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    if (!res.ok) throw new Error('Failed to load call history');
+    return res.json();
+  },
+
+  async leaveCall(callId: string) {
+    const res = await fetch(`${API_URL}/api/calls/${callId}/leave`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
     return res.json();
   },
 
@@ -308,7 +661,7 @@ export const api = {
     return res.json();
   },
 
-  async uploadFile(file: File) {
+  async uploadFile(file: File): Promise<UploadedFile> {
     const formData = new FormData();
     formData.append('file', file);
     const res = await fetch(`${API_URL}/api/upload`, {
@@ -325,6 +678,63 @@ export const api = {
     return res.json();
   },
 
+  async createUpload(file: File): Promise<UploadSession> {
+    const res = await fetch(`${API_URL}/api/uploads`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+      body: JSON.stringify({ fileName: file.name, mimeType: file.type, size: file.size }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Upload failed', res.status);
+    return data;
+  },
+
+  async getUpload(uploadId: string): Promise<UploadSession> {
+    const res = await fetch(`${API_URL}/api/uploads/${uploadId}`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Upload not found', res.status);
+    return data;
+  },
+
+  async uploadPart(uploadId: string, index: number, chunk: Blob, signal?: AbortSignal): Promise<UploadSession> {
+    const res = await fetch(`${API_URL}/api/uploads/${uploadId}/parts/${index}`, {
+      method: 'PUT',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        ...(getToken() ? { Authorization: `Bearer ${getToken()}` } : {}),
+      },
+      body: chunk,
+      signal,
+    });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Upload failed', res.status);
+    return data;
+  },
+
+  async completeUpload(uploadId: string): Promise<UploadedFile> {
+    const res = await fetch(`${API_URL}/api/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Upload failed', res.status);
+    return data;
+  },
+
+  async cancelUpload(uploadId: string) {
+    await fetch(`${API_URL}/api/uploads/${uploadId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: headers(),
+    });
+  },
+
   async deleteMessageForMe(messageId: string) {
     const res = await fetch(`${API_URL}/api/messages/${messageId}/delete-for-me`, {
       method: 'POST',
@@ -353,6 +763,25 @@ export const api = {
     return res.json();
   },
 
+  async getMessageReceipts(messageId: string): Promise<MessageReceipts> {
+    const res = await fetch(`${API_URL}/api/messages/${messageId}/receipts`, {
+      credentials: 'include',
+      headers: headers(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new ApiError(typeof data.error === 'string' ? data.error : 'Failed to load receipts', res.status);
+    return data;
+  },
+
+  async markChatUnread(chatId: string) {
+    const res = await fetch(`${API_URL}/api/chats/${chatId}/unread`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: headers(),
+    });
+    return res.json();
+  },
+
   async logout() {
     const res = await fetch(`${API_URL}/api/auth/logout`, {
       method: 'POST',
@@ -0,0 +1,11 @@
+// Syntax highlighting for code blocks. Loaded on demand, so the grammars only
+// download once someone actually sends code.
+
+import { createLowlight, common } from 'lowlight';
+
+const lowlight = createLowlight(common);
+
+// Returns null for languages lowlight doesn't know; those blocks stay plain.
+export const highlightCode = (code: string, language: string | null) => (
+  language && lowlight.registered(language) ? lowlight.highlight(language, code) : null
+);
@@ -0,0 +1,197 @@
+// Message formatting. Text is parsed into a small tree and rendered as React
+// elements, never as HTML, so nothing a sender types can end up in the DOM as markup.
+//
+//   **bold**  _italic_  ~~strikethrough~~  `code`  ||spoiler||
+//   > quote              (at the start of a line)
+//   ```lang              (fenced code block, highlighted when the language is known)
+//   code
+//   ```
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold' | 'italic' | 'strike' | 'spoiler'; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'codeBlock'; language: string | null; text: string };
+
+const INLINE_MARKERS = [
+  { marker: '**', type: 'bold' },
+  { marker: '~~', type: 'strike' },
+  { marker: '||', type: 'spoiler' },
+  { marker: '_', type: 'italic' },
+] as const;
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+const isSpace = (char: string | undefined) => !char || /\s/.test(char);
+
+// Markers only count when they hug their content, and underscores only outside of
+// words, so snake_case names and URLs stay as they are.
+const findClosing = (text: string, marker: string, open: number) => {
+  const from = open + marker.length;
+  if (isSpace(text[from])) return -1;
+  if (marker === '_' && isWordChar(text[open - 1])) return -1;
+  for (let end = text.indexOf(marker, from + 1); end !== -1; end = text.indexOf(marker, end + 1)) {
+    if (isSpace(text[end - 1])) continue;
+    if (marker === '_' && isWordChar(text[end + 1])) continue;
+    return end;
+  }
+  return -1;
+};
+
+const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+    const inline = INLINE_MARKERS.find(({ marker }) => text.startsWith(marker, i));
+    if (inline) {
+      const end = findClosing(text, inline.marker, i);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: inline.type, children: parseInline(text.slice(i + inline.marker.length, end)) });
+        i = end + inline.marker.length;
+        continue;
+      }
+    }
+    plain += text[i];
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+const FENCE = /^```([\w+#.-]*)\s*$/;
+const QUOTE = /^>( |$)/;
+
+export const parseMarkup = (text: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+  const flush = () => {
+    // Blank lines around quotes and code blocks are taken up by the block's own spacing.
+    const text = paragraph.join('\n').replace(/^\n+|\n+$/g, '');
+    if (text) blocks.push({ type: 'paragraph', children: parseInline(text) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = lines[i].match(FENCE);
+    if (fence) {
+      const close = lines.findIndex((line, j) => j > i && line.trim() === '```');
+      // An unclosed fence is just text.
+      if (close !== -1) {
+        flush();
+        blocks.push({ type: 'codeBlock', language: fence[1].toLowerCase() || null, text: lines.slice(i + 1, close).join('\n') });
+        i = close;
+        continue;
+      }
+    }
+    if (QUOTE.test(lines[i])) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].replace(/^> ?/, ''));
+      i--;
+      flush();
+      blocks.push({ type: 'quote', children: parseInline(quoted.join('\n')) });
+      continue;
+    }
+    paragraph.push(lines[i]);
+  }
+  flush();
+  return blocks;
+};
+
+// Spoilers stay hidden wherever the text is shown without formatting.
+const SPOILER_PLACEHOLDER = '▒▒▒';
+
+const inlineText = (nodes: InlineNode[]): string => nodes.map((node) => {
+  if (node.type === 'text' || node.type === 'code') return node.text;
+  if (node.type === 'spoiler') return SPOILER_PLACEHOLDER;
+  return inlineText(node.children);
+}).join('');
+
+// Plain text for chat list previews, reply quotes, notifications and search snippets.
+export const stripMarkup = (text: string) => parseMarkup(text)
+  .map(block => (block.type === 'codeBlock' ? block.text : inlineText(block.children)))
+  .join('\n');
+
+export type MarkupFormat = 'bold' | 'italic' | 'strike' | 'code' | 'spoiler' | 'quote' | 'codeBlock';
+
+const WRAPPERS = { bold: '**', italic: '_', strike: '~~', code: '`', spoiler: '||' };
+
+export interface TextSelection {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Applies a format to the selected text, or removes it when the selection already
+// has it, and returns the new text with the selection moved to match.
+export const applyFormat = ({ text, start, end }: TextSelection, format: MarkupFormat): TextSelection => {
+  const selected = text.slice(start, end);
+
+  if (format === 'quote') {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const nextBreak = text.indexOf('\n', end);
+    const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+    const lines = text.slice(lineStart, lineEnd).split('\n');
+    const isQuoted = lines.every(line => QUOTE.test(line));
+    const replaced = lines.map(line => (isQuoted ? line.replace(/^> ?/, '') : `> ${line}`)).join('\n');
+    return { text: text.slice(0, lineStart) + replaced + text.slice(lineEnd), start: lineStart, end: lineStart + replaced.length };
+  }
+
+  if (format === 'codeBlock') {
+    const open = `${start > 0 && text[start - 1] !== '\n' ? '\n' : ''}\`\`\`\n`;
+    const close = `\n\`\`\`${end < text.length && text[end] !== '\n' ? '\n' : ''}`;
+    return { text: text.slice(0, start) + open + selected + close + text.slice(end), start: start + open.length, end: start + open.length + selected.length };
+  }
+
+  const marker = WRAPPERS[format];
+  if (text.slice(start - marker.length, start) === marker && text.slice(end, end + marker.length) === marker) {
+    return {
+      text: text.slice(0, start - marker.length) + selected + text.slice(end + marker.length),
+      start: start - marker.length,
+      end: end - marker.length,
+    };
+  }
+  return { text: text.slice(0, start) + marker + selected + marker + text.slice(end), start: start + marker.length, end: end + marker.length };
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Matched on `code` rather than `key`, which changes with Shift and the keyboard layout.
+export const FORMAT_SHORTCUTS: { format: MarkupFormat; label: string; code: string; shift: boolean }[] = [
+  { format: 'bold', label: 'Bold', code: 'KeyB', shift: false },
+  { format: 'italic', label: 'Italic', code: 'KeyI', shift: false },
+  { format: 'strike', label: 'Strikethrough', code: 'KeyX', shift: true },
+  { format: 'code', label: 'Code', code: 'KeyE', shift: false },
+  { format: 'spoiler', label: 'Spoiler', code: 'KeyH', shift: true },
+  { format: 'quote', label: 'Quote', code: 'Period', shift: true },
+  { format: 'codeBlock', label: 'Code block', code: 'KeyE', shift: true },
+];
+
+export const shortcutLabel = ({ code, shift }: { code: string; shift: boolean }) => {
+  const key = code === 'Period' ? '.' : code.replace('Key', '');
+  return `${isMac ? '⌘' : 'Ctrl+'}${shift ? (isMac ? '⇧' : 'Shift+') : ''}${key}`;
+};
+
+export const formatForShortcut = (e: { code: string; ctrlKey: boolean; metaKey: boolean; shiftKey: boolean; altKey: boolean }) => {
+  if ((isMac ? !e.metaKey : !e.ctrlKey) || e.altKey) return null;
+  return FORMAT_SHORTCUTS.find(({ code, shift }) => code === e.code && shift === e.shiftKey)?.format ?? null;
+};
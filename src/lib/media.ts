@@ -0,0 +1,84 @@
+import { api, type MediaMetadata, type UploadedFile } from '@/lib/api';
+import { uploadInChunks, type ChunkedUploadOptions } from '@/lib/uploads';
+
+// Photos are measured and thumbnailed by the server on upload. Browsers can decode
+// far more video formats than the server, so videos are measured here and their
+// first frame is uploaded as the poster image.
+
+const POSTER_SEEK_SECONDS = 0.1;
+const VIDEO_PROBE_TIMEOUT_MS = 10000;
+
+interface VideoProbe {
+  width: number;
+  height: number;
+  duration?: number;
+  poster: Blob | null;
+}
+
+const probeVideo = (file: File) => new Promise<VideoProbe | null>((resolve) => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+
+  let settled = false;
+  const finish = (result: VideoProbe | null) => {
+    if (settled) return;
+    settled = true;
+    window.clearTimeout(timeout);
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+    resolve(result);
+  };
+  const timeout = window.setTimeout(() => finish(null), VIDEO_PROBE_TIMEOUT_MS);
+
+  video.onloadedmetadata = () => {
+    video.currentTime = Number.isFinite(video.duration) ? Math.min(POSTER_SEEK_SECONDS, video.duration / 2) : 0;
+  };
+  video.onseeked = () => {
+    const { videoWidth: width, videoHeight: height } = video;
+    const duration = Number.isFinite(video.duration) ? video.duration : undefined;
+    if (!width || !height) {
+      finish(null);
+      return;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      finish({ width, height, duration, poster: null });
+      return;
+    }
+    context.drawImage(video, 0, 0, width, height);
+    canvas.toBlob(blob => finish({ width, height, duration, poster: blob }), 'image/jpeg', 0.8);
+  };
+  video.onerror = () => finish(null);
+  video.src = url;
+});
+
+// Uploads a file and returns it together with whatever metadata could be gathered.
+// Missing metadata never fails the upload; the message just renders without it.
+export const uploadMedia = async (file: File, options?: ChunkedUploadOptions): Promise<UploadedFile> => {
+  if (!file.type.startsWith('video/')) return uploadInChunks(file, options);
+
+  const [uploaded, probe] = await Promise.all([uploadInChunks(file, options), probeVideo(file)]);
+  if (!probe) return uploaded;
+  const result: UploadedFile = { ...uploaded, width: probe.width, height: probe.height, duration: probe.duration };
+  if (probe.poster) {
+    try {
+      const poster = await api.uploadFile(new File([probe.poster], `${file.name}-poster.jpg`, { type: 'image/jpeg' }));
+      result.thumbnailUrl = poster.thumbnailUrl ?? poster.url;
+      result.blurhash = poster.blurhash;
+    } catch (e) {
+      console.error('Failed to upload video poster:', e);
+    }
+  }
+  return result;
+};
+
+export const mediaMetadataOf = ({ width, height, duration, thumbnailUrl, blurhash }: MediaMetadata): MediaMetadata => (
+  { width, height, duration, thumbnailUrl, blurhash }
+);
@@ -0,0 +1,82 @@
+// Messages waiting to reach the server, persisted in IndexedDB so they survive
+// reloads and going offline. Sending and retrying lives in MessengerContext.
+
+import type { MessageMedia } from '@/lib/api';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  clientMessageId: string;
+  userId: string;
+  chatId: string;
+  threadId: string | null;
+  content: string;
+  messageType: string;
+  fileUrl?: string;
+  fileName?: string;
+  fileSize?: number;
+  media?: MessageMedia;
+  replyTo?: string | null;
+  reply?: { id: string; content: string; sender_id: string; sender_username: string } | null;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  error?: string;
+}
+
+const DB_NAME = 'messenger-outbox';
+const STORE = 'messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'clientMessageId' });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const outbox = {
+  async list(userId: string) {
+    const entries = await run<OutboxEntry[]>('readonly', (store) => store.index('userId').getAll(userId));
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async put(entry: OutboxEntry) {
+    await run('readwrite', (store) => store.put(entry));
+  },
+
+  async remove(clientMessageId: string) {
+    await run('readwrite', (store) => store.delete(clientMessageId));
+  },
+};
+
+// crypto.randomUUID is only available in secure contexts, so fall back for plain-http deployments.
+export const createClientMessageId = () => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return '10000000-1000-4000-8000-100000000000'.replace(/[018]/g, (c) => {
+    const digit = Number(c);
+    return (digit ^ (crypto.getRandomValues(new Uint8Array(1))[0] & (15 >> (digit / 4)))).toString(16);
+  });
+};
@@ -0,0 +1,102 @@
+// Chunked, resumable uploads. The session id is remembered per file, so when an
+// upload fails and the same file is picked again it carries on from the last part
+// the server confirmed instead of starting over.
+
+import { api, ApiError, type UploadSession, type UploadedFile } from '@/lib/api';
+
+const SESSION_KEY_PREFIX = 'upload-session:';
+const MAX_PART_ATTEMPTS = 5;
+
+export interface ChunkedUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+const sessionKey = (file: File) => `${SESSION_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = window.setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    window.clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+const openSession = async (file: File): Promise<UploadSession> => {
+  const stored = localStorage.getItem(sessionKey(file));
+  if (stored) {
+    try {
+      return await api.getUpload(stored);
+    } catch (e) {
+      // The session was completed, cancelled or belongs to another account.
+      if (!(e instanceof ApiError)) throw e;
+    }
+  }
+  const session = await api.createUpload(file);
+  localStorage.setItem(sessionKey(file), session.id);
+  return session;
+};
+
+export const uploadInChunks = async (file: File, { signal, onProgress }: ChunkedUploadOptions = {}): Promise<UploadedFile> => {
+  if (signal?.aborted) throw abortError();
+  let session = await openSession(file);
+  try {
+    let attempts = 0;
+    while (session.receivedParts < session.totalParts) {
+      if (signal?.aborted) throw abortError();
+      const index = session.receivedParts;
+      onProgress?.(Math.min(index * session.chunkSize, file.size), file.size);
+      try {
+        session = await api.uploadPart(session.id, index, file.slice(index * session.chunkSize, (index + 1) * session.chunkSize), signal);
+        attempts = 0;
+      } catch (e) {
+        if (signal?.aborted) throw abortError();
+        // Anything the server rejected outright won't succeed on a retry; a 409 only
+        // means it has a different idea of where the upload stands, and a 5xx may pass.
+        if (e instanceof ApiError && e.status !== 409 && e.status < 500) throw e;
+        if (++attempts >= MAX_PART_ATTEMPTS) throw e;
+        await wait(1000 * 2 ** attempts, signal);
+        session = await api.getUpload(session.id).catch((err) => {
+          if (err instanceof ApiError && err.status < 500) throw err;
+          return session;
+        });
+      }
+    }
+    onProgress?.(file.size, file.size);
+    const uploaded = await api.completeUpload(session.id);
+    localStorage.removeItem(sessionKey(file));
+    return uploaded;
+  } catch (e) {
+    if (signal?.aborted) {
+      localStorage.removeItem(sessionKey(file));
+      api.cancelUpload(session.id).catch(() => {});
+      throw abortError();
+    }
+    throw e;
+  }
+};
+
+// Runs at most `limit` tasks at once, starting the rest in the order they were queued.
+export const createTaskQueue = (limit: number) => {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (running >= limit) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      running++;
+    }
+    try {
+      return await task();
+    } finally {
+      // A finished task hands its slot straight to the next one in line.
+      const next = waiting.shift();
+      if (next) next();
+      else running--;
+    }
+  };
+};
@@ -0,0 +1,39 @@
+// Voice message helpers. Waveforms are peak levels per bar, scaled to 0-100 so
+// they can be stored with the message and drawn without downloading the audio.
+
+export const WAVEFORM_BARS = 48;
+
+export const computeWaveform = async (blob: Blob, bars = WAVEFORM_BARS): Promise<number[] | undefined> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const bucket = Math.max(1, Math.floor(samples.length / bars));
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (bar + 1) * bucket);
+      for (let i = bar * bucket; i < end; i++) {
+        const value = Math.abs(samples[i]);
+        if (value > peak) peak = value;
+      }
+      peaks.push(peak);
+    }
+    const loudest = Math.max(...peaks);
+    if (!loudest) return peaks.map(() => 0);
+    return peaks.map(peak => Math.round((peak / loudest) * 100));
+  } catch {
+    // Some browsers can't decode their own recordings (e.g. webm without a duration);
+    // the message then falls back to a plain progress bar.
+    return undefined;
+  } finally {
+    context.close();
+  }
+};
+
+export const formatDuration = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
@@ -1,16 +1,33 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useMessenger } from '@/context/MessengerContext';
 import { useAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
 import { toast } from 'sonner';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Users, Megaphone, Clock } from 'lucide-react';
+import { AvatarImage } from '@/components/AvatarImage';
 
+interface InvitePreview {
+    chat: {
+        id: string;
+        name: string | null;
+        avatar: string | null;
+        description: string | null;
+        chat_type: 'group' | 'channel' | 'direct';
+        member_count: number;
+    };
+    requires_approval: boolean;
+    is_member: boolean;
+    is_pending: boolean;
+}
+
+// Rendered outside MessengerProvider, so it talks to the API directly.
 const JoinInvite = () => {
     const { code } = useParams();
     const navigate = useNavigate();
-    const { joinInvite } = useMessenger();
     const { isAuthenticated, isLoading } = useAuth();
+    const [preview, setPreview] = useState<InvitePreview | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [isJoining, setIsJoining] = useState(false);
 
     useEffect(() => {
         if (isLoading) return;
@@ -20,27 +37,37 @@ const JoinInvite = () => {
             return;
         }
 
-        const processJoin = async () => {
-            if (!code) {
-                navigate('/');
-                return;
-            }
+        if (!code) {
+            navigate('/');
+            return;
+        }
 
-            try {
-                await joinInvite(code);
-                toast.success('Successfully joined the chat!');
-                navigate('/');
-            } catch (e: unknown) {
-                console.error(e);
-                const errorMsg = e instanceof Error ? e.message : 'Invalid or expired invite code';
-                setError(errorMsg);
-                toast.error('Failed to join chat');
-                setTimeout(() => navigate('/'), 3000);
-            }
-        };
+        api.getInvitePreview(code)
+            .then(setPreview)
+            .catch((e: unknown) => {
+                setError(e instanceof Error ? e.message : 'Invalid or expired invite code');
+            });
+    }, [code, navigate, isAuthenticated, isLoading]);
 
-        processJoin();
-    }, [code, joinInvite, navigate, isAuthenticated, isLoading]);
+    const handleJoin = async () => {
+        if (!code || !preview) return;
+        setIsJoining(true);
+        try {
+            const result = await api.joinInvite(code);
+            if (result.pending) {
+                setPreview({ ...preview, is_pending: true });
+                toast.success('Request sent');
+                return;
+            }
+            toast.success('Successfully joined the chat!');
+            navigate('/');
+        } catch (e: unknown) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : 'Failed to join chat');
+        } finally {
+            setIsJoining(false);
+        }
+    };
 
     if (error) {
         return (
@@ -59,16 +86,81 @@ const JoinInvite = () => {
         );
     }
 
-    return (
-        <div className="min-h-screen flex flex-col items-center justify-center bg-messenger-bg text-foreground">
-            <div className="flex flex-col items-center gap-6 animate-pulse">
-                <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center">
-                    <Loader2 className="w-10 h-10 animate-spin text-primary" />
+    if (!preview) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center bg-messenger-bg text-foreground">
+                <div className="flex flex-col items-center gap-6 animate-pulse">
+                    <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center">
+                        <Loader2 className="w-10 h-10 animate-spin text-primary" />
+                    </div>
+                    <div className="text-center">
+                        <h2 className="text-2xl font-bold mb-2">Loading invite...</h2>
+                        <p className="text-white/40">Please wait while we look up your invite code</p>
+                    </div>
                 </div>
-                <div className="text-center">
-                    <h2 className="text-2xl font-bold mb-2">Joining Chat...</h2>
-                    <p className="text-white/40">Please wait while we process your invite code</p>
+            </div>
+        );
+    }
+
+    const { chat } = preview;
+    const isChannel = chat.chat_type === 'channel';
+    const chatName = chat.name || 'Unnamed chat';
+    const countLabel = isChannel
+        ? `${chat.member_count} ${chat.member_count === 1 ? 'subscriber' : 'subscribers'}`
+        : `${chat.member_count} ${chat.member_count === 1 ? 'member' : 'members'}`;
+
+    return (
+        <div className="min-h-screen flex flex-col items-center justify-center bg-messenger-bg text-foreground p-4">
+            <div className="bg-white/5 border border-white/10 p-8 rounded-3xl text-center max-w-md w-full backdrop-blur-xl">
+                <div className="w-20 h-20 mx-auto mb-4 rounded-full overflow-hidden bg-gradient-to-br from-purple-500 to-pink-500 flex items-center justify-center">
+                    <AvatarImage
+                        src={chat.avatar}
+                        alt={chatName}
+                        className="w-full h-full"
+                        fallback={<span className="text-white font-bold text-3xl">{chatName.charAt(0).toUpperCase()}</span>}
+                    />
                 </div>
+                <p className="text-xs text-white/40 uppercase tracking-wider font-bold mb-1">
+                    You're invited to {isChannel ? 'a channel' : 'a group'}
+                </p>
+                <h2 className="text-2xl font-bold mb-2 break-words">{chatName}</h2>
+                <p className="flex items-center justify-center gap-1.5 text-sm text-white/50 mb-4">
+                    {isChannel ? <Megaphone size={14} /> : <Users size={14} />}
+                    {countLabel}
+                </p>
+                {chat.description && (
+                    <p className="text-sm text-white/60 mb-6 whitespace-pre-wrap break-words">{chat.description}</p>
+                )}
+
+                {preview.is_member ? (
+                    <button
+                        onClick={() => navigate('/')}
+                        className="w-full py-3 bg-primary text-white rounded-xl font-medium hover:bg-primary/90 transition-all"
+                    >
+                        Open chat
+                    </button>
+                ) : preview.is_pending ? (
+                    <div className="flex items-center justify-center gap-2 py-3 rounded-xl bg-white/5 text-white/60 text-sm">
+                        <Clock size={16} />
+                        Waiting for an admin to approve your request
+                    </div>
+                ) : (
+                    <button
+                        onClick={handleJoin}
+                        disabled={isJoining}
+                        className="w-full py-3 bg-primary text-white rounded-xl font-medium hover:bg-primary/90 disabled:opacity-50 transition-all flex items-center justify-center"
+                    >
+                        {isJoining
+                            ? <Loader2 size={18} className="animate-spin" />
+                            : preview.requires_approval ? 'Request to join' : isChannel ? 'Subscribe' : 'Join group'}
+                    </button>
+                )}
+                <button
+                    onClick={() => navigate('/')}
+                    className="w-full mt-2 py-3 hover:bg-white/5 rounded-xl transition-all text-sm text-white/50"
+                >
+                    {preview.is_member ? 'Back to Home' : 'Not now'}
+                </button>
             </div>
         </div>
     );
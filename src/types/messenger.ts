@@ -1,3 +1,15 @@
+export type ChatRole = 'owner' | 'admin' | 'moderator' | 'member' | 'readonly';
+
+export interface ChatPermissions {
+  post: boolean;
+  pin: boolean;
+  invite: boolean;
+  delete_messages: boolean;
+  edit_info: boolean;
+  start_call: boolean;
+  manage_members: boolean;
+}
+
 export interface User {
   id: string;
   username: string;
@@ -5,6 +17,7 @@ export interface User {
   avatar: string | null;
   is_online: boolean;
   last_read_at?: string | null;
+  role?: ChatRole;
 }
 
 export interface Message {
@@ -17,6 +30,9 @@ export interface Message {
   edited_at?: string | null;
   reply_to?: string | null;
   reply?: { id: string; content: string; sender_id: string; sender_username: string } | null;
+  thread_root_id?: string | null;
+  reply_count?: number;
+  view_count?: number;
   forwarded_from?: { message_id: string; chat_id: string; chat_name: string | null; sender_id: string; sender_username: string | null } | null;
   sender?: User;
 }
@@ -29,6 +45,10 @@ export interface Chat {
   avatar: string | null;
   description: string | null;
   pinned_message?: { id: string; content: string; created_at: string; sender_id: string; sender_username: string | null; message_type?: string } | null;
+  role?: ChatRole;
+  permissions?: ChatPermissions;
+  is_public?: boolean;
+  member_count?: number;
   members: User[];
   last_message: {
     id: string;